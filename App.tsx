@@ -3,17 +3,31 @@ console.log("Check Keys:", {
   gemini: !!import.meta.env.VITE_GEMINI_API_KEY 
 });
 
-import React, { useState, useEffect, useCallback, useMemo } from 'react';
+import React, { useState, useEffect, useCallback, useMemo, useRef } from 'react';
 import { Layout } from './components/Layout';
 import { SetupWizard } from './components/SetupWizard';
 import { SyncView } from './components/SyncView';
 import { DashboardView } from './components/DashboardView';
-import { MasterRecord, ViewState, SaleRecord } from './types';
+import { CatalogView } from './components/CatalogView';
+import { SyncConflictDialog } from './components/SyncConflictDialog';
+import { DriveFolder, MasterRecord, ViewState, SaleRecord } from './types';
 import { GoogleDriveService } from './lib/googleDrive';
+import { ImportSource, appendImportBatch, generateId, rollbackImportBatch, withTotals } from './lib/masterRecord';
+import { deleteMappingProfile } from './lib/mappingProfiles';
+import { setInboxFolder } from './lib/inbox';
+import { isSheetCopyStale, publishSheetCopy } from './lib/sheetCopy';
+import { learnProductAliases } from './lib/catalog';
+import { FALLBACK_CATEGORY } from './lib/categories';
+import { DEFAULT_CURRENCY } from './lib/currency';
+import { RecordMutation, applyRecordMutation } from './lib/records';
+import { Workspace } from './lib/workspaces';
+import { CURRENT_SCHEMA_VERSION, migrateMasterRecord } from './lib/schema';
+import { LocalStore } from './lib/localStore';
+import { createAiProvider } from './lib/ai';
+import { ConflictChoice, SyncOutcome, acceptRemoteAsBase, mergeMasters, resolveMerge, syncMasterToDrive } from './lib/cloudSync';
 
 const FALLBACK_CLIENT_ID = '298405130840-2m8lsjjfdab0ha2g3dmanqd9abu62ph5.apps.googleusercontent.com';
 const GOOGLE_CLIENT_ID = (import.meta as any).env?.VITE_GOOGLE_CLIENT_ID || FALLBACK_CLIENT_ID;
-const MASTER_FILE_NAME = 'Esthetic_Master_Record.json';
 
 const App: React.FC = () => {
   const [view, setView] = useState<ViewState>('setup');
@@ -21,6 +35,10 @@ const App: React.FC = () => {
   const [isLoaded, setIsLoaded] = useState(false);
   const [googleUser, setGoogleUser] = useState<any>(null);
   const [cloudSyncing, setCloudSyncing] = useState(false);
+  const [loadError, setLoadError] = useState<string | null>(null);
+  const [syncConflict, setSyncConflict] = useState<Extract<SyncOutcome, { status: 'conflict' }> | null>(null);
+  const masterRef = useRef<MasterRecord | null>(null);
+  masterRef.current = master;
 
   const googleService = useMemo(() => {
     const geminiKey = import.meta.env.VITE_GEMINI_API_KEY || '';
@@ -29,30 +47,50 @@ const App: React.FC = () => {
     return new GoogleDriveService(GOOGLE_CLIENT_ID, googleKey);
   }, []);
 
+  const localStore = useMemo(() => new LocalStore(), []);
+  const ai = useMemo(() => createAiProvider(), []);
+
+  // Every local write goes through here so the in-memory and IndexedDB copies never drift.
+  const persistMaster = useCallback((updated: MasterRecord) => {
+    setMaster(updated);
+    localStore.saveMaster(updated).catch(err => console.error("Local save failed", err));
+  }, [localStore]);
+
   useEffect(() => {
-    const savedMaster = localStorage.getItem('maker_master_record');
-    if (savedMaster) {
+    const loadLocal = async () => {
       try {
-        setMaster(JSON.parse(savedMaster));
-        setView('sync');
-      } catch (e) {
-        console.error("Failed to parse local record", e);
+        const savedMaster = await localStore.loadActiveMaster();
+        if (savedMaster) {
+          persistMaster(migrateMasterRecord(savedMaster));
+          setView('sync');
+        }
+      } catch (e: any) {
+        console.error("Failed to load local record", e);
+        setLoadError(`Your saved master record could not be opened. ${e.message}`);
+      } finally {
+        setIsLoaded(true);
       }
-    }
-    setIsLoaded(true);
+    };
+    loadLocal();
     googleService.initGis().catch(err => console.warn("Background cloud init pending:", err));
-  }, [googleService]);
+  }, [googleService, localStore, persistMaster]);
 
   useEffect(() => {
-    if (master && googleUser && googleService.getStoredToken()) {
+    if (master && googleUser && googleService.getStoredToken() && !syncConflict) {
       const syncToCloud = async () => {
         setCloudSyncing(true);
         try {
-          const fileMeta = await googleService.saveJsonToCloud(MASTER_FILE_NAME, master);
-          if (fileMeta?.webViewLink && master.googleFileUrl !== fileMeta.webViewLink) {
-             const updated = { ...master, googleFileUrl: fileMeta.webViewLink };
-             setMaster(updated);
-             localStorage.setItem('maker_master_record', JSON.stringify(updated));
+          const outcome = await syncMasterToDrive(googleService, localStore, master);
+          const current = masterRef.current;
+          // Switched workspace mid-upload: the next open merges with Drive anyway
+          if (current?.id !== master.id) return;
+          if (outcome.status === 'conflict') {
+            setSyncConflict(outcome);
+          } else if (outcome.status === 'uploaded' && outcome.master !== master) {
+            // Fold in anything changed locally while the upload was in flight
+            persistMaster(current === master
+              ? outcome.master
+              : resolveMerge(mergeMasters(master, current, outcome.master), {}));
           }
         } catch (e) {
           console.error("Cloud Sync Failed", e);
@@ -64,67 +102,147 @@ const App: React.FC = () => {
       const debounce = setTimeout(syncToCloud, 3000);
       return () => clearTimeout(debounce);
     }
-  }, [master, googleUser, googleService]);
-
-  const handleSetupComplete = (data: string | MasterRecord) => {
-    if (typeof data === 'string') {
-      const newMaster: MasterRecord = {
-        id: Math.random().toString(36).substr(2, 9),
-        name: data,
-        lastUpdated: new Date().toISOString(),
-        totalSales: 0,
-        totalRevenue: 0,
-        data: [],
-        syncedFiles: []
-      };
-      setMaster(newMaster);
-      localStorage.setItem('maker_master_record', JSON.stringify(newMaster));
-    } else {
-      setMaster(data);
-      localStorage.setItem('maker_master_record', JSON.stringify(data));
+  }, [master, googleUser, googleService, localStore, persistMaster, syncConflict]);
+
+  const publishSheet = useCallback(async (target: MasterRecord, onlyIfStale = false) => {
+    const published = await localStore.getSheetState(target.id);
+    if (onlyIfStale && !isSheetCopyStale(target, published)) return;
+    const { copy, state } = await publishSheetCopy(googleService, target, published);
+    await localStore.saveSheetState(target.id, state);
+    const current = masterRef.current;
+    // Unlinked while an update was in flight: leave it unlinked
+    if (current?.id !== target.id || (!current.sheetCopy && target.sheetCopy)) return;
+    if (current.sheetCopy?.spreadsheetId !== copy.spreadsheetId) persistMaster({ ...current, sheetCopy: copy });
+  }, [googleService, localStore, persistMaster]);
+
+  // Once published, the Sheets copy follows every change to the master
+  useEffect(() => {
+    if (master?.sheetCopy && googleUser && googleService.getStoredToken() && !syncConflict) {
+      const debounce = setTimeout(() => {
+        publishSheet(master, true).catch(e => console.error("Sheet update failed", e));
+      }, 5000);
+      return () => clearTimeout(debounce);
     }
-    setView('sync');
+  }, [master, googleUser, googleService, syncConflict, publishSheet]);
+
+  const handleResolveConflicts = async (choices: Record<string, ConflictChoice>) => {
+    if (!syncConflict) return;
+    const resolved = resolveMerge(syncConflict.merge, choices);
+    await acceptRemoteAsBase(localStore, syncConflict.remote, syncConflict.remoteMeta);
+    setSyncConflict(null);
+    persistMaster(resolved);
   };
 
-  const updateMaster = useCallback((newSales: SaleRecord[], schema?: any, fileName?: string) => {
-    if (!master) return 0;
-    const updatedData = [...master.data, ...newSales];
-    const updatedSyncedFiles = [...(master.syncedFiles || [])];
-    if (fileName && !updatedSyncedFiles.includes(fileName)) updatedSyncedFiles.push(fileName);
-    
-    const updatedMaster: MasterRecord = {
-      ...master,
-      data: updatedData,
+  const handleCreateWorkspace = (name: string) => {
+    const newMaster: MasterRecord = {
+      schemaVersion: CURRENT_SCHEMA_VERSION,
+      id: generateId(),
+      name,
       lastUpdated: new Date().toISOString(),
-      totalSales: updatedData.length,
-      totalRevenue: updatedData.reduce((acc, s) => acc + s.amount, 0),
-      mappingSchema: schema || master.mappingSchema,
-      syncedFiles: updatedSyncedFiles
+      totalSales: 0,
+      totalRevenue: 0,
+      data: [],
+      syncedFiles: [],
+      mappingProfiles: [],
+      products: [],
+      categories: [{ id: generateId(), name: FALLBACK_CATEGORY }],
+      costs: [],
+      reportingCurrency: DEFAULT_CURRENCY,
+      exchangeRates: [],
+      imports: []
     };
-    setMaster(updatedMaster);
-    localStorage.setItem('maker_master_record', JSON.stringify(updatedMaster));
+    persistMaster(newMaster);
+    setView('sync');
+  };
+
+  const handleOpenBackup = (backup: MasterRecord) => {
+    persistMaster(backup);
+    setView('sync');
+  };
+
+  /**
+   * Opens a workspace from this device's cache when there is one (the sync
+   * then merges in anything newer on Drive), otherwise from its Drive file.
+   */
+  const handleOpenWorkspace = async (workspace: Workspace) => {
+    let opened = workspace.local ? await localStore.loadMaster(workspace.local.id) : null;
+    if (!opened && workspace.file) {
+      const remote = migrateMasterRecord(await googleService.downloadFile(workspace.file.id));
+      opened = await localStore.loadMaster(remote.id);
+      if (!opened) {
+        await acceptRemoteAsBase(localStore, remote, workspace.file);
+        opened = remote;
+      }
+    }
+    if (!opened) throw new Error(`"${workspace.name}" could not be found.`);
+    persistMaster(migrateMasterRecord(opened));
+    setLoadError(null);
+    setView('sync');
+  };
+
+  const updateMaster = useCallback((newSales: SaleRecord[], source: ImportSource) => {
+    if (!master) return 0;
+    persistMaster(learnProductAliases(appendImportBatch(master, newSales, source), source.cleanNames || {}));
     return newSales.length;
-  }, [master]);
+  }, [master, persistMaster]);
+
+  const deleteProfile = useCallback((profileId: string) => {
+    if (!master) return;
+    persistMaster(deleteMappingProfile(master, profileId));
+  }, [master, persistMaster]);
+
+  // Workspaces whose Drive inbox was auto-imported since the app loaded
+  const inboxAutoImported = useRef(new Set<string>());
+  const claimInboxAutoImport = useCallback(() => {
+    const id = masterRef.current?.id;
+    if (!id || inboxAutoImported.current.has(id)) return false;
+    inboxAutoImported.current.add(id);
+    return true;
+  }, []);
+
+  const setInbox = useCallback((folder: DriveFolder | undefined) => {
+    if (!master) return;
+    persistMaster(setInboxFolder(master, folder));
+  }, [master, persistMaster]);
+
+  const rollbackImport = useCallback((batchId: string) => {
+    if (!master) return;
+    persistMaster(rollbackImportBatch(master, batchId));
+  }, [master, persistMaster]);
+
+  const editRecords = useCallback((mutation: RecordMutation) => {
+    if (!master) return;
+    persistMaster(applyRecordMutation(master, mutation));
+  }, [master, persistMaster]);
+
+  const updateCatalog = useCallback((updated: MasterRecord) => {
+    persistMaster(withTotals(updated));
+  }, [persistMaster]);
 
   const saveAnalysis = useCallback((insight: string) => {
     if (!master) return;
-    const updatedMaster = { ...master, lastStrategicInsight: insight, analysisTimestamp: new Date().toISOString() };
-    setMaster(updatedMaster);
-    localStorage.setItem('maker_master_record', JSON.stringify(updatedMaster));
-  }, [master]);
+    persistMaster({ ...master, lastStrategicInsight: insight, analysisTimestamp: new Date().toISOString() });
+  }, [master, persistMaster]);
 
-  // ✅ NEW: Correctly resets the file choice without killing the user session
+  // Back to the workspace list; every workspace keeps its local cache
   const handleSwitchFile = () => {
-    localStorage.removeItem('maker_master_record');
+    setSyncConflict(null);
     setMaster(null);
     setView('setup');
+    localStore.setActiveMaster(null).catch(err => console.error("Local save failed", err));
   };
 
-  const handleSignOut = () => {
-    localStorage.removeItem('maker_master_record');
+  const handleSignOut = async () => {
+    await localStore.clear().catch(err => console.error("Local delete failed", err));
     window.location.reload();
   };
 
+  // Drops this workspace's copy on this device; the Drive file is untouched.
+  const handleResetRecords = async () => {
+    if (master) await localStore.deleteMaster(master.id).catch(err => console.error("Local delete failed", err));
+    handleSwitchFile();
+  };
+
   if (!isLoaded) {
     return (
       <div className="min-h-screen flex flex-col items-center justify-center bg-slate-50">
@@ -144,24 +262,46 @@ const App: React.FC = () => {
       onSwitchFile={handleSwitchFile} 
       cloudSyncing={cloudSyncing}
     >
+      {syncConflict && (
+        <SyncConflictDialog conflicts={syncConflict.merge.conflicts} onResolve={handleResolveConflicts} />
+      )}
       {view === 'setup' && (
         <SetupWizard 
-          onComplete={handleSetupComplete} 
+          onCreate={handleCreateWorkspace}
+          onOpen={handleOpenWorkspace}
+          onOpenBackup={handleOpenBackup}
           googleService={googleService} 
+          localStore={localStore}
+          isSignedIn={!!googleUser}
           onAuthenticated={setGoogleUser} 
+          initialError={loadError}
         />
       )}
       {view === 'sync' && master && (
         <SyncView 
           master={master} 
           onSync={updateMaster} 
+          onRollback={rollbackImport}
+          onDeleteProfile={deleteProfile}
+          onEditRecords={editRecords}
+          onSetInbox={setInbox}
+          claimInboxAutoImport={claimInboxAutoImport}
+          onPublishSheet={() => publishSheet(master)}
+          onUnlinkSheet={() => persistMaster({ ...master, sheetCopy: undefined })}
           googleService={googleService} 
+          isSignedIn={!!googleUser}
+          ai={ai}
         />
       )}
+      {view === 'catalog' && master && (
+        <CatalogView master={master} onUpdate={updateCatalog} />
+      )}
       {view === 'analyze' && master && (
         <DashboardView 
           master={master} 
           onSaveAnalysis={saveAnalysis} 
+          onResetRecords={handleResetRecords}
+          ai={ai}
         />
       )}
     </Layout>
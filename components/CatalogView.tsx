@@ -0,0 +1,154 @@
+import React, { useMemo, useState } from 'react';
+import { Package, Search, Merge, Pencil, Scissors, Check, X } from 'lucide-react';
+import { MasterRecord } from '../types';
+import { catalogEntries, mergeProducts, renameProduct, splitProductAlias } from '../lib/catalog';
+import { CategoryEditor } from './CategoryEditor';
+import { CostEditor } from './CostEditor';
+import { CurrencyEditor } from './CurrencyEditor';
+import { convertSales, formatMoney } from '../lib/currency';
+
+interface CatalogViewProps {
+  master: MasterRecord;
+  onUpdate: (master: MasterRecord) => void;
+}
+
+export const CatalogView: React.FC<CatalogViewProps> = ({ master, onUpdate }) => {
+  const [search, setSearch] = useState('');
+  const [selected, setSelected] = useState<Set<string>>(new Set());
+  const [mergeName, setMergeName] = useState('');
+  const [editing, setEditing] = useState<{ name: string, value: string } | null>(null);
+
+  const entries = useMemo(
+    () => catalogEntries(master.products, convertSales(master.data, master.reportingCurrency, master.exchangeRates).sales),
+    [master.products, master.data, master.reportingCurrency, master.exchangeRates]
+  );
+
+  const visible = useMemo(() => {
+    const term = search.trim().toLowerCase();
+    if (!term) return entries;
+    return entries.filter(e => [e.name, ...e.aliases].some(n => n.toLowerCase().includes(term)));
+  }, [entries, search]);
+
+  const toggle = (name: string) => {
+    const next = new Set(selected);
+    if (next.has(name)) next.delete(name); else next.add(name);
+    setSelected(next);
+    if (next.size > 0 && !mergeName) setMergeName(name);
+  };
+
+  const confirmMerge = () => {
+    if (selected.size < 2 || !mergeName.trim()) return;
+    onUpdate(mergeProducts(master, [...selected], mergeName));
+    setSelected(new Set());
+    setMergeName('');
+  };
+
+  const confirmRename = () => {
+    if (!editing) return;
+    const value = editing.value.trim();
+    if (value && value !== editing.name) {
+      const target = entries.find(e => e.name.toLowerCase() === value.toLowerCase() && e.name !== editing.name);
+      if (!target || window.confirm(`"${target.name}" already exists. Merge "${editing.name}" into it?`)) {
+        onUpdate(renameProduct(master, editing.name, value));
+      }
+    }
+    setEditing(null);
+  };
+
+  return (
+    <div className="space-y-8 pb-20">
+      <header>
+        <h1 className="text-4xl font-black text-slate-900 tracking-tight">Catalog</h1>
+        <p className="text-slate-500 font-medium">Group spelling variants so the dashboard counts each product once, and organise your categories, costs and currencies.</p>
+      </header>
+
+      <div className="bg-white rounded-[32px] p-3 border border-slate-100 shadow-sm flex flex-col md:flex-row items-center gap-4">
+        <div className="flex-1 w-full flex items-center gap-2 bg-slate-50 px-4 py-2 rounded-xl border border-slate-100">
+          <Search className="w-4 h-4 text-slate-400" />
+          <input value={search} onChange={(e) => setSearch(e.target.value)} placeholder="Search products or aliases" className="flex-1 bg-transparent text-sm font-bold text-slate-700 outline-none" />
+        </div>
+        {selected.size > 1 && (
+          <div className="flex items-center gap-2 w-full md:w-auto animate-in slide-in-from-right-4 fade-in duration-300">
+            <input value={mergeName} onChange={(e) => setMergeName(e.target.value)} placeholder="Merged name" className="bg-slate-50 px-4 py-2 rounded-xl border border-slate-100 text-sm font-bold outline-none" />
+            <button onClick={confirmMerge} disabled={!mergeName.trim()} className="flex items-center gap-2 px-5 py-2 rounded-xl font-black text-[10px] uppercase tracking-wider bg-indigo-600 text-white disabled:opacity-50">
+              <Merge className="w-4 h-4" /> Merge {selected.size}
+            </button>
+          </div>
+        )}
+      </div>
+
+      <div className="bg-white rounded-[40px] shadow-xl overflow-hidden">
+        <table className="w-full text-sm text-left">
+          <thead className="bg-slate-50 text-slate-400 font-black uppercase text-[10px] tracking-wider">
+            <tr>
+              <th className="px-6 py-4 w-12"></th>
+              <th className="px-6 py-4">Product</th>
+              <th className="px-6 py-4">Also sold as</th>
+              <th className="px-6 py-4 text-right">Units</th>
+              <th className="px-6 py-4 text-right">Revenue</th>
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-slate-100">
+            {visible.map(entry => (
+              <tr key={entry.name} className={selected.has(entry.name) ? 'bg-indigo-50/40' : 'hover:bg-slate-50/50'}>
+                <td className="px-6 py-3">
+                  <input type="checkbox" checked={selected.has(entry.name)} onChange={() => toggle(entry.name)} className="w-4 h-4 accent-indigo-600" />
+                </td>
+                <td className="px-6 py-3 font-bold text-slate-900">
+                  {editing?.name === entry.name ? (
+                    <div className="flex items-center gap-2">
+                      <input
+                        autoFocus
+                        value={editing.value}
+                        onChange={(e) => setEditing({ ...editing, value: e.target.value })}
+                        onKeyDown={(e) => { if (e.key === 'Enter') confirmRename(); if (e.key === 'Escape') setEditing(null); }}
+                        className="flex-1 bg-slate-50 border-2 border-slate-100 rounded-lg px-3 py-1 font-bold"
+                      />
+                      <button onClick={confirmRename} className="text-emerald-500"><Check className="w-4 h-4" /></button>
+                      <button onClick={() => setEditing(null)} className="text-slate-400"><X className="w-4 h-4" /></button>
+                    </div>
+                  ) : (
+                    <button onClick={() => setEditing({ name: entry.name, value: entry.name })} className="group flex items-center gap-2 text-left">
+                      {entry.name}
+                      <Pencil className="w-3 h-3 text-slate-300 opacity-0 group-hover:opacity-100" />
+                    </button>
+                  )}
+                </td>
+                <td className="px-6 py-3">
+                  <div className="flex flex-wrap gap-1">
+                    {entry.aliases.map(alias => (
+                      <span key={alias} className="inline-flex items-center gap-1 text-[10px] font-bold text-slate-500 bg-slate-100 px-2 py-0.5 rounded-full">
+                        {alias}
+                        {entry.id && (
+                          <button onClick={() => onUpdate(splitProductAlias(master, entry.id!, alias))} title="Split into its own product" className="text-slate-400 hover:text-indigo-600">
+                            <Scissors className="w-3 h-3" />
+                          </button>
+                        )}
+                      </span>
+                    ))}
+                  </div>
+                </td>
+                <td className="px-6 py-3 text-right text-slate-500">{entry.count}</td>
+                <td className="px-6 py-3 text-right font-bold text-slate-900">{formatMoney(entry.revenue, master.reportingCurrency, true)}</td>
+              </tr>
+            ))}
+            {visible.length === 0 && (
+              <tr>
+                <td colSpan={5} className="px-6 py-12 text-center text-slate-400 font-medium">
+                  <Package className="w-8 h-8 mx-auto mb-2 text-slate-200" />
+                  {entries.length === 0 ? 'Import sales to build your catalog.' : 'No products match your search.'}
+                </td>
+              </tr>
+            )}
+          </tbody>
+        </table>
+      </div>
+
+      <CostEditor master={master} entries={entries} onUpdate={onUpdate} />
+
+      <CurrencyEditor master={master} onUpdate={onUpdate} />
+
+      <CategoryEditor master={master} onUpdate={onUpdate} />
+    </div>
+  );
+};
@@ -0,0 +1,147 @@
+import React, { useMemo, useState } from 'react';
+import { Tags, Plus, Trash2, Pencil, Check, X, CornerDownRight } from 'lucide-react';
+import { Category, MasterRecord } from '../types';
+import {
+  addCategory, childCategories, deleteCategory, mergeCategories, renameCategory, setCategoryParent
+} from '../lib/categories';
+
+interface CategoryEditorProps {
+  master: MasterRecord;
+  onUpdate: (master: MasterRecord) => void;
+}
+
+export const CategoryEditor: React.FC<CategoryEditorProps> = ({ master, onUpdate }) => {
+  const [newName, setNewName] = useState('');
+  const [newParent, setNewParent] = useState('');
+  const [editing, setEditing] = useState<{ id: string, value: string } | null>(null);
+
+  const { categories } = master;
+  const topLevel = categories.filter(c => !c.parentId);
+
+  const salesPerCategory = useMemo(() => {
+    const counts: Record<string, number> = {};
+    master.data.forEach(s => {
+      const key = s.category.trim().toLowerCase();
+      counts[key] = (counts[key] || 0) + 1;
+    });
+    return counts;
+  }, [master.data]);
+
+  const salesIn = (c: Category) => salesPerCategory[c.name.trim().toLowerCase()] || 0;
+
+  const handleAdd = () => {
+    if (!newName.trim()) return;
+    onUpdate(addCategory(master, newName, newParent || undefined));
+    setNewName('');
+  };
+
+  const confirmRename = () => {
+    if (!editing) return;
+    const category = categories.find(c => c.id === editing.id);
+    const clash = categories.find(c => c.id !== editing.id && c.name.toLowerCase() === editing.value.trim().toLowerCase());
+    if (category && (!clash || confirm(`"${clash.name}" already exists. Merge "${category.name}" and its ${salesIn(category)} sales into it?`))) {
+      onUpdate(renameCategory(master, editing.id, editing.value));
+    }
+    setEditing(null);
+  };
+
+  const handleMerge = (source: Category, targetId: string) => {
+    const target = categories.find(c => c.id === targetId);
+    if (target && confirm(`Move ${salesIn(source)} sales from "${source.name}" to "${target.name}" and remove "${source.name}"?`)) {
+      onUpdate(mergeCategories(master, source.id, target.id));
+    }
+  };
+
+  const renderRow = (category: Category, depth: number) => {
+    const hasChildren = childCategories(categories, category.id).length > 0;
+    const count = salesIn(category);
+    return (
+      <div key={category.id} className="flex items-center gap-3 py-3">
+        {depth > 0 && <CornerDownRight className="w-4 h-4 text-slate-300 shrink-0 ml-2" />}
+        <div className="flex-1 overflow-hidden">
+          {editing?.id === category.id ? (
+            <div className="flex items-center gap-2">
+              <input
+                autoFocus
+                value={editing.value}
+                onChange={(e) => setEditing({ ...editing, value: e.target.value })}
+                onKeyDown={(e) => { if (e.key === 'Enter') confirmRename(); if (e.key === 'Escape') setEditing(null); }}
+                className="flex-1 bg-slate-50 border-2 border-slate-100 rounded-lg px-3 py-1 text-sm font-bold"
+              />
+              <button onClick={confirmRename} className="text-emerald-500"><Check className="w-4 h-4" /></button>
+              <button onClick={() => setEditing(null)} className="text-slate-400"><X className="w-4 h-4" /></button>
+            </div>
+          ) : (
+            <button onClick={() => setEditing({ id: category.id, value: category.name })} className="group flex items-center gap-2 text-sm font-bold text-slate-900 text-left">
+              {category.name}
+              <Pencil className="w-3 h-3 text-slate-300 opacity-0 group-hover:opacity-100" />
+            </button>
+          )}
+          <p className="text-[10px] font-bold text-slate-400 uppercase tracking-widest">{count} sales</p>
+        </div>
+        {!hasChildren && (
+          <select
+            value={category.parentId || ''}
+            onChange={(e) => onUpdate(setCategoryParent(master, category.id, e.target.value || undefined))}
+            className="bg-slate-50 border border-slate-100 rounded-lg px-2 py-1 text-[10px] font-bold text-slate-500"
+          >
+            <option value="">Top level</option>
+            {topLevel.filter(c => c.id !== category.id).map(c => <option key={c.id} value={c.id}>Under {c.name}</option>)}
+          </select>
+        )}
+        <select
+          value=""
+          onChange={(e) => handleMerge(category, e.target.value)}
+          className="bg-slate-50 border border-slate-100 rounded-lg px-2 py-1 text-[10px] font-bold text-slate-500"
+        >
+          <option value="">Merge into...</option>
+          {categories.filter(c => c.id !== category.id).map(c => <option key={c.id} value={c.id}>{c.name}</option>)}
+        </select>
+        <button
+          onClick={() => onUpdate(deleteCategory(master, category.id))}
+          disabled={count > 0}
+          title={count > 0 ? 'Merge it into another category instead' : 'Delete category'}
+          className="text-slate-300 hover:text-red-500 disabled:opacity-30 disabled:hover:text-slate-300"
+        >
+          <Trash2 className="w-4 h-4" />
+        </button>
+      </div>
+    );
+  };
+
+  return (
+    <div className="bg-white rounded-[40px] p-8 border border-slate-100 shadow-xl">
+      <h3 className="text-xl font-black mb-2 flex items-center gap-3">
+        <Tags className="w-5 h-5 text-indigo-500" /> Categories
+      </h3>
+      <p className="text-sm text-slate-500 font-medium mb-6">Used when AI fills in missing categories and for the dashboard breakdown. Renaming or merging updates existing sales.</p>
+
+      <div className="divide-y divide-slate-50">
+        {topLevel.map(parent => (
+          <React.Fragment key={parent.id}>
+            {renderRow(parent, 0)}
+            {childCategories(categories, parent.id).map(child => renderRow(child, 1))}
+          </React.Fragment>
+        ))}
+        {categories.length === 0 && <p className="text-xs text-slate-300 font-medium text-center py-10">No categories yet.</p>}
+      </div>
+
+      <div className="mt-6 flex flex-col md:flex-row gap-2">
+        <input
+          value={newName}
+          onChange={(e) => setNewName(e.target.value)}
+          onKeyDown={(e) => { if (e.key === 'Enter') handleAdd(); }}
+          placeholder="New category, e.g. Candles"
+          className="flex-1 bg-slate-50 border-2 border-slate-100 rounded-xl px-4 py-3 text-sm font-bold"
+        />
+        <select value={newParent} onChange={(e) => setNewParent(e.target.value)} className="bg-slate-50 border-2 border-slate-100 rounded-xl px-4 py-3 text-sm font-bold text-slate-500">
+          <option value="">Top level</option>
+          {topLevel.map(c => <option key={c.id} value={c.id}>Under {c.name}</option>)}
+        </select>
+        <button onClick={handleAdd} disabled={!newName.trim()} className="flex items-center justify-center gap-2 px-6 py-3 bg-indigo-600 text-white font-black rounded-xl text-sm disabled:opacity-50">
+          <Plus className="w-4 h-4" /> Add
+        </button>
+      </div>
+    </div>
+  );
+};
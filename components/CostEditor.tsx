@@ -0,0 +1,105 @@
+import React, { useMemo, useState } from 'react';
+import { Coins, Plus, Trash2 } from 'lucide-react';
+import { MasterRecord } from '../types';
+import { CatalogEntry } from '../lib/catalog';
+import { deleteProductCost, setProductCost, unitCost } from '../lib/costs';
+import { formatMoney } from '../lib/currency';
+
+interface CostEditorProps {
+  master: MasterRecord;
+  entries: CatalogEntry[];
+  onUpdate: (master: MasterRecord) => void;
+}
+
+const emptyDraft = { product: '', materialCost: '', laborCost: '', effectiveFrom: '' };
+
+export const CostEditor: React.FC<CostEditorProps> = ({ master, entries, onUpdate }) => {
+  const [draft, setDraft] = useState(emptyDraft);
+  const [error, setError] = useState<string | null>(null);
+  const money = (value: number) => formatMoney(value, master.reportingCurrency, true);
+
+  const rows = useMemo(() => {
+    const names = new Map(master.products.map(p => [p.id, p.name]));
+    return master.costs
+      .map(cost => ({ cost, product: names.get(cost.productId) || 'Removed product' }))
+      .sort((a, b) => a.product.localeCompare(b.product) || (a.cost.effectiveFrom || '').localeCompare(b.cost.effectiveFrom || ''));
+  }, [master.costs, master.products]);
+
+  const handleSave = () => {
+    const material = Number(draft.materialCost || 0);
+    const labor = Number(draft.laborCost || 0);
+    if (!draft.product.trim()) return setError('Choose a product.');
+    if (!isFinite(material) || !isFinite(labor) || material < 0 || labor < 0) return setError('Costs must be zero or more.');
+    if (!draft.materialCost && !draft.laborCost) return setError('Enter a material or labor cost.');
+    const match = entries.find(e => e.name.toLowerCase() === draft.product.trim().toLowerCase());
+    onUpdate(setProductCost(master, match?.name || draft.product, {
+      materialCost: material,
+      laborCost: labor,
+      effectiveFrom: draft.effectiveFrom || undefined
+    }));
+    setDraft(emptyDraft);
+    setError(null);
+  };
+
+  return (
+    <div className="bg-white rounded-[40px] p-8 border border-slate-100 shadow-xl">
+      <h3 className="text-xl font-black mb-2 flex items-center gap-3">
+        <Coins className="w-5 h-5 text-emerald-500" /> Product Costs
+      </h3>
+      <p className="text-sm text-slate-500 font-medium mb-6">Per-unit material and labor costs, in the reporting currency, used for profit and margin. Add a dated entry when a cost changes; earlier sales keep the old cost. A cost column in an import takes precedence.</p>
+
+      <datalist id="cost-products">
+        {entries.map(e => <option key={e.name} value={e.name} />)}
+      </datalist>
+
+      <table className="w-full text-sm text-left">
+        <thead className="text-slate-400 font-black uppercase text-[10px] tracking-wider">
+          <tr>
+            <th className="py-2">Product</th>
+            <th className="py-2">From</th>
+            <th className="py-2 text-right">Material</th>
+            <th className="py-2 text-right">Labor</th>
+            <th className="py-2 text-right">Per Unit</th>
+            <th className="py-2"></th>
+          </tr>
+        </thead>
+        <tbody className="divide-y divide-slate-50">
+          {rows.map(({ cost, product }) => (
+            <tr key={cost.id}>
+              <td className="py-2 font-bold text-slate-900">{product}</td>
+              <td className="py-2 text-slate-500">{cost.effectiveFrom || 'Always'}</td>
+              <td className="py-2 text-right text-slate-500">{money(cost.materialCost)}</td>
+              <td className="py-2 text-right text-slate-500">{money(cost.laborCost)}</td>
+              <td className="py-2 text-right font-bold text-slate-900">{money(unitCost(cost))}</td>
+              <td className="py-2 text-right">
+                <button onClick={() => onUpdate(deleteProductCost(master, cost.id))} title="Delete cost" className="text-slate-300 hover:text-red-500">
+                  <Trash2 className="w-4 h-4" />
+                </button>
+              </td>
+            </tr>
+          ))}
+          {rows.length === 0 && (
+            <tr><td colSpan={6} className="py-10 text-center text-xs text-slate-300 font-medium">No costs yet.</td></tr>
+          )}
+        </tbody>
+      </table>
+
+      <div className="mt-6 flex flex-col md:flex-row gap-2">
+        <input
+          list="cost-products"
+          value={draft.product}
+          onChange={(e) => setDraft({ ...draft, product: e.target.value })}
+          placeholder="Product"
+          className="flex-1 bg-slate-50 border-2 border-slate-100 rounded-xl px-4 py-3 text-sm font-bold"
+        />
+        <input type="number" min={0} step="0.01" value={draft.materialCost} onChange={(e) => setDraft({ ...draft, materialCost: e.target.value })} placeholder="Material" className="md:w-28 bg-slate-50 border-2 border-slate-100 rounded-xl px-4 py-3 text-sm font-bold" />
+        <input type="number" min={0} step="0.01" value={draft.laborCost} onChange={(e) => setDraft({ ...draft, laborCost: e.target.value })} placeholder="Labor" className="md:w-28 bg-slate-50 border-2 border-slate-100 rounded-xl px-4 py-3 text-sm font-bold" />
+        <input type="date" value={draft.effectiveFrom} onChange={(e) => setDraft({ ...draft, effectiveFrom: e.target.value })} title="Effective from (optional)" className="bg-slate-50 border-2 border-slate-100 rounded-xl px-4 py-3 text-sm font-bold text-slate-500" />
+        <button onClick={handleSave} className="flex items-center justify-center gap-2 px-6 py-3 bg-indigo-600 text-white font-black rounded-xl text-sm">
+          <Plus className="w-4 h-4" /> Save
+        </button>
+      </div>
+      {error && <p className="mt-2 text-xs font-bold text-red-500">{error}</p>}
+    </div>
+  );
+};
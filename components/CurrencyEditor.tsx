@@ -0,0 +1,125 @@
+import React, { useMemo, useState } from 'react';
+import { Banknote, Plus, Trash2, AlertCircle } from 'lucide-react';
+import { MasterRecord } from '../types';
+import {
+  COMMON_CURRENCIES, currenciesInUse, deleteExchangeRate, normalizeCurrency, setExchangeRate, setReportingCurrency
+} from '../lib/currency';
+
+interface CurrencyEditorProps {
+  master: MasterRecord;
+  onUpdate: (master: MasterRecord) => void;
+}
+
+const emptyDraft = { currency: '', rate: '', effectiveFrom: '' };
+
+export const CurrencyEditor: React.FC<CurrencyEditorProps> = ({ master, onUpdate }) => {
+  const [draft, setDraft] = useState(emptyDraft);
+  const [error, setError] = useState<string | null>(null);
+
+  const { reportingCurrency, exchangeRates } = master;
+  const inUse = useMemo(() => currenciesInUse(master), [master.data, reportingCurrency]);
+  const missing = inUse.filter(c => !exchangeRates.some(r => r.currency === c));
+  const rows = useMemo(
+    () => [...exchangeRates].sort((a, b) => a.currency.localeCompare(b.currency) || a.effectiveFrom.localeCompare(b.effectiveFrom)),
+    [exchangeRates]
+  );
+
+  const handleReportingChange = (currency: string) => {
+    if (currency === reportingCurrency) return;
+    const warning = exchangeRates.length
+      ? ` The ${exchangeRates.length} exchange rates are quoted in ${reportingCurrency} and will be removed.`
+      : '';
+    if (window.confirm(`Show every figure in ${currency}? Product costs are not converted and should be re-entered in ${currency}.${warning}`)) {
+      onUpdate(setReportingCurrency(master, currency));
+    }
+  };
+
+  const handleSave = () => {
+    const currency = normalizeCurrency(draft.currency);
+    const rate = Number(draft.rate);
+    if (!currency) return setError('Enter a three-letter currency code, e.g. EUR.');
+    if (currency === reportingCurrency) return setError(`${currency} is the reporting currency.`);
+    if (!draft.rate || !isFinite(rate) || rate <= 0) return setError('The rate must be more than zero.');
+    if (!draft.effectiveFrom) return setError('Choose the date the rate applies from.');
+    onUpdate(setExchangeRate(master, { currency, rate, effectiveFrom: draft.effectiveFrom }));
+    setDraft(emptyDraft);
+    setError(null);
+  };
+
+  return (
+    <div className="bg-white rounded-[40px] p-8 border border-slate-100 shadow-xl">
+      <div className="flex flex-col md:flex-row md:items-start justify-between gap-4 mb-6">
+        <div>
+          <h3 className="text-xl font-black mb-2 flex items-center gap-3">
+            <Banknote className="w-5 h-5 text-emerald-500" /> Currencies
+          </h3>
+          <p className="text-sm text-slate-500 font-medium">Sales in other currencies are converted with the latest rate on or before their date. Sales older than every rate use the earliest one.</p>
+        </div>
+        <label className="flex items-center gap-2 shrink-0">
+          <span className="text-[10px] font-black text-slate-400 uppercase tracking-widest">Report in</span>
+          <select
+            value={reportingCurrency}
+            onChange={(e) => handleReportingChange(e.target.value)}
+            className="bg-slate-50 border-2 border-slate-100 rounded-xl px-4 py-2 text-sm font-bold"
+          >
+            {[...new Set([reportingCurrency, ...COMMON_CURRENCIES])].map(c => <option key={c} value={c}>{c}</option>)}
+          </select>
+        </label>
+      </div>
+
+      {missing.length > 0 && (
+        <p className="mb-4 flex items-center gap-2 text-xs font-bold text-amber-600 bg-amber-50 px-4 py-3 rounded-xl">
+          <AlertCircle className="w-4 h-4 shrink-0" /> No rate for {missing.join(', ')}. Those sales are counted unconverted until you add one.
+        </p>
+      )}
+
+      <datalist id="rate-currencies">
+        {[...new Set([...inUse, ...COMMON_CURRENCIES])].filter(c => c !== reportingCurrency).map(c => <option key={c} value={c} />)}
+      </datalist>
+
+      <table className="w-full text-sm text-left">
+        <thead className="text-slate-400 font-black uppercase text-[10px] tracking-wider">
+          <tr>
+            <th className="py-2">Currency</th>
+            <th className="py-2">From</th>
+            <th className="py-2 text-right">Rate</th>
+            <th className="py-2"></th>
+          </tr>
+        </thead>
+        <tbody className="divide-y divide-slate-50">
+          {rows.map(rate => (
+            <tr key={rate.id}>
+              <td className="py-2 font-bold text-slate-900">{rate.currency}</td>
+              <td className="py-2 text-slate-500">{rate.effectiveFrom}</td>
+              <td className="py-2 text-right font-bold text-slate-900">1 {rate.currency} = {rate.rate} {reportingCurrency}</td>
+              <td className="py-2 text-right">
+                <button onClick={() => onUpdate(deleteExchangeRate(master, rate.id))} title="Delete rate" className="text-slate-300 hover:text-red-500">
+                  <Trash2 className="w-4 h-4" />
+                </button>
+              </td>
+            </tr>
+          ))}
+          {rows.length === 0 && (
+            <tr><td colSpan={4} className="py-10 text-center text-xs text-slate-300 font-medium">No exchange rates yet.</td></tr>
+          )}
+        </tbody>
+      </table>
+
+      <div className="mt-6 flex flex-col md:flex-row gap-2">
+        <input
+          list="rate-currencies"
+          value={draft.currency}
+          onChange={(e) => setDraft({ ...draft, currency: e.target.value })}
+          placeholder="Currency"
+          className="md:w-32 bg-slate-50 border-2 border-slate-100 rounded-xl px-4 py-3 text-sm font-bold uppercase"
+        />
+        <input type="number" min={0} step="any" value={draft.rate} onChange={(e) => setDraft({ ...draft, rate: e.target.value })} placeholder={`${reportingCurrency} per unit`} className="flex-1 bg-slate-50 border-2 border-slate-100 rounded-xl px-4 py-3 text-sm font-bold" />
+        <input type="date" value={draft.effectiveFrom} onChange={(e) => setDraft({ ...draft, effectiveFrom: e.target.value })} title="Effective from" className="bg-slate-50 border-2 border-slate-100 rounded-xl px-4 py-3 text-sm font-bold text-slate-500" />
+        <button onClick={handleSave} className="flex items-center justify-center gap-2 px-6 py-3 bg-indigo-600 text-white font-black rounded-xl text-sm">
+          <Plus className="w-4 h-4" /> Save
+        </button>
+      </div>
+      {error && <p className="mt-2 text-xs font-bold text-red-500">{error}</p>}
+    </div>
+  );
+};
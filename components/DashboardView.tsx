@@ -1,26 +1,42 @@
-import React, { useState, useEffect, useMemo, useRef } from 'react';
+import React, { useState, useEffect, useMemo } from 'react';
 import { 
   XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, 
-  AreaChart, Area, BarChart, Bar, PieChart, Pie, Cell
+  ComposedChart, Area, Line, BarChart, Bar, PieChart, Pie, Cell
 } from 'recharts';
 import { 
   TrendingUp, BrainCircuit, Loader2, Download, Trash2, 
-  CalendarDays, Calendar
+  CalendarDays, Calendar, ArrowUpRight, ArrowDownRight, Minus, MapPin, X, AlertCircle
 } from 'lucide-react';
-import { MasterRecord } from '../types';
-import jsPDF from 'jspdf';
-import html2canvas from 'html2canvas';
+import { Category, MasterRecord, SaleRecord } from '../types';
+import { AiProvider } from '../lib/ai';
+import { buildProductIndex, canonicalProductName } from '../lib/catalog';
+import { topLevelCategoryName } from '../lib/categories';
+import {
+  COMPARISON_LABELS, ComparisonMode, Granularity, TimeRange, addDays, autoGranularity, comparisonRange, filterByRange, percentChange, resolveRange
+} from '../lib/periods';
+import { MOVING_AVERAGE_WINDOWS, appendForecast, buildRevenueTrend } from '../lib/trend';
+import { FORECAST_WEEKS, bucketForecast, forecastSales, forecastTotal } from '../lib/forecast';
+import { RegionLevel, regionOf, regionTotals } from '../lib/regions';
+import { RegionPanel } from './RegionPanel';
+import { costResolver, profitSummary } from '../lib/costs';
+import { ProfitPanel } from './ProfitPanel';
+import { isAdjustment, isRefund, ledgerTotals, netSales, unitsSold } from '../lib/ledger';
+import { LedgerPanel } from './LedgerPanel';
+import { convertSales, formatMoney } from '../lib/currency';
+import { buildPdfReport } from '../lib/report';
+import { storedSales } from '../lib/exporter';
+import { ExportMenu } from './ExportMenu';
 
 interface DashboardViewProps {
   master: MasterRecord;
   onSaveAnalysis: (insight: string) => void;
+  onResetRecords: () => void;
+  ai: AiProvider;
 }
 
-type TimeRange = 'all' | '7d' | '30d' | 'custom';
-
 const COLORS = ['#6366f1', '#f97316', '#059669', '#8b5cf6', '#ec4899', '#f59e0b'];
 
-const CustomDayTooltip = ({ active, payload, label }: any) => {
+const CustomDayTooltip = ({ active, payload, label, currency }: any) => {
   if (active && payload && payload.length) {
     const data = payload[0].payload;
     return (
@@ -33,7 +49,7 @@ const CustomDayTooltip = ({ active, payload, label }: any) => {
            </div>
            <div className="flex justify-between gap-4 text-xs font-medium">
              <span className="text-slate-400">Revenue:</span>
-             <span className="text-white font-bold">${data.revenue.toLocaleString()}</span>
+             <span className="text-white font-bold">{formatMoney(data.revenue, currency)}</span>
            </div>
         </div>
       </div>
@@ -42,111 +58,205 @@ const CustomDayTooltip = ({ active, payload, label }: any) => {
   return null;
 };
 
-const CustomRevenueTooltip = ({ active, payload, label }: any) => {
-  if (active && payload && payload.length && payload[0].value !== undefined) {
+const CustomRevenueTooltip = ({ active, payload, label, movingAverage, showCumulative, currency }: any) => {
+  if (active && payload && payload.length) {
+    const data = payload[0].payload;
+    const row = (name: string, value: number) => (
+      <div className="flex justify-between gap-4 text-xs font-medium mt-1">
+           <span className="text-slate-400">{name}:</span>
+           <span className="text-slate-300 font-bold">{formatMoney(value, currency)}</span>
+      </div>
+    );
     return (
       <div className="bg-slate-900 text-white p-4 rounded-2xl shadow-2xl border border-slate-800 animate-in zoom-in duration-200 min-w-[140px]">
         <p className="text-[10px] font-black text-orange-400 uppercase tracking-widest mb-2">{label}</p>
-        <div className="flex justify-between gap-4 text-xs font-medium">
-             <span className="text-slate-400">Revenue:</span>
-             <span className="text-white font-bold text-lg">${payload[0].value.toLocaleString()}</span>
-        </div>
+        {data.revenue !== undefined && (
+          <div className="flex justify-between gap-4 text-xs font-medium">
+               <span className="text-slate-400">Revenue:</span>
+               <span className="text-white font-bold text-lg">{formatMoney(data.revenue, currency)}</span>
+          </div>
+        )}
+        {data.previousDate && row(`From ${data.previousDate}`, data.previousRevenue)}
+        {movingAverage > 0 && data.movingAverage !== undefined && row(`${movingAverage}-period avg`, data.movingAverage)}
+        {showCumulative && data.cumulative !== undefined && row('Cumulative', data.cumulative)}
+        {data.forecastUnits !== undefined && (
+          <>
+            {row('Forecast', data.forecast)}
+            <p className="text-[10px] text-slate-500 mt-1">
+              {formatMoney(data.forecastBand[0], currency)} – {formatMoney(data.forecastBand[1], currency)} · ~{data.forecastUnits} units
+            </p>
+          </>
+        )}
       </div>
     );
   }
   return null;
 };
 
-export const DashboardView: React.FC<DashboardViewProps> = ({ master, onSaveAnalysis }) => {
+const GRANULARITY_OPTIONS: (Granularity | 'auto')[] = ['auto', 'day', 'week', 'month', 'quarter'];
+
+const chipClass = (active: boolean) =>
+  `px-3 py-1 rounded-lg font-black text-[9px] uppercase tracking-wider transition-all ${active ? 'bg-orange-500 text-white' : 'bg-slate-50 text-slate-400'}`;
+
+const DeltaBadge = ({ current, previous, label, currency }: { current: number, previous: number, label: string, currency?: string }) => {
+  const change = percentChange(current, previous);
+  const diff = current - previous;
+  const tone = diff > 0 ? 'text-emerald-600 bg-emerald-50' : diff < 0 ? 'text-red-500 bg-red-50' : 'text-slate-400 bg-slate-50';
+  const Icon = diff > 0 ? ArrowUpRight : diff < 0 ? ArrowDownRight : Minus;
+  return (
+    <div className="mt-2 flex items-center gap-2 text-[10px] font-bold">
+      <span className={`inline-flex items-center gap-1 px-2 py-0.5 rounded-full ${tone}`}>
+        <Icon className="w-3 h-3" />
+        {change === null ? 'new' : `${change > 0 ? '+' : ''}${change.toFixed(1)}%`}
+      </span>
+      <span className="text-slate-400">{diff >= 0 ? '+' : '-'}{currency ? formatMoney(Math.abs(diff), currency) : Math.abs(diff).toLocaleString(undefined, { maximumFractionDigits: 2 })} vs {label}</span>
+    </div>
+  );
+};
+
+const computeStats = (data: SaleRecord[], productIndex: Map<string, string>, categories: Category[]) => {
+  const totalRevenue = data.reduce((acc, s) => acc + netSales(s), 0);
+  const totalItems = data.reduce((acc, s) => acc + unitsSold(s), 0);
+
+  const productMap: Record<string, { count: number, revenue: number }> = {};
+  const categoryMap: Record<string, number> = {};
+
+  data.forEach(s => {
+    const prodName = canonicalProductName(productIndex, s.product);
+    const catName = topLevelCategoryName(categories, s.category || "General");
+
+    if (!productMap[prodName]) productMap[prodName] = { count: 0, revenue: 0 };
+    productMap[prodName].count += unitsSold(s);
+    productMap[prodName].revenue += netSales(s);
+
+    categoryMap[catName] = (categoryMap[catName] || 0) + netSales(s);
+  });
+
+  const categoryData = Object.entries(categoryMap)
+    .map(([name, value]) => ({ name, value }))
+    .sort((a, b) => b.value - a.value);
+
+  const sortedProducts = Object.entries(productMap)
+    .map(([name, data]) => ({ name, ...data }))
+    .sort((a, b) => b.count - a.count);
+
+  const topProduct = sortedProducts.length > 0 ? sortedProducts[0] : null;
+
+  return { totalRevenue, totalItems, topProduct, sortedProducts, categoryData, productMap };
+};
+
+export const DashboardView: React.FC<DashboardViewProps> = ({ master, onSaveAnalysis, onResetRecords, ai }) => {
   const [strategy, setStrategy] = useState<string | null>(master.lastStrategicInsight || null);
   const [lastAnalyzedRange, setLastAnalyzedRange] = useState<TimeRange | null>(null);
   const [isAiLoading, setIsAiLoading] = useState(false);
   const [isExporting, setIsExporting] = useState(false);
   const [timeRange, setTimeRange] = useState<TimeRange>('all');
+  const [comparison, setComparison] = useState<ComparisonMode>('none');
+  const [granularity, setGranularity] = useState<Granularity | 'auto'>('auto');
+  const [movingAverage, setMovingAverage] = useState(0);
+  const [showCumulative, setShowCumulative] = useState(false);
+  const [forecastWeeks, setForecastWeeks] = useState(0);
+  const [regionLevel, setRegionLevel] = useState<RegionLevel>('state');
+  const [regionFilter, setRegionFilter] = useState<string | null>(null);
   
   const [customStart, setCustomStart] = useState<string>('');
   const [customEnd, setCustomEnd] = useState<string>('');
-  
-  const dashboardRef = useRef<HTMLDivElement>(null);
 
-  const filteredData = useMemo(() => {
-    if (timeRange === 'all') return master.data;
+  const currency = master.reportingCurrency;
+  // Every figure below is in the reporting currency
+  const { sales, missingRates } = useMemo(
+    () => convertSales(master.data, currency, master.exchangeRates),
+    [master.data, currency, master.exchangeRates]
+  );
 
-    const now = new Date();
-    now.setHours(23, 59, 59, 999);
+  const range = useMemo(
+    () => resolveRange(timeRange, sales, { start: customStart, end: customEnd }),
+    [timeRange, sales, customStart, customEnd]
+  );
 
-    let cutoff: Date | null = null;
-    let startDateStr = '';
-    let endDateStr = '';
+  // Full History has nothing before it to compare with
+  const activeComparison: ComparisonMode = timeRange === 'all' || !range ? 'none' : comparison;
+  const previousRange = useMemo(
+    () => (range ? comparisonRange(range, activeComparison) : null),
+    [range, activeComparison]
+  );
 
-    if (timeRange === '7d') { 
-        cutoff = new Date(now); 
-        cutoff.setDate(now.getDate() - 7); 
-    }
-    else if (timeRange === '30d') { 
-        cutoff = new Date(now); 
-        cutoff.setDate(now.getDate() - 30); 
-    }
-    else if (timeRange === 'custom') {
-        if (!customStart || !customEnd) return master.data;
-        startDateStr = customStart;
-        endDateStr = customEnd;
-    }
+  // Everything below the region panel follows the selected region; the panel itself does not
+  const regionData = useMemo(
+    () => (regionFilter ? sales.filter(s => regionOf(s, regionLevel) === regionFilter) : sales),
+    [sales, regionFilter, regionLevel]
+  );
 
-    return master.data.filter(s => {
-      if (!s.date) return false;
-      if (timeRange === 'custom') {
-          return s.date >= startDateStr && s.date <= endDateStr;
-      }
-      const recordDate = new Date(s.date);
-      return !isNaN(recordDate.getTime()) && recordDate >= cutoff!;
-    });
-  }, [master.data, timeRange, customStart, customEnd]);
+  const rangeData = useMemo(
+    () => (timeRange === 'all' ? sales : filterByRange(sales, range)),
+    [sales, timeRange, range]
+  );
 
-  const stats = useMemo(() => {
-    const totalRevenue = filteredData.reduce((acc, s) => acc + s.amount, 0);
-    const totalItems = filteredData.reduce((acc, s) => acc + s.quantity, 0);
-    
-    const productMap: Record<string, { count: number, revenue: number }> = {};
-    const categoryMap: Record<string, number> = {};
+  const regions = useMemo(() => regionTotals(rangeData, regionLevel), [rangeData, regionLevel]);
 
-    filteredData.forEach(s => {
-      const prodName = s.product || "Unknown";
-      const catName = s.category || "General";
-
-      if (!productMap[prodName]) productMap[prodName] = { count: 0, revenue: 0 };
-      productMap[prodName].count += s.quantity;
-      productMap[prodName].revenue += s.amount;
-      
-      categoryMap[catName] = (categoryMap[catName] || 0) + s.amount;
-    });
+  const filteredData = useMemo(
+    () => (timeRange === 'all' ? regionData : filterByRange(regionData, range)),
+    [regionData, timeRange, range]
+  );
 
-    const categoryData = Object.entries(categoryMap)
-      .map(([name, value]) => ({ name, value }))
-      .sort((a, b) => b.value - a.value);
+  // Exports list each sale in its own currency, so they start from the stored records
+  const viewRecords = useMemo(() => storedSales(master, filteredData), [master, filteredData]);
 
-    const sortedProducts = Object.entries(productMap)
-      .map(([name, data]) => ({ name, ...data }))
-      .sort((a, b) => b.count - a.count);
+  const previousData = useMemo(
+    () => (previousRange ? filterByRange(regionData, previousRange) : []),
+    [regionData, previousRange]
+  );
+
+  const productIndex = useMemo(() => buildProductIndex(master.products), [master.products]);
 
-    const topProduct = sortedProducts.length > 0 ? sortedProducts[0] : null;
+  const stats = useMemo(
+    () => computeStats(filteredData, productIndex, master.categories),
+    [filteredData, productIndex, master.categories]
+  );
 
-    return { totalRevenue, totalItems, topProduct, sortedProducts, categoryData };
+  const previousStats = useMemo(
+    () => (previousRange ? computeStats(previousData, productIndex, master.categories) : null),
+    [previousData, previousRange, productIndex, master.categories]
+  );
+
+  const resolveCost = useMemo(() => costResolver(master.products, master.costs), [master.products, master.costs]);
+  const profit = useMemo(
+    () => profitSummary(filteredData, resolveCost, productIndex, master.categories),
+    [filteredData, resolveCost, productIndex, master.categories]
+  );
+
+  const ledger = useMemo(() => ledgerTotals(filteredData), [filteredData]);
+  const refundLinks = useMemo(() => {
+    const refundLines = filteredData.filter(s => isAdjustment(s) && isRefund(s));
+    const linked = refundLines.filter(s => s.refundFor).length;
+    return { linked, unlinked: refundLines.length - linked };
   }, [filteredData]);
 
+  const comparisonLabel = activeComparison === 'none' ? '' : COMPARISON_LABELS[activeComparison];
+
+  // An unfinished custom range shows everything, so the trend spans the data too
+  const trendRange = useMemo(() => range || resolveRange('all', filteredData), [range, filteredData]);
+  const activeGranularity: Granularity = granularity === 'auto' ? (trendRange ? autoGranularity(trendRange) : 'day') : granularity;
+
+  // Forecasting only makes sense when the chart runs up to the latest sale
+  const historyEnd = useMemo(() => resolveRange('all', regionData)?.end, [regionData]);
+  const canForecast = !!trendRange && !!historyEnd && trendRange.end >= historyEnd;
+
+  const forecast = useMemo(
+    () => (canForecast && forecastWeeks ? forecastSales(regionData, forecastWeeks, addDays(trendRange!.end, 1)) : null),
+    [regionData, canForecast, forecastWeeks, trendRange]
+  );
+  const forecastSummary = useMemo(() => (forecast ? forecastTotal(forecast) : null), [forecast]);
+
   const revenueTrend = useMemo(() => {
-    type DailyTrendItem = { revenue: number, items: {name: string, qty: number}[] };
-    const daily = filteredData.reduce<Record<string, DailyTrendItem>>((acc, s) => {
-      if (!s.date) return acc;
-      if (!acc[s.date]) acc[s.date] = { revenue: 0, items: [] };
-      acc[s.date].revenue += s.amount;
-      return acc;
-    }, {} as Record<string, DailyTrendItem>);
-    
-    return Object.entries(daily)
-      .map(([date, data]) => ({ date, revenue: data.revenue }))
-      .sort((a, b) => a.date.localeCompare(b.date));
-  }, [filteredData]);
+    if (!trendRange) return [];
+    const points = buildRevenueTrend(filteredData, trendRange, {
+      granularity: activeGranularity,
+      movingAverage,
+      previous: previousRange ? { data: previousData, mode: activeComparison } : undefined
+    });
+    return forecast ? appendForecast(points, bucketForecast(forecast, activeGranularity), activeGranularity, trendRange.start) : points;
+  }, [filteredData, previousData, trendRange, previousRange, activeComparison, activeGranularity, movingAverage, forecast]);
 
   const busiestDays = useMemo(() => {
     const days = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
@@ -161,8 +271,8 @@ export const DashboardView: React.FC<DashboardViewProps> = ({ master, onSaveAnal
       if (isNaN(localDate.getTime())) return;
       const dayIndex = localDate.getDay();
       if (dayIndex >= 0 && dayIndex < 7) {
-        dayStats[dayIndex].quantity += s.quantity;
-        dayStats[dayIndex].revenue += s.amount;
+        dayStats[dayIndex].quantity += unitsSold(s);
+        dayStats[dayIndex].revenue += netSales(s);
       }
     });
 
@@ -173,7 +283,7 @@ export const DashboardView: React.FC<DashboardViewProps> = ({ master, onSaveAnal
     }));
   }, [filteredData]);
 
-  // --- AI ANALYSIS (DIRECT FETCH) ---
+  // --- AI ANALYSIS ---
   const getStrategicAnalysis = async (force = false) => {
     if (filteredData.length === 0) return;
     
@@ -183,47 +293,18 @@ export const DashboardView: React.FC<DashboardViewProps> = ({ master, onSaveAnal
 
     setIsAiLoading(true);
     try {
-      const apiKey = import.meta.env.VITE_GEMINI_API_KEY;
-      if (!apiKey) {
-        if (window.aistudio?.openSelectKey) await window.aistudio.openSelectKey();
-        setIsAiLoading(false);
-        return;
-      }
-
-      const summary = { 
+      const insight = await ai.strategyInsights({ 
         totalRecords: filteredData.length, 
         totalRevenue: stats.totalRevenue, 
+        currency,
         topProduct: stats.topProduct?.name, 
         timeSpanLabel: timeRange 
-      };
-
-      const url = `https://generativelanguage.googleapis.com/v1beta/models/gemini-1.5-flash:generateContent?key=${apiKey}`;
-      const response = await fetch(url, {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({
-          contents: [{
-            parts: [{
-              text: `Analyze this data: ${JSON.stringify(summary)}. 
-              Return a JSON object with these 4 keys (strings):
-              "drive": A 5-word motivational phrase.
-              "win": The best performing aspect.
-              "risk": A missing opportunity or risk.
-              "action": One specific tactic to increase sales.`
-            }]
-          }],
-          generationConfig: { responseMimeType: "application/json" }
-        })
       });
 
-      if (!response.ok) throw new Error(`Gemini API Error: ${response.statusText}`);
-      const data = await response.json();
-      const rawText = data.candidates?.[0]?.content?.parts?.[0]?.text || "{}";
-      
-      const cleanJson = rawText.replace(/```json/g, '').replace(/```/g, '').trim();
-      setStrategy(cleanJson);
+      const insightJson = JSON.stringify(insight);
+      setStrategy(insightJson);
       setLastAnalyzedRange(timeRange);
-      onSaveAnalysis(cleanJson);
+      onSaveAnalysis(insightJson);
     } catch (err: any) {
       console.error("Analysis failed:", err);
     } finally { setIsAiLoading(false); }
@@ -274,36 +355,56 @@ export const DashboardView: React.FC<DashboardViewProps> = ({ master, onSaveAnal
   }
 
   const handleExportPdf = async () => {
-    if (!dashboardRef.current) return;
     setIsExporting(true);
-    const exportElements = document.querySelectorAll('.no-export');
-    exportElements.forEach(el => (el as HTMLElement).style.display = 'none');
+    // Let the spinner paint before the report is drawn
+    await new Promise(resolve => setTimeout(resolve, 0));
     try {
-      const canvas = await html2canvas(dashboardRef.current, { scale: 2, useCORS: true, backgroundColor: '#f8fafc' });
-      const imgData = canvas.toDataURL('image/png');
-      const pdf = new jsPDF('p', 'mm', 'a4');
-      const pdfWidth = pdf.internal.pageSize.getWidth();
-      const pdfHeight = (canvas.height * pdfWidth) / canvas.width;
-      pdf.addImage(imgData, 'PNG', 0, 0, pdfWidth, pdfHeight);
-      pdf.save(`Sales-Dashboard-${master.name}.pdf`);
-    } catch (err) { console.error("Export failed:", err); } 
-    finally { exportElements.forEach(el => (el as HTMLElement).style.display = ''); setIsExporting(false); }
+      const totalsOf = (data: SaleRecord[], s: ReturnType<typeof computeStats>) => ({
+        revenue: s.totalRevenue,
+        units: s.totalItems,
+        sales: data.filter(sale => !isAdjustment(sale)).length
+      });
+      const period = range ? `${range.start} to ${range.end}` : 'No sales yet';
+      const pdf = buildPdfReport({
+        title: master.name,
+        period: timeRange === 'all' ? `Full history${range ? ` (${period})` : ''}` : period,
+        filters: regionFilter ? [`Region: ${regionFilter}`] : [],
+        currency,
+        generatedAt: new Date(),
+        totals: totalsOf(filteredData, stats),
+        previous: previousStats ? { label: comparisonLabel, totals: totalsOf(previousData, previousStats) } : null,
+        ledger,
+        profit,
+        trend: revenueTrend,
+        categories: stats.categoryData,
+        weekdays: busiestDays,
+        products: stats.sortedProducts,
+        insights: strategy && filteredData.length ? { drive: driveText, cards: insightCards } : null
+      });
+      pdf.save(`Sales-Report-${master.name}.pdf`);
+    } catch (err) { console.error("Export failed:", err); }
+    finally { setIsExporting(false); }
   };
 
-  const clearData = () => { if (confirm("Delete history?")) { localStorage.removeItem('maker_master_record'); window.location.reload(); } };
+  const clearData = () => { if (confirm("Delete history?")) onResetRecords(); };
 
   return (
-    <div className="space-y-8 pb-24" ref={dashboardRef}>
+    <div className="space-y-8 pb-24">
       <header className="flex flex-col md:flex-row justify-between items-start md:items-center gap-6">
         <div>
           <h1 className="text-4xl font-black text-slate-900 tracking-tight">Dashboard</h1>
-          <p className="text-slate-500 font-medium">Daily business metrics powered by Gemini Flash.</p>
+          <p className="text-slate-500 font-medium">Daily business metrics powered by {ai.name}.</p>
         </div>
-        <div className="flex items-center gap-3 w-full md:w-auto no-export">
+        <div className="flex items-center gap-3 w-full md:w-auto">
           <button onClick={handleExportPdf} disabled={isExporting} className="flex-1 md:flex-none flex items-center justify-center gap-2 px-6 py-3 bg-[#059669] text-white rounded-2xl font-bold shadow-lg shadow-emerald-100 text-sm">
             {isExporting ? <Loader2 className="w-4 h-4 animate-spin" /> : <Download className="w-4 h-4" />}
             PDF Report
           </button>
+          <ExportMenu
+            master={master}
+            scopes={[{ label: 'Current view', sales: viewRecords }, { label: 'All records', sales: master.data }]}
+            className="flex-1 md:flex-none"
+          />
           <button onClick={() => getStrategicAnalysis(true)} disabled={isAiLoading || filteredData.length === 0} className="flex-1 md:flex-none flex items-center justify-center gap-2 px-6 py-3 bg-slate-900 text-white rounded-2xl font-bold hover:bg-indigo-600 transition-all text-sm">
             {isAiLoading ? <Loader2 className="w-4 h-4 animate-spin" /> : <BrainCircuit className="w-4 h-4" />}
             Analyze
@@ -311,7 +412,7 @@ export const DashboardView: React.FC<DashboardViewProps> = ({ master, onSaveAnal
         </div>
       </header>
 
-      <div className="bg-white rounded-[32px] p-3 border border-slate-100 shadow-sm flex flex-col md:flex-row items-center gap-4 no-export">
+      <div className="bg-white rounded-[32px] p-3 border border-slate-100 shadow-sm flex flex-col md:flex-row items-center gap-4">
          <div className="flex gap-2">
             {(['all', '7d', '30d', 'custom'] as TimeRange[]).map((r) => (
               <button key={r} onClick={() => setTimeRange(r)} className={`px-5 py-2 rounded-xl font-black text-[10px] uppercase tracking-wider transition-all ${timeRange === r ? 'bg-indigo-600 text-white shadow-lg' : 'bg-slate-50 text-slate-400'}`}>
@@ -332,10 +433,35 @@ export const DashboardView: React.FC<DashboardViewProps> = ({ master, onSaveAnal
               </div>
            </div>
          )}
+         {regionFilter && (
+           <button onClick={() => setRegionFilter(null)} title="Show all regions" className="flex items-center gap-2 px-4 py-2 rounded-xl bg-indigo-50 text-indigo-600 font-black text-[10px] uppercase tracking-wider">
+             <MapPin className="w-3 h-3" /> {regionFilter} <X className="w-3 h-3" />
+           </button>
+         )}
+         <div className="flex items-center gap-2 md:ml-auto">
+            <span className="text-[10px] font-black text-slate-300 uppercase tracking-widest">Compare</span>
+            {(['none', 'previous', 'yoy'] as ComparisonMode[]).map((mode) => (
+              <button
+                key={mode}
+                onClick={() => setComparison(mode)}
+                disabled={timeRange === 'all' && mode !== 'none'}
+                title={timeRange === 'all' && mode !== 'none' ? 'Pick a date range to compare' : undefined}
+                className={`px-4 py-2 rounded-xl font-black text-[10px] uppercase tracking-wider transition-all disabled:opacity-40 ${activeComparison === mode ? 'bg-slate-900 text-white shadow-lg' : 'bg-slate-50 text-slate-400'}`}
+              >
+                {mode === 'none' ? 'Off' : mode === 'previous' ? 'Prev. Period' : 'Last Year'}
+              </button>
+            ))}
+         </div>
       </div>
 
+      {missingRates.length > 0 && (
+        <p className="flex items-center gap-2 text-xs font-bold text-amber-600 bg-amber-50 px-4 py-3 rounded-2xl">
+          <AlertCircle className="w-4 h-4 shrink-0" /> Sales in {missingRates.join(', ')} have no exchange rate and are counted as {currency}. Add rates in the Catalog.
+        </p>
+      )}
+
       <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
-        <KPIContainer label="Revenue" value={`$${stats.totalRevenue.toLocaleString()}`}>
+        <KPIContainer label="Revenue" value={formatMoney(stats.totalRevenue, currency)} delta={previousStats && { current: stats.totalRevenue, previous: previousStats.totalRevenue, label: comparisonLabel, currency }}>
           <div className="h-48 mt-6 w-full" style={{ width: '100%', height: '192px' }}>
              {stats.categoryData.length > 0 && (
                <ResponsiveContainer width="100%" height="100%">
@@ -349,7 +475,7 @@ export const DashboardView: React.FC<DashboardViewProps> = ({ master, onSaveAnal
              )}
           </div>
         </KPIContainer>
-        <KPIContainer label="Total Items" value={stats.totalItems.toLocaleString()}>
+        <KPIContainer label="Total Items" value={stats.totalItems.toLocaleString()} delta={previousStats && { current: stats.totalItems, previous: previousStats.totalItems, label: comparisonLabel }}>
           <div className="mt-6 space-y-3 overflow-y-auto max-h-[220px] pr-2 custom-scrollbar">
              {stats.sortedProducts.length > 0 ? (
                stats.sortedProducts.map((p, i) => (
@@ -363,7 +489,7 @@ export const DashboardView: React.FC<DashboardViewProps> = ({ master, onSaveAnal
              )}
           </div>
         </KPIContainer>
-        <KPIContainer label="Top Seller" value={stats.topProduct ? stats.topProduct.name : 'None'} subtitle={`${stats.topProduct ? stats.topProduct.count : 0} units sold`}>
+        <KPIContainer label="Top Seller" value={stats.topProduct ? stats.topProduct.name : 'None'} subtitle={`${stats.topProduct ? stats.topProduct.count : 0} units sold`} delta={previousStats && stats.topProduct && { current: stats.topProduct.count, previous: previousStats.productMap[stats.topProduct.name]?.count || 0, label: comparisonLabel }}>
            <div className="mt-8 p-5 bg-indigo-50 rounded-3xl">
               <p className="text-[10px] font-black text-indigo-400 uppercase tracking-widest mb-1">Performance</p>
               <p className="text-xs font-bold text-indigo-900 italic">
@@ -376,7 +502,7 @@ export const DashboardView: React.FC<DashboardViewProps> = ({ master, onSaveAnal
       <div className="bg-slate-900 rounded-[40px] p-8 md:p-10 text-white shadow-2xl">
         <div className="flex items-center gap-3 mb-6">
           <BrainCircuit className="w-6 h-6 text-indigo-400" />
-          <span className="text-[10px] font-black uppercase tracking-[0.2em] text-indigo-400">Gemini Strategy</span>
+          <span className="text-[10px] font-black uppercase tracking-[0.2em] text-indigo-400">{ai.name} Strategy</span>
         </div>
         <h2 className="text-3xl font-black mb-10 leading-tight">
            {isAiLoading ? "Processing data..." : driveText}
@@ -393,16 +519,69 @@ export const DashboardView: React.FC<DashboardViewProps> = ({ master, onSaveAnal
 
       <div className="grid grid-cols-1 lg:grid-cols-2 gap-8">
         <div className="bg-white p-8 rounded-[40px] shadow-xl">
-           <h3 className="text-xl font-black mb-8 flex items-center gap-3"><TrendingUp className="w-5 h-5 text-orange-500" /> Revenue</h3>
+           <h3 className="text-xl font-black mb-4 flex items-center gap-3">
+             <TrendingUp className="w-5 h-5 text-orange-500" /> Revenue
+             {previousRange && <span className="ml-auto text-[10px] font-black text-slate-400 uppercase tracking-widest">vs {comparisonLabel}</span>}
+           </h3>
+           <div className="flex flex-wrap items-center gap-1 mb-4">
+              {GRANULARITY_OPTIONS.map(g => (
+                <button key={g} onClick={() => setGranularity(g)} className={chipClass(granularity === g)}>
+                  {g === 'auto' ? `Auto (${activeGranularity})` : g}
+                </button>
+              ))}
+              <span className="w-px h-4 bg-slate-100 mx-1" />
+              {MOVING_AVERAGE_WINDOWS.map(w => (
+                <button key={w} onClick={() => setMovingAverage(movingAverage === w ? 0 : w)} className={chipClass(movingAverage === w)}>
+                  {w}-pt avg
+                </button>
+              ))}
+              <button onClick={() => setShowCumulative(!showCumulative)} className={chipClass(showCumulative)}>Cumulative</button>
+              <span className="w-px h-4 bg-slate-100 mx-1" />
+              {FORECAST_WEEKS.map(w => (
+                <button
+                  key={w}
+                  onClick={() => setForecastWeeks(forecastWeeks === w ? 0 : w)}
+                  disabled={!canForecast}
+                  title={canForecast ? `Forecast the next ${w} weeks` : 'Forecasts extend ranges that reach your latest sale'}
+                  className={`${chipClass(forecastWeeks === w && canForecast)} disabled:opacity-40`}
+                >
+                  +{w}w
+                </button>
+              ))}
+           </div>
            <div className="h-64 w-full" style={{ width: '100%', height: '256px' }}>
               <ResponsiveContainer width="100%" height="100%">
-                <AreaChart data={revenueTrend}>
-                  <XAxis dataKey="date" tick={{fontSize: 9}} tickFormatter={(val) => val.slice(5)} />
-                  <Tooltip content={<CustomRevenueTooltip />} cursor={{ stroke: '#f97316', strokeWidth: 2, strokeDasharray: '5 5' }} />
+                <ComposedChart data={revenueTrend}>
+                  <XAxis dataKey="label" tick={{fontSize: 9}} minTickGap={16} />
+                  <YAxis hide />
+                  <YAxis yAxisId="cumulative" orientation="right" hide />
+                  <Tooltip content={<CustomRevenueTooltip movingAverage={movingAverage} showCumulative={showCumulative} currency={currency} />} cursor={{ stroke: '#f97316', strokeWidth: 2, strokeDasharray: '5 5' }} />
+                  {previousRange && (
+                    <Area type="monotone" dataKey="previousRevenue" stroke="#94a3b8" strokeDasharray="2 4" fill="#94a3b8" fillOpacity={0.05} isAnimationActive={false} />
+                  )}
                   <Area type="monotone" dataKey="revenue" stroke="#f97316" fill="#f97316" fillOpacity={0.1} />
-                </AreaChart>
+                  {movingAverage > 0 && (
+                    <Line type="monotone" dataKey="movingAverage" stroke="#6366f1" strokeWidth={2} dot={false} isAnimationActive={false} />
+                  )}
+                  {showCumulative && (
+                    <Line yAxisId="cumulative" type="monotone" dataKey="cumulative" stroke="#059669" strokeWidth={2} dot={false} isAnimationActive={false} />
+                  )}
+                  {forecast && (
+                    <Area type="monotone" dataKey="forecastBand" stroke="none" fill="#f97316" fillOpacity={0.08} isAnimationActive={false} />
+                  )}
+                  {forecast && (
+                    <Line type="monotone" dataKey="forecast" stroke="#f97316" strokeWidth={2} strokeDasharray="6 4" dot={false} isAnimationActive={false} />
+                  )}
+                </ComposedChart>
               </ResponsiveContainer>
            </div>
+           {forecastWeeks > 0 && canForecast && (
+             <p className="mt-4 text-xs font-bold text-slate-500">
+               {forecastSummary
+                 ? <>Next {forecastWeeks} weeks: <span className="text-orange-500">{formatMoney(forecastSummary.revenue, currency)}</span> (likely {formatMoney(forecastSummary.revenueLow, currency)} – {formatMoney(forecastSummary.revenueHigh, currency)}) · ~{forecastSummary.units} units ({forecastSummary.unitsLow}–{forecastSummary.unitsHigh})</>
+                 : 'At least four weeks of sales are needed for a forecast.'}
+             </p>
+           )}
         </div>
         <div className="bg-white p-8 rounded-[40px] shadow-xl">
            <h3 className="text-xl font-black mb-8 flex items-center gap-3"><CalendarDays className="w-5 h-5 text-emerald-500" /> Best Days of the Week</h3>
@@ -410,7 +589,7 @@ export const DashboardView: React.FC<DashboardViewProps> = ({ master, onSaveAnal
               <ResponsiveContainer width="100%" height="100%">
                 <BarChart data={busiestDays}>
                   <XAxis dataKey="name" tick={{fontSize: 9}} />
-                  <Tooltip content={<CustomDayTooltip />} cursor={{fill: '#f1f5f9'}} />
+                  <Tooltip content={<CustomDayTooltip currency={currency} />} cursor={{fill: '#f1f5f9'}} />
                   <Bar dataKey="quantity" fill="#059669" radius={[10, 10, 0, 0]} />
                 </BarChart>
               </ResponsiveContainer>
@@ -418,7 +597,23 @@ export const DashboardView: React.FC<DashboardViewProps> = ({ master, onSaveAnal
         </div>
       </div>
 
-      <div className="pt-12 flex justify-end no-export">
+      <div className="grid grid-cols-1 lg:grid-cols-3 gap-8">
+        <LedgerPanel totals={ledger} refunds={refundLinks} currency={currency} />
+        <div className="lg:col-span-2">
+          <ProfitPanel summary={profit} currency={currency} />
+        </div>
+      </div>
+
+      <RegionPanel
+        totals={regions}
+        level={regionLevel}
+        selected={regionFilter}
+        currency={currency}
+        onLevelChange={(level) => { setRegionLevel(level); setRegionFilter(null); }}
+        onSelect={setRegionFilter}
+      />
+
+      <div className="pt-12 flex justify-end">
          <button onClick={clearData} className="text-[10px] font-black text-slate-300 hover:text-red-500 uppercase tracking-widest flex items-center gap-2">
            <Trash2 className="w-4 h-4" /> Reset Records
          </button>
@@ -427,12 +622,13 @@ export const DashboardView: React.FC<DashboardViewProps> = ({ master, onSaveAnal
   );
 };
 
-const KPIContainer = ({ label, value, subtitle, children }: any) => {
+const KPIContainer = ({ label, value, subtitle, delta, children }: any) => {
   return (
     <div className="bg-white p-8 rounded-[40px] border border-slate-100 shadow-xl min-h-[300px]">
       <p className="text-[10px] font-black text-slate-400 uppercase tracking-[0.2em] mb-2">{label}</p>
       <p className="text-3xl font-black text-slate-900 tracking-tighter truncate">{value}</p>
       {subtitle && <p className="text-xs font-bold text-indigo-500 mt-2">{subtitle}</p>}
+      {delta && <DeltaBadge {...delta} />}
       {children}
     </div>
   );
@@ -0,0 +1,70 @@
+import React from 'react';
+import { Inbox, RefreshCw, Download, FileSpreadsheet, X } from 'lucide-react';
+import { DriveFolder } from '../types';
+import { DriveFileMeta } from '../lib/googleDrive';
+
+interface DriveInboxProps {
+  folder: DriveFolder;
+  files: DriveFileMeta[] | null;     // null until the folder has been listed
+  newFileIds: Set<string>;
+  checking: boolean;
+  error: string | null;
+  busy: boolean;                     // An import is already running
+  onCheck: () => void;
+  onImport: () => void;
+  onRemove: () => void;
+}
+
+export const DriveInbox: React.FC<DriveInboxProps> = ({ folder, files, newFileIds, checking, error, busy, onCheck, onImport, onRemove }) => {
+  const handleRemove = () => {
+    if (confirm(`Stop watching "${folder.name}"? Reports already imported stay in your records.`)) onRemove();
+  };
+
+  return (
+    <div className="bg-white rounded-[40px] p-8 border border-slate-100 shadow-xl">
+      <div className="flex flex-col md:flex-row md:items-center justify-between gap-4 mb-6">
+        <div>
+          <h3 className="text-xl font-black flex items-center gap-3">
+            <Inbox className="w-5 h-5 text-indigo-500" /> Drive Inbox
+          </h3>
+          <p className="text-sm text-slate-500 font-medium">
+            Reports dropped into <b>{folder.name}</b> are imported with their saved mapping profile. New reports with a saved layout come in automatically when the workspace opens.
+          </p>
+        </div>
+        <div className="flex items-center gap-2 shrink-0">
+          <button onClick={onCheck} disabled={checking} title="Check again" className="p-3 rounded-xl border-2 border-slate-100 text-slate-400 hover:text-indigo-600 hover:border-indigo-100 disabled:opacity-50">
+            <RefreshCw className={`w-4 h-4 ${checking ? 'animate-spin' : ''}`} />
+          </button>
+          <button onClick={onImport} disabled={busy || newFileIds.size === 0} className="flex items-center gap-2 px-5 py-3 bg-indigo-600 text-white rounded-xl font-black text-[10px] uppercase tracking-wider disabled:opacity-50">
+            <Download className="w-4 h-4" /> Import {newFileIds.size} New
+          </button>
+          <button onClick={handleRemove} title="Stop watching this folder" className="p-3 rounded-xl text-slate-300 hover:text-red-500">
+            <X className="w-4 h-4" />
+          </button>
+        </div>
+      </div>
+
+      {error && <p className="mb-4 text-xs font-bold text-red-500">{error}</p>}
+
+      {files === null ? (
+        <p className="text-xs text-slate-300 font-medium text-center py-10">{checking ? 'Checking the folder...' : 'Sign in to Google Drive to check this folder.'}</p>
+      ) : files.length === 0 ? (
+        <p className="text-xs text-slate-300 font-medium text-center py-10">No spreadsheets in this folder yet.</p>
+      ) : (
+        <div className="divide-y divide-slate-50">
+          {files.map(file => {
+            const isNew = newFileIds.has(file.id);
+            return (
+              <div key={file.id} className={`flex items-center gap-4 py-3 ${isNew ? '' : 'opacity-50'}`}>
+                <FileSpreadsheet className={`w-5 h-5 shrink-0 ${isNew ? 'text-indigo-500' : 'text-slate-300'}`} />
+                <p className="flex-1 text-sm font-bold text-slate-900 truncate" title={file.name}>{file.name}</p>
+                {file.modifiedTime && <span className="text-[10px] font-bold text-slate-400">{new Date(file.modifiedTime).toLocaleDateString()}</span>}
+                <span className={`text-[10px] font-black uppercase tracking-widest ${isNew ? 'text-indigo-500' : 'text-slate-400'}`}>{isNew ? 'New' : 'Synced'}</span>
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+};
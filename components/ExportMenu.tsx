@@ -0,0 +1,86 @@
+import React, { useState } from 'react';
+import { FileDown, FileSpreadsheet, FileBraces, FileText, ChevronDown } from 'lucide-react';
+import { MasterRecord, SaleRecord } from '../types';
+import { SUMMARY_SHEET_LABELS, SummarySheet, exportMasterBackup, exportSales } from '../lib/exporter';
+
+export interface ExportScope {
+  label: string;
+  sales: SaleRecord[];
+}
+
+interface ExportMenuProps {
+  master: MasterRecord;
+  scopes: ExportScope[];         // The first is selected by default
+  className?: string;
+  compact?: boolean;             // Toolbar-sized button
+}
+
+export const ExportMenu: React.FC<ExportMenuProps> = ({ master, scopes, className = '', compact = false }) => {
+  const [open, setOpen] = useState(false);
+  const [scopeIndex, setScopeIndex] = useState(0);
+  const [summaries, setSummaries] = useState<Set<SummarySheet>>(new Set());
+
+  const scope = scopes[Math.min(scopeIndex, scopes.length - 1)];
+
+  const toggleSummary = (sheet: SummarySheet) => {
+    const next = new Set(summaries);
+    if (next.has(sheet)) next.delete(sheet); else next.add(sheet);
+    setSummaries(next);
+  };
+
+  const run = (action: () => void) => {
+    try {
+      action();
+      setOpen(false);
+    } catch (err) {
+      console.error('Export failed:', err);
+    }
+  };
+
+  return (
+    <div className={`relative ${className}`}>
+      <button
+        onClick={() => setOpen(!open)}
+        className={`w-full flex items-center justify-center gap-2 bg-white border-2 border-slate-100 text-slate-700 hover:border-indigo-200 ${compact ? 'px-4 py-1.5 rounded-xl font-black text-[10px] uppercase tracking-wider' : 'px-6 py-3 rounded-2xl font-bold text-sm'}`}
+      >
+        <FileDown className="w-4 h-4" /> Export <ChevronDown className="w-3 h-3" />
+      </button>
+      {open && (
+        <div className="absolute right-0 mt-2 w-72 bg-white rounded-3xl shadow-2xl border border-slate-100 p-5 z-50 space-y-4 text-left">
+          {scopes.length > 1 && (
+            <div className="space-y-1">
+              <p className="text-[10px] font-black text-slate-400 uppercase tracking-widest">Records</p>
+              {scopes.map((s, i) => (
+                <label key={s.label} className="flex items-center gap-2 text-sm font-bold text-slate-700 cursor-pointer">
+                  <input type="radio" checked={scope === s} onChange={() => setScopeIndex(i)} className="accent-indigo-600" />
+                  {s.label} <span className="text-slate-400 font-medium">({s.sales.length})</span>
+                </label>
+              ))}
+            </div>
+          )}
+          <div className="space-y-1">
+            <p className="text-[10px] font-black text-slate-400 uppercase tracking-widest">Extra sheets (Excel)</p>
+            {(Object.keys(SUMMARY_SHEET_LABELS) as SummarySheet[]).map(sheet => (
+              <label key={sheet} className="flex items-center gap-2 text-sm font-bold text-slate-700 cursor-pointer">
+                <input type="checkbox" checked={summaries.has(sheet)} onChange={() => toggleSummary(sheet)} className="accent-indigo-600" />
+                {SUMMARY_SHEET_LABELS[sheet]}
+              </label>
+            ))}
+          </div>
+          <div className="grid grid-cols-2 gap-2">
+            <button onClick={() => run(() => exportSales(master, 'xlsx', { sales: scope.sales, scopeLabel: scope.label, summaries: [...summaries] }))} className="flex items-center justify-center gap-2 py-2 bg-emerald-600 text-white rounded-xl font-black text-[10px] uppercase tracking-wider">
+              <FileSpreadsheet className="w-4 h-4" /> Excel
+            </button>
+            <button onClick={() => run(() => exportSales(master, 'csv', { sales: scope.sales, scopeLabel: scope.label }))} className="flex items-center justify-center gap-2 py-2 bg-slate-900 text-white rounded-xl font-black text-[10px] uppercase tracking-wider">
+              <FileText className="w-4 h-4" /> CSV
+            </button>
+          </div>
+          <button onClick={() => run(() => exportMasterBackup(master))} className="w-full flex items-center justify-center gap-2 py-2 bg-slate-50 text-slate-600 rounded-xl font-black text-[10px] uppercase tracking-wider hover:bg-indigo-50 hover:text-indigo-600">
+            <FileBraces className="w-4 h-4" /> Full backup (JSON)
+          </button>
+          <p className="text-[10px] text-slate-400 font-medium">The backup holds every record and setting and can be opened again from the start screen.</p>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,54 @@
+import React from 'react';
+import { History, Undo2, FileSpreadsheet } from 'lucide-react';
+import { ImportBatch } from '../types';
+
+interface ImportHistoryProps {
+  imports: ImportBatch[];
+  onRollback: (batchId: string) => void;
+}
+
+export const ImportHistory: React.FC<ImportHistoryProps> = ({ imports, onRollback }) => {
+  const handleRollback = (batch: ImportBatch) => {
+    if (confirm(`Remove the ${batch.rowCount} records imported from "${batch.fileName}"?`)) {
+      onRollback(batch.id);
+    }
+  };
+
+  return (
+    <div className="bg-white rounded-[40px] p-8 border border-slate-100 shadow-xl">
+      <h3 className="text-xl font-black mb-6 flex items-center gap-3">
+        <History className="w-5 h-5 text-indigo-500" /> Import History
+      </h3>
+      {imports.length === 0 ? (
+        <p className="text-xs text-slate-300 font-medium text-center py-10">No imports yet.</p>
+      ) : (
+        <div className="divide-y divide-slate-50">
+          {imports.slice().reverse().map(batch => (
+            <div key={batch.id} className="flex items-center gap-4 py-4">
+              <div className="w-10 h-10 bg-indigo-50 rounded-2xl flex items-center justify-center shrink-0">
+                <FileSpreadsheet className="w-5 h-5 text-indigo-500" />
+              </div>
+              <div className="flex-1 overflow-hidden">
+                <p className="text-sm font-bold text-slate-900 truncate" title={batch.fileName}>{batch.fileName}</p>
+                <p className="text-[10px] font-bold text-slate-400 uppercase tracking-widest">
+                  {new Date(batch.importedAt).toLocaleString()} · {batch.rowCount} rows
+                </p>
+                {batch.mapping && (
+                  <p className="text-[10px] text-slate-400 truncate">
+                    {Object.entries(batch.mapping).filter(([, col]) => col).map(([field, col]) => `${field}: ${col}`).join(' · ')}
+                  </p>
+                )}
+              </div>
+              <button
+                onClick={() => handleRollback(batch)}
+                className="flex items-center gap-2 px-4 py-2 rounded-xl text-[10px] font-black uppercase tracking-widest text-slate-400 hover:bg-red-50 hover:text-red-500 transition-all"
+              >
+                <Undo2 className="w-4 h-4" /> Roll Back
+              </button>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -1,5 +1,5 @@
 import React, { useState } from 'react';
-import { LayoutDashboard, CloudUpload, BarChart3, X, LogOut, User, Cloud, RefreshCw, Database } from 'lucide-react';
+import { LayoutDashboard, CloudUpload, BarChart3, X, LogOut, User, Cloud, RefreshCw, Database, Package } from 'lucide-react';
 import { ViewState } from '../types';
 
 interface LayoutProps {
@@ -20,6 +20,7 @@ export const Layout: React.FC<LayoutProps> = ({
 
   const navItems = [
     { id: 'sync' as ViewState, label: 'Add Sales Data', icon: CloudUpload },
+    { id: 'catalog' as ViewState, label: 'Catalog', icon: Package },
     { id: 'analyze' as ViewState, label: 'Sales Dashboard', icon: BarChart3 },
   ];
 
@@ -62,7 +63,7 @@ export const Layout: React.FC<LayoutProps> = ({
                 className="w-full bg-slate-50 text-slate-700 py-4 rounded-2xl font-bold hover:bg-slate-100 transition-all flex items-center justify-center gap-2"
               >
                 <Database className="w-4 h-4" />
-                Switch Master File
+                Switch Workspace
               </button>
               
               <button
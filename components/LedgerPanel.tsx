@@ -0,0 +1,42 @@
+import React from 'react';
+import { Receipt } from 'lucide-react';
+import { LedgerTotals } from '../lib/ledger';
+import { formatMoney } from '../lib/currency';
+
+interface LedgerPanelProps {
+  totals: LedgerTotals;
+  refunds: { linked: number, unlinked: number };
+  currency: string;
+}
+
+export const LedgerPanel: React.FC<LedgerPanelProps> = ({ totals, refunds, currency }) => {
+  const rows: { label: string, value: number, sign?: '+' | '-', total?: boolean }[] = [
+    { label: 'Gross Sales', value: totals.gross },
+    { label: 'Discounts', value: totals.discounts, sign: '-' },
+    { label: 'Refunds', value: totals.refunds, sign: '-' },
+    { label: 'Net Sales', value: totals.net, total: true },
+    { label: 'Tax Collected', value: totals.tax, sign: '+' },
+    { label: 'Shipping Charged', value: totals.shipping, sign: '+' },
+    { label: 'Platform Fees', value: totals.fees, sign: '-' },
+    { label: 'Payouts', value: totals.payouts, total: true }
+  ];
+
+  return (
+    <div className="bg-white p-8 rounded-[40px] shadow-xl">
+      <h3 className="text-xl font-black mb-6 flex items-center gap-3"><Receipt className="w-5 h-5 text-indigo-500" /> Gross to Payout</h3>
+      <div className="divide-y divide-slate-50">
+        {rows.map(row => (
+          <div key={row.label} className={`flex justify-between py-2 text-sm ${row.total ? 'font-black text-slate-900' : 'font-medium text-slate-500'}`}>
+            <span>{row.sign && <span className="inline-block w-4 text-slate-300">{row.sign}</span>}{row.label}</span>
+            <span className={row.sign === '-' && row.value > 0 ? 'text-red-500' : ''}>{formatMoney(row.value, currency, true)}</span>
+          </div>
+        ))}
+      </div>
+      {refunds.linked + refunds.unlinked > 0 && (
+        <p className="mt-4 text-[10px] font-bold text-slate-400 uppercase tracking-widest">
+          {refunds.linked} refunds matched to their sale{refunds.unlinked > 0 && ` · ${refunds.unlinked} unmatched`}
+        </p>
+      )}
+    </div>
+  );
+};
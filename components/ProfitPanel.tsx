@@ -0,0 +1,75 @@
+import React from 'react';
+import { Coins } from 'lucide-react';
+import { ProfitLine, ProfitSummary } from '../lib/costs';
+import { formatMoney } from '../lib/currency';
+
+interface ProfitPanelProps {
+  summary: ProfitSummary;
+  currency: string;
+}
+
+const formatMargin = (margin: number | null) => (margin === null ? '—' : `${(margin * 100).toFixed(1)}%`);
+
+const LineList = ({ title, lines, currency }: { title: string, lines: ProfitLine[], currency: string }) => (
+  <div>
+    <p className="text-[10px] font-black text-slate-400 uppercase tracking-widest mb-3">{title}</p>
+    {lines.length === 0 ? (
+      <p className="text-xs text-slate-300 font-medium">Nothing to show.</p>
+    ) : (
+      <div className="space-y-2">
+        {lines.map(line => (
+          <div key={line.name} className="flex justify-between gap-3 text-xs font-bold border-b border-slate-50 pb-2 last:border-0">
+            <span className="text-slate-600 truncate" title={line.name}>{line.name}</span>
+            <span className="shrink-0 text-right">
+              <span className={line.profit < 0 ? 'text-red-500' : 'text-slate-900'}>{formatMoney(line.profit, currency)}</span>
+              <span className="ml-2 text-[10px] text-slate-400">{formatMargin(line.margin)}</span>
+            </span>
+          </div>
+        ))}
+      </div>
+    )}
+  </div>
+);
+
+export const ProfitPanel: React.FC<ProfitPanelProps> = ({ summary, currency }) => {
+  const topProducts = summary.products.slice(0, 5);
+  // Only products not already listed as most profitable, worst first
+  const bottomProducts = summary.products.slice(Math.max(5, summary.products.length - 5)).reverse();
+
+  return (
+    <div className="bg-white p-8 rounded-[40px] shadow-xl">
+      <h3 className="text-xl font-black mb-6 flex items-center gap-3"><Coins className="w-5 h-5 text-emerald-500" /> Profitability</h3>
+
+      {summary.costedSales === 0 ? (
+        <p className="text-xs text-slate-300 font-medium text-center py-10">Add product costs in the Catalog, or map a cost column when importing, to see profit and margin.</p>
+      ) : (
+        <>
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-6 mb-8">
+            <div>
+              <p className="text-[10px] font-black text-slate-400 uppercase tracking-[0.2em] mb-2">Gross Profit</p>
+              <p className={`text-3xl font-black tracking-tighter ${summary.profit < 0 ? 'text-red-500' : 'text-slate-900'}`}>{formatMoney(summary.profit, currency)}</p>
+            </div>
+            <div>
+              <p className="text-[10px] font-black text-slate-400 uppercase tracking-[0.2em] mb-2">Margin</p>
+              <p className="text-3xl font-black text-slate-900 tracking-tighter">{formatMargin(summary.margin)}</p>
+            </div>
+            <div>
+              <p className="text-[10px] font-black text-slate-400 uppercase tracking-[0.2em] mb-2">Cost of Goods</p>
+              <p className="text-3xl font-black text-slate-900 tracking-tighter">{formatMoney(summary.cost, currency)}</p>
+            </div>
+          </div>
+          {summary.costedSales < summary.totalSales && (
+            <p className="text-xs font-bold text-amber-500 mb-6">
+              Based on {summary.costedSales} of {summary.totalSales} sales; the rest have no known cost and are left out.
+            </p>
+          )}
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-8">
+            <LineList title="Most Profitable Products" lines={topProducts} currency={currency} />
+            <LineList title="Least Profitable Products" lines={bottomProducts} currency={currency} />
+            <LineList title="Categories by Profit" lines={summary.categories} currency={currency} />
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
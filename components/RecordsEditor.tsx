@@ -0,0 +1,202 @@
+import React, { useMemo, useState } from 'react';
+import { Search, Plus, Pencil, Trash2, Scissors, Check, X, ChevronLeft, ChevronRight } from 'lucide-react';
+import { MasterRecord, SaleRecord } from '../types';
+import { FALLBACK_CATEGORY } from '../lib/categories';
+import { RecordMutation, SaleDraft, canSplit, newSale, normalizeSale, splitSale, validateSale, validateSplit, withAmount } from '../lib/records';
+import { formatMoney } from '../lib/currency';
+import { ExportMenu } from './ExportMenu';
+
+interface RecordsEditorProps {
+  master: MasterRecord;
+  onMutate: (mutation: RecordMutation) => void;
+}
+
+const PAGE_SIZE = 25;
+
+const inputClass = 'w-full bg-white border-2 border-slate-100 rounded-lg px-2 py-1 text-sm font-medium focus:border-indigo-300 outline-none';
+
+const DraftCells = ({ draft, onChange }: { draft: SaleDraft, onChange: (draft: SaleDraft) => void }) => (
+  <>
+    <td className="px-4 py-2"><input type="date" value={draft.date} onChange={(e) => onChange({ ...draft, date: e.target.value })} className={inputClass} /></td>
+    <td className="px-4 py-2"><input value={draft.product} onChange={(e) => onChange({ ...draft, product: e.target.value })} className={inputClass} /></td>
+    <td className="px-4 py-2"><input list="record-categories" value={draft.category} onChange={(e) => onChange({ ...draft, category: e.target.value })} className={inputClass} /></td>
+    <td className="px-4 py-2 w-20"><input type="number" min={1} step={1} value={draft.quantity} onChange={(e) => onChange({ ...draft, quantity: e.target.value })} className={inputClass} /></td>
+    <td className="px-4 py-2 w-28"><input type="number" step="0.01" value={draft.amount} onChange={(e) => onChange(withAmount(draft, e.target.value))} className={`${inputClass} text-right`} /></td>
+  </>
+);
+
+export const RecordsEditor: React.FC<RecordsEditorProps> = ({ master, onMutate }) => {
+  const [search, setSearch] = useState('');
+  const [page, setPage] = useState(0);
+  const [editing, setEditing] = useState<{ draft: SaleDraft, isNew: boolean } | null>(null);
+  const [splitting, setSplitting] = useState<{ id: string, parts: SaleDraft[] } | null>(null);
+  const [errors, setErrors] = useState<string[]>([]);
+
+  const rows = useMemo(() => {
+    const term = search.trim().toLowerCase();
+    const matches = term
+      ? master.data.filter(s => [s.date, s.product, s.category, s.amount.toFixed(2)].some(v => v.toLowerCase().includes(term)))
+      : master.data;
+    return matches
+      .map((sale, index) => ({ sale, index }))
+      .sort((a, b) => b.sale.date.localeCompare(a.sale.date) || b.index - a.index)
+      .map(r => r.sale);
+  }, [master.data, search]);
+
+  const pageCount = Math.max(1, Math.ceil(rows.length / PAGE_SIZE));
+  const currentPage = Math.min(page, pageCount - 1);
+  const pageRows = rows.slice(currentPage * PAGE_SIZE, (currentPage + 1) * PAGE_SIZE);
+
+  const cancel = () => {
+    setEditing(null);
+    setSplitting(null);
+    setErrors([]);
+  };
+
+  const startEdit = (sale: SaleRecord) => {
+    cancel();
+    setEditing({ draft: { ...sale }, isNew: false });
+  };
+
+  const startAdd = () => {
+    cancel();
+    setEditing({ draft: newSale(master.categories[0]?.name || FALLBACK_CATEGORY), isNew: true });
+  };
+
+  const startSplit = (sale: SaleRecord) => {
+    cancel();
+    setSplitting({ id: sale.id, parts: splitSale(sale) });
+  };
+
+  const saveEdit = () => {
+    if (!editing) return;
+    const issues = validateSale(editing.draft);
+    if (issues.length) return setErrors(issues);
+    onMutate({ type: editing.isNew ? 'add' : 'update', sale: normalizeSale(editing.draft) });
+    cancel();
+  };
+
+  const saveSplit = () => {
+    if (!splitting) return;
+    const original = master.data.find(s => s.id === splitting.id);
+    if (!original) return cancel();
+    const issues = validateSplit(original, splitting.parts);
+    if (issues.length) return setErrors(issues);
+    onMutate({ type: 'split', id: splitting.id, parts: splitting.parts.map(normalizeSale) });
+    cancel();
+  };
+
+  const handleDelete = (sale: SaleRecord) => {
+    if (confirm(`Delete the ${sale.date} sale of "${sale.product}"?`)) {
+      onMutate({ type: 'delete', ids: [sale.id] });
+      if (editing?.draft.id === sale.id || splitting?.id === sale.id) cancel();
+    }
+  };
+
+  const actionButtons = (onSave: () => void) => (
+    <td className="px-4 py-2 text-right whitespace-nowrap">
+      <button onClick={onSave} title="Save" className="p-1 text-emerald-500 hover:text-emerald-700"><Check className="w-4 h-4" /></button>
+      <button onClick={cancel} title="Cancel" className="p-1 text-slate-400 hover:text-slate-600"><X className="w-4 h-4" /></button>
+    </td>
+  );
+
+  return (
+    <div className="flex flex-col min-h-0 flex-1">
+      <datalist id="record-categories">
+        {master.categories.map(c => <option key={c.id} value={c.name} />)}
+      </datalist>
+
+      <div className="px-6 py-3 border-b border-slate-100 flex items-center gap-3">
+        <div className="flex-1 flex items-center gap-2 bg-slate-50 px-4 py-2 rounded-xl border border-slate-100">
+          <Search className="w-4 h-4 text-slate-400" />
+          <input value={search} onChange={(e) => { setSearch(e.target.value); setPage(0); }} placeholder="Search date, product, category or amount" className="flex-1 bg-transparent text-sm font-bold text-slate-700 outline-none" />
+        </div>
+        <button onClick={startAdd} className="flex items-center gap-2 px-4 py-2 bg-indigo-600 text-white rounded-xl font-black text-[10px] uppercase tracking-wider">
+          <Plus className="w-4 h-4" /> Add Sale
+        </button>
+        <ExportMenu
+          master={master}
+          compact
+          scopes={search.trim() ? [{ label: 'Search results', sales: rows }, { label: 'All records', sales: master.data }] : [{ label: 'All records', sales: master.data }]}
+        />
+      </div>
+
+      {errors.length > 0 && (
+        <ul className="px-6 py-3 bg-red-50 text-xs font-bold text-red-500 space-y-0.5">
+          {errors.map(e => <li key={e}>{e}</li>)}
+        </ul>
+      )}
+
+      <div className="overflow-auto flex-1">
+        <table className="w-full text-sm text-left">
+          <thead className="bg-slate-50 text-slate-400 font-black uppercase text-[10px] tracking-wider sticky top-0 z-10">
+            <tr>
+              <th className="px-4 py-4">Date</th>
+              <th className="px-4 py-4">Product</th>
+              <th className="px-4 py-4">Category</th>
+              <th className="px-4 py-4">Qty</th>
+              <th className="px-4 py-4 text-right">Amount</th>
+              <th className="px-4 py-4"></th>
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-slate-100">
+            {editing?.isNew && (
+              <tr className="bg-indigo-50/40">
+                <DraftCells draft={editing.draft} onChange={(draft) => setEditing({ ...editing, draft })} />
+                {actionButtons(saveEdit)}
+              </tr>
+            )}
+            {pageRows.map(row => {
+              if (editing && !editing.isNew && editing.draft.id === row.id) {
+                return (
+                  <tr key={row.id} className="bg-indigo-50/40">
+                    <DraftCells draft={editing.draft} onChange={(draft) => setEditing({ ...editing, draft })} />
+                    {actionButtons(saveEdit)}
+                  </tr>
+                );
+              }
+              if (splitting?.id === row.id) {
+                return (
+                  <React.Fragment key={row.id}>
+                    {splitting.parts.map((part, i) => (
+                      <tr key={part.id} className="bg-amber-50/40">
+                        <DraftCells draft={part} onChange={(draft) => setSplitting({ ...splitting, parts: splitting.parts.map((p, j) => (j === i ? draft : p)) })} />
+                        {i === 0 ? actionButtons(saveSplit) : <td className="px-4 py-2 text-[10px] font-black text-amber-500 uppercase tracking-widest text-right">Part {i + 1}</td>}
+                      </tr>
+                    ))}
+                  </React.Fragment>
+                );
+              }
+              return (
+                <tr key={row.id} className="hover:bg-slate-50/50 group">
+                  <td className="px-4 py-3 font-bold text-slate-600 whitespace-nowrap">{row.date}</td>
+                  <td className="px-4 py-3 font-medium text-slate-900">{row.product}</td>
+                  <td className="px-4 py-3 text-slate-500">{row.category}</td>
+                  <td className="px-4 py-3 text-slate-500">{row.quantity}</td>
+                  <td className="px-4 py-3 font-bold text-slate-900 text-right">{formatMoney(row.amount, row.currency || master.reportingCurrency, true)}</td>
+                  <td className="px-4 py-3 text-right whitespace-nowrap opacity-0 group-hover:opacity-100 transition-opacity">
+                    <button onClick={() => startEdit(row)} title="Edit" className="p-1 text-slate-400 hover:text-indigo-600"><Pencil className="w-4 h-4" /></button>
+                    <button onClick={() => startSplit(row)} disabled={!canSplit(row)} title={canSplit(row) ? 'Split' : 'Only sales of more than one unit can be split'} className="p-1 text-slate-400 hover:text-amber-500 disabled:opacity-30 disabled:hover:text-slate-400"><Scissors className="w-4 h-4" /></button>
+                    <button onClick={() => handleDelete(row)} title="Delete" className="p-1 text-slate-400 hover:text-red-500"><Trash2 className="w-4 h-4" /></button>
+                  </td>
+                </tr>
+              );
+            })}
+            {rows.length === 0 && !editing?.isNew && (
+              <tr><td colSpan={6} className="px-6 py-12 text-center text-slate-400 font-medium">{search ? 'No records match your search.' : 'No records found.'}</td></tr>
+            )}
+          </tbody>
+        </table>
+      </div>
+
+      <div className="px-6 py-3 border-t border-slate-100 flex items-center justify-between text-xs font-bold text-slate-400">
+        <span>{rows.length} of {master.data.length} records</span>
+        <div className="flex items-center gap-2">
+          <button onClick={() => setPage(currentPage - 1)} disabled={currentPage === 0} className="p-1 rounded-lg hover:bg-slate-100 disabled:opacity-30"><ChevronLeft className="w-4 h-4" /></button>
+          <span>Page {currentPage + 1} of {pageCount}</span>
+          <button onClick={() => setPage(currentPage + 1)} disabled={currentPage >= pageCount - 1} className="p-1 rounded-lg hover:bg-slate-100 disabled:opacity-30"><ChevronRight className="w-4 h-4" /></button>
+        </div>
+      </div>
+    </div>
+  );
+};
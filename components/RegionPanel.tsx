@@ -0,0 +1,68 @@
+import React from 'react';
+import { MapPin } from 'lucide-react';
+import { RegionLevel, RegionTotal, UNKNOWN_REGION } from '../lib/regions';
+import { formatMoney } from '../lib/currency';
+
+interface RegionPanelProps {
+  totals: RegionTotal[];
+  level: RegionLevel;
+  selected: string | null;
+  currency: string;
+  onLevelChange: (level: RegionLevel) => void;
+  onSelect: (name: string | null) => void;
+}
+
+export const RegionPanel: React.FC<RegionPanelProps> = ({ totals, level, selected, currency, onLevelChange, onSelect }) => {
+  const maxRevenue = Math.max(...totals.map(t => t.revenue), 0);
+  const located = totals.filter(t => t.name !== UNKNOWN_REGION);
+
+  return (
+    <div className="bg-white p-8 rounded-[40px] shadow-xl">
+      <div className="flex items-center gap-3 mb-6">
+        <h3 className="text-xl font-black flex items-center gap-3"><MapPin className="w-5 h-5 text-indigo-500" /> Sales by Region</h3>
+        <div className="ml-auto flex gap-1">
+          {(['state', 'region'] as RegionLevel[]).map(l => (
+            <button key={l} onClick={() => onLevelChange(l)} className={`px-3 py-1 rounded-lg font-black text-[9px] uppercase tracking-wider transition-all ${level === l ? 'bg-indigo-600 text-white' : 'bg-slate-50 text-slate-400'}`}>
+              {l === 'state' ? 'State / Province' : 'Region'}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      {located.length === 0 ? (
+        <p className="text-xs text-slate-300 font-medium text-center py-10">Map a zip / postal code column when importing to see where your customers are.</p>
+      ) : (
+        <table className="w-full text-sm text-left">
+          <thead className="text-slate-400 font-black uppercase text-[10px] tracking-wider">
+            <tr>
+              <th className="py-2 w-8">#</th>
+              <th className="py-2">{level === 'state' ? 'State / Province' : 'Region'}</th>
+              <th className="py-2 text-right">Units</th>
+              <th className="py-2 text-right">Revenue</th>
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-slate-50">
+            {totals.map((t, i) => (
+              <tr
+                key={t.name}
+                onClick={() => onSelect(selected === t.name ? null : t.name)}
+                title={selected === t.name ? 'Show all regions' : `Filter the dashboard to ${t.name}`}
+                className={`cursor-pointer ${selected === t.name ? 'bg-indigo-50/60' : 'hover:bg-slate-50/50'}`}
+              >
+                <td className="py-2 text-[10px] font-black text-slate-300">{i + 1}</td>
+                <td className="py-2">
+                  <p className={`font-bold ${t.name === UNKNOWN_REGION ? 'text-slate-400 italic' : 'text-slate-900'}`}>{t.name}</p>
+                  <div className="h-1 mt-1 bg-slate-50 rounded-full overflow-hidden">
+                    <div className="h-full bg-indigo-400 rounded-full" style={{ width: `${maxRevenue > 0 ? Math.max(0, t.revenue) / maxRevenue * 100 : 0}%` }} />
+                  </div>
+                </td>
+                <td className="py-2 text-right text-slate-500">{t.units.toLocaleString()}</td>
+                <td className="py-2 text-right font-bold text-slate-900">{formatMoney(t.revenue, currency)}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+    </div>
+  );
+};
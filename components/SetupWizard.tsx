@@ -1,25 +1,54 @@
-import React, { useState, useRef } from 'react';
-import { Database, ArrowRight, Loader2, Cloud, Sparkles, History, Upload } from 'lucide-react';
+import React, { useState, useRef, useEffect } from 'react';
+import { Database, ArrowRight, Loader2, Cloud, Upload, Laptop, Plus, RefreshCw, FolderOpen } from 'lucide-react';
 import { GoogleDriveService } from '../lib/googleDrive';
+import { LocalStore } from '../lib/localStore';
 import { MasterRecord } from '../types';
+import { migrateMasterRecord } from '../lib/schema';
+import { formatMoney } from '../lib/currency';
+import { Workspace, combineWorkspaces, listMasterFiles } from '../lib/workspaces';
 
 interface SetupWizardProps {
-  onComplete: (data: string | MasterRecord) => void;
+  onCreate: (name: string) => void;
+  onOpen: (workspace: Workspace) => Promise<void>;
+  onOpenBackup: (master: MasterRecord) => void;
   googleService: GoogleDriveService;
+  localStore: LocalStore;
+  isSignedIn: boolean;
   onAuthenticated: (user: any) => void;
+  initialError?: string | null;
 }
 
-export const SetupWizard: React.FC<SetupWizardProps> = ({ onComplete, googleService, onAuthenticated }) => {
-  const [step, setStep] = useState(1);
+export const SetupWizard: React.FC<SetupWizardProps> = ({
+  onCreate, onOpen, onOpenBackup, googleService, localStore, isSignedIn, onAuthenticated, initialError
+}) => {
+  const [step, setStep] = useState(isSignedIn ? 2 : 1);
   const [fileName, setFileName] = useState('Business Sales History');
   const [isAuthenticating, setIsAuthenticating] = useState(false);
   const [isSearching, setIsSearching] = useState(false);
-  const [error, setError] = useState<string | null>(null);
-  const [foundCloudRecord, setFoundCloudRecord] = useState<MasterRecord | null>(null);
+  const [error, setError] = useState<string | null>(initialError || null);
+  const [workspaces, setWorkspaces] = useState<Workspace[]>([]);
+  const [openingKey, setOpeningKey] = useState<string | null>(null);
   
   const fileInputRef = useRef<HTMLInputElement>(null);
 
-  const MASTER_FILE_NAME = 'Esthetic_Master_Record.json';
+  const loadWorkspaces = async (signedIn: boolean) => {
+    setIsSearching(true);
+    try {
+      const [files, locals] = await Promise.all([
+        signedIn ? listMasterFiles(googleService) : Promise.resolve([]),
+        localStore.listMasters()
+      ]);
+      setWorkspaces(combineWorkspaces(files, locals));
+    } catch (err: any) {
+      setError(err.message || "Could not list your workspaces.");
+    } finally {
+      setIsSearching(false);
+    }
+  };
+
+  useEffect(() => {
+    loadWorkspaces(isSignedIn);
+  }, []);
 
   const handleConnect = async () => {
     setIsAuthenticating(true);
@@ -36,25 +65,29 @@ export const SetupWizard: React.FC<SetupWizardProps> = ({ onComplete, googleServ
       const userData = await response.json();
       onAuthenticated({ name: userData.name, email: userData.email, picture: userData.picture });
       
-      setIsSearching(true);
-      const existingFile = await googleService.findFileByName(MASTER_FILE_NAME);
-      if (existingFile) {
-        const cloudData = await googleService.downloadFile(existingFile.id);
-        if (cloudData && cloudData.id) {
-          setFoundCloudRecord(cloudData);
-        }
-      }
-      setIsSearching(false);
       setStep(2);
+      await loadWorkspaces(true);
     } catch (err: any) {
       console.error(err);
       setError(err.message || "Connection failed. Please check your credentials.");
     } finally { 
       setIsAuthenticating(false); 
-      setIsSearching(false);
     }
   };
 
+  const handleOpen = async (workspace: Workspace) => {
+    setOpeningKey(workspace.key);
+    setError(null);
+    try {
+      await onOpen(workspace);
+    } catch (err: any) {
+      setError(`Could not open "${workspace.name}". ${err.message}`);
+      setOpeningKey(null);
+    }
+  };
+
+  const nameTaken = workspaces.some(w => w.name.trim().toLowerCase() === fileName.trim().toLowerCase());
+
   const handleLocalUpload = (e: React.ChangeEvent<HTMLInputElement>) => {
     const file = e.target.files?.[0];
     if (!file) return;
@@ -62,14 +95,9 @@ export const SetupWizard: React.FC<SetupWizardProps> = ({ onComplete, googleServ
     const reader = new FileReader();
     reader.onload = (event) => {
       try {
-        const json = JSON.parse(event.target?.result as string);
-        if (json.id && json.data) {
-          onComplete(json);
-        } else {
-          setError("Invalid Master Record file.");
-        }
-      } catch (err) {
-        setError("Could not parse file.");
+        onOpenBackup(migrateMasterRecord(event.target?.result as string));
+      } catch (err: any) {
+        setError(err.message || "Could not parse file.");
       }
     };
     reader.readAsText(file);
@@ -111,6 +139,15 @@ export const SetupWizard: React.FC<SetupWizardProps> = ({ onComplete, googleServ
             </button>
             <input type="file" ref={fileInputRef} className="hidden" accept=".json" onChange={handleLocalUpload} />
 
+            {workspaces.length > 0 && (
+              <button 
+                onClick={() => setStep(2)}
+                className="w-full text-slate-400 font-bold py-2 hover:text-indigo-500 transition-all flex items-center justify-center gap-2 text-sm"
+              >
+                <Laptop className="w-4 h-4" /> Open a workspace saved on this device ({workspaces.length})
+              </button>
+            )}
+
             {error && (
               <div className="p-4 bg-red-50 rounded-2xl border border-red-100 mt-4">
                 <p className="text-red-500 font-bold text-xs">{error}</p>
@@ -122,70 +159,77 @@ export const SetupWizard: React.FC<SetupWizardProps> = ({ onComplete, googleServ
       )}
 
       {step === 2 && (
-        <div className="bg-white p-12 rounded-[56px] shadow-2xl border border-slate-100 animate-in fade-in zoom-in duration-500">
-          {isSearching ? (
-             <div className="py-20 flex flex-col items-center">
-               <Loader2 className="w-12 h-12 text-indigo-600 animate-spin mb-4" />
-               <p className="font-black text-slate-400 uppercase tracking-widest text-[10px]">Searching for existing records...</p>
-             </div>
-          ) : foundCloudRecord ? (
-            <>
-              <div className="w-20 h-20 bg-amber-50 rounded-[32px] flex items-center justify-center mx-auto mb-8">
-                <Sparkles className="w-10 h-10 text-amber-500" />
-              </div>
-              <h2 className="text-3xl font-black text-slate-900 mb-2 tracking-tighter">Welcome Back</h2>
-              <p className="text-slate-500 mb-10 font-medium">Found your existing Master Record: <b>{foundCloudRecord.name}</b></p>
-              
-              <div className="bg-slate-50 p-6 rounded-[32px] mb-8 text-left space-y-3">
-                 <div className="flex justify-between items-center">
-                    <span className="text-[10px] font-black text-slate-400 uppercase tracking-widest">Revenue</span>
-                    <span className="text-sm font-black text-slate-900">${foundCloudRecord.totalRevenue.toLocaleString()}</span>
-                 </div>
-                 <div className="flex justify-between items-center">
-                    <span className="text-[10px] font-black text-slate-400 uppercase tracking-widest">Total Sales</span>
-                    <span className="text-sm font-black text-slate-900">{foundCloudRecord.totalSales} records</span>
-                 </div>
-              </div>
+        <div className="bg-white p-12 rounded-[56px] shadow-2xl border border-slate-100 animate-in fade-in zoom-in duration-500 text-left">
+          <div className="w-20 h-20 bg-emerald-50 rounded-[32px] flex items-center justify-center mx-auto mb-8">
+            <Database className="w-10 h-10 text-emerald-600" />
+          </div>
+          <h2 className="text-3xl font-black text-slate-900 mb-2 tracking-tighter text-center">Your Workspaces</h2>
+          <p className="text-slate-500 mb-8 font-medium text-center">Each workspace is a separate sales history with its own file on Drive.</p>
+
+          {error && (
+            <div className="p-4 bg-red-50 rounded-2xl border border-red-100 mb-6">
+              <p className="text-red-500 font-bold text-xs">{error}</p>
+            </div>
+          )}
 
-              <div className="space-y-4">
-                <button 
-                  onClick={() => onComplete(foundCloudRecord)} 
-                  className="w-full bg-indigo-600 text-white font-black py-6 rounded-[32px] shadow-xl text-xl hover:bg-indigo-700 active:scale-95 transition-all flex items-center justify-center gap-3"
+          {isSearching ? (
+            <div className="py-12 flex flex-col items-center">
+              <Loader2 className="w-10 h-10 text-indigo-600 animate-spin mb-4" />
+              <p className="font-black text-slate-400 uppercase tracking-widest text-[10px]">Searching for existing records...</p>
+            </div>
+          ) : (
+            <div className="space-y-3 mb-8">
+              {workspaces.map(workspace => (
+                <button
+                  key={workspace.key}
+                  onClick={() => handleOpen(workspace)}
+                  disabled={!!openingKey}
+                  className="w-full flex items-center gap-4 p-5 rounded-[28px] border-2 border-slate-100 hover:border-indigo-200 hover:bg-indigo-50/30 transition-all disabled:opacity-60"
                 >
-                  <History className="w-5 h-5" /> Resume Business
+                  <div className="w-10 h-10 bg-indigo-50 rounded-2xl flex items-center justify-center shrink-0">
+                    {openingKey === workspace.key ? <Loader2 className="w-5 h-5 text-indigo-500 animate-spin" /> : <FolderOpen className="w-5 h-5 text-indigo-500" />}
+                  </div>
+                  <div className="flex-1 overflow-hidden">
+                    <p className="font-black text-slate-900 truncate">{workspace.name}</p>
+                    <p className="text-[10px] font-bold text-slate-400 uppercase tracking-widest">
+                      {workspace.local ? `${workspace.local.totalSales} records · ${formatMoney(workspace.local.totalRevenue, workspace.local.reportingCurrency)}` : 'Not on this device yet'}
+                    </p>
+                  </div>
+                  <div className="flex gap-1 text-slate-300">
+                    {workspace.file && <span title="On Google Drive"><Cloud className="w-4 h-4" /></span>}
+                    {workspace.local && <span title="Cached on this device"><Laptop className="w-4 h-4" /></span>}
+                  </div>
                 </button>
-                <button 
-                  onClick={() => setFoundCloudRecord(null)} 
-                  className="text-[10px] font-black text-slate-300 uppercase tracking-widest hover:text-red-500 transition-colors"
-                >
-                  or start a new master file
+              ))}
+              {workspaces.length === 0 && (
+                <p className="text-xs text-slate-300 font-medium text-center py-6">No workspaces yet. Create your first one below.</p>
+              )}
+              {isSignedIn && (
+                <button onClick={() => loadWorkspaces(true)} className="w-full flex items-center justify-center gap-2 text-[10px] font-black text-slate-300 uppercase tracking-widest hover:text-indigo-500 transition-colors">
+                  <RefreshCw className="w-3 h-3" /> Refresh
                 </button>
-              </div>
-            </>
-          ) : (
-            <>
-              <div className="w-20 h-20 bg-emerald-50 rounded-[32px] flex items-center justify-center mx-auto mb-8">
-                <Database className="w-10 h-10 text-emerald-600" />
-              </div>
-              <h2 className="text-3xl font-black text-slate-900 mb-2 tracking-tighter">Name Your Record</h2>
-              <p className="text-slate-500 mb-10 font-medium">This is the title of your permanent history file.</p>
-              
-              <input 
-                type="text" 
-                value={fileName} 
-                onChange={(e) => setFileName(e.target.value)} 
-                className="w-full px-8 py-6 rounded-[32px] border-4 border-slate-50 focus:border-indigo-500 text-center text-2xl font-black outline-none mb-8 bg-slate-50/50 transition-all"
-                placeholder="e.g. My Shop History" 
-              />
-              
-              <button 
-                onClick={() => onComplete(fileName)} 
-                className="w-full bg-slate-900 text-white font-black py-6 rounded-[32px] shadow-xl text-xl hover:bg-black active:scale-95 transition-all"
-              >
-                Start Dashboard
-              </button>
-            </>
+              )}
+            </div>
           )}
+
+          <div className="pt-8 border-t border-slate-100">
+            <p className="text-[10px] font-black text-slate-400 uppercase tracking-widest mb-3">New workspace</p>
+            <input 
+              type="text" 
+              value={fileName} 
+              onChange={(e) => setFileName(e.target.value)} 
+              className="w-full px-6 py-4 rounded-[24px] border-4 border-slate-50 focus:border-indigo-500 text-lg font-black outline-none mb-2 bg-slate-50/50 transition-all"
+              placeholder="e.g. My Shop History" 
+            />
+            {nameTaken && <p className="text-xs font-bold text-amber-500 mb-2">A workspace with this name already exists.</p>}
+            <button 
+              onClick={() => onCreate(fileName.trim())} 
+              disabled={!fileName.trim() || nameTaken || !!openingKey}
+              className="w-full mt-2 bg-slate-900 text-white font-black py-5 rounded-[24px] shadow-xl text-lg hover:bg-black active:scale-95 transition-all flex items-center justify-center gap-2 disabled:opacity-50"
+            >
+              <Plus className="w-5 h-5" /> Create Workspace
+            </button>
+          </div>
         </div>
       )}
     </div>
@@ -0,0 +1,65 @@
+import React, { useState } from 'react';
+import { Sheet, RefreshCw, ExternalLink, Loader2 } from 'lucide-react';
+import { SheetCopy } from '../types';
+
+interface SheetCopyPanelProps {
+  sheetCopy?: SheetCopy;
+  canPublish: boolean;           // Signed in to Google Drive
+  onPublish: () => Promise<void>;
+  onUnlink: () => void;
+}
+
+export const SheetCopyPanel: React.FC<SheetCopyPanelProps> = ({ sheetCopy, canPublish, onPublish, onUnlink }) => {
+  const [publishing, setPublishing] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handlePublish = async () => {
+    setPublishing(true);
+    setError(null);
+    try {
+      await onPublish();
+    } catch (err: any) {
+      setError(err.message || 'Could not publish the Google Sheet.');
+    } finally {
+      setPublishing(false);
+    }
+  };
+
+  const handleUnlink = () => {
+    if (confirm('Stop updating the Google Sheets copy? The spreadsheet stays in your Drive.')) onUnlink();
+  };
+
+  return (
+    <div className="bg-white rounded-[40px] p-8 border border-slate-100 shadow-xl">
+      <div className="flex flex-col md:flex-row md:items-center justify-between gap-4">
+        <div>
+          <h3 className="text-xl font-black flex items-center gap-3">
+            <Sheet className="w-5 h-5 text-emerald-500" /> Google Sheets Copy
+          </h3>
+          <p className="text-sm text-slate-500 font-medium">
+            {sheetCopy
+              ? 'A readable copy with Sales, Products and Monthly tabs, updated after every sync.'
+              : 'Keep a spreadsheet alongside the master record that anyone on the team can open, with Sales, Products and Monthly tabs.'}
+          </p>
+        </div>
+        <div className="flex items-center gap-2 shrink-0">
+          {sheetCopy && (
+            <a href={sheetCopy.url} target="_blank" rel="noreferrer" className="flex items-center gap-2 px-4 py-3 text-emerald-600 font-black text-[10px] uppercase tracking-wider hover:underline">
+              Open <ExternalLink className="w-4 h-4" />
+            </a>
+          )}
+          <button onClick={handlePublish} disabled={!canPublish || publishing} title={canPublish ? undefined : 'Sign in to Google Drive first'} className="flex items-center gap-2 px-5 py-3 bg-emerald-600 text-white rounded-xl font-black text-[10px] uppercase tracking-wider disabled:opacity-50">
+            {publishing ? <Loader2 className="w-4 h-4 animate-spin" /> : <RefreshCw className="w-4 h-4" />}
+            {sheetCopy ? 'Update Now' : 'Publish'}
+          </button>
+          {sheetCopy && (
+            <button onClick={handleUnlink} className="px-4 py-3 text-slate-400 font-black text-[10px] uppercase tracking-wider hover:text-red-500">
+              Stop
+            </button>
+          )}
+        </div>
+      </div>
+      {error && <p className="mt-4 text-xs font-bold text-red-500">{error}</p>}
+    </div>
+  );
+};
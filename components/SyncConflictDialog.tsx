@@ -0,0 +1,73 @@
+import React, { useState } from 'react';
+import { GitMerge, Laptop, Cloud } from 'lucide-react';
+import { ConflictChoice, SyncConflict } from '../lib/cloudSync';
+
+interface SyncConflictDialogProps {
+  conflicts: SyncConflict[];
+  onResolve: (choices: Record<string, ConflictChoice>) => void;
+}
+
+const conflictId = (c: SyncConflict) => `${c.type}:${c.key}`;
+
+const describe = (c: SyncConflict, value: any) => {
+  if (value === undefined) return 'Deleted';
+  if (c.type === 'sale') return `${value.date} · ${value.product} · x${value.quantity} · ${Number(value.amount).toFixed(2)}${value.currency ? ` ${value.currency}` : ''}`;
+  if (c.type === 'import') return `${value.rowCount} rows · ${new Date(value.importedAt).toLocaleString()}`;
+  if (c.type === 'entry' && value.name) return `${value.name} · updated ${new Date(value.updatedAt || Date.now()).toLocaleString()}`;
+  return typeof value === 'object' ? JSON.stringify(value) : String(value);
+};
+
+export const SyncConflictDialog: React.FC<SyncConflictDialogProps> = ({ conflicts, onResolve }) => {
+  const [choices, setChoices] = useState<Record<string, ConflictChoice>>({});
+
+  const setAll = (choice: ConflictChoice) =>
+    setChoices(Object.fromEntries(conflicts.map(c => [conflictId(c), choice])));
+
+  return (
+    <div className="fixed inset-0 bg-slate-900/60 backdrop-blur-md z-[300] flex items-center justify-center p-4">
+      <div className="bg-white rounded-[40px] w-full max-w-3xl shadow-2xl overflow-hidden flex flex-col max-h-[85vh]">
+        <div className="p-8 border-b border-slate-100 bg-amber-50/40">
+          <h3 className="text-2xl font-black text-slate-900 flex items-center gap-3"><GitMerge className="w-6 h-6 text-amber-500" /> Resolve Sync Conflicts</h3>
+          <p className="text-slate-500 text-sm font-medium">
+            Someone else saved this master on Drive while you were working. Everything else was merged;
+            choose which version to keep for the {conflicts.length} {conflicts.length === 1 ? 'item' : 'items'} changed on both sides.
+          </p>
+        </div>
+        <div className="overflow-auto flex-1 divide-y divide-slate-100">
+          {conflicts.map(c => {
+            const id = conflictId(c);
+            const choice = choices[id] || 'local';
+            return (
+              <div key={id} className="p-6 space-y-3">
+                <p className="text-sm font-bold text-slate-900">{c.label}</p>
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+                  {(['local', 'remote'] as ConflictChoice[]).map(side => (
+                    <button
+                      key={side}
+                      onClick={() => setChoices({ ...choices, [id]: side })}
+                      className={`text-left p-4 rounded-2xl border-2 transition-all ${choice === side ? 'border-indigo-300 bg-indigo-50/50' : 'border-slate-100 hover:border-slate-200'}`}
+                    >
+                      <p className="text-[10px] font-black uppercase tracking-widest text-slate-400 flex items-center gap-2 mb-1">
+                        {side === 'local' ? <><Laptop className="w-3 h-3" /> This device</> : <><Cloud className="w-3 h-3" /> Google Drive</>}
+                      </p>
+                      <p className="text-xs font-medium text-slate-700 break-words">{describe(c, side === 'local' ? c.local : c.remote)}</p>
+                    </button>
+                  ))}
+                </div>
+              </div>
+            );
+          })}
+        </div>
+        <div className="p-8 bg-slate-50 flex items-center gap-4">
+          <div className="flex-1 flex gap-4 text-[10px] font-black uppercase tracking-widest">
+            <button onClick={() => setAll('local')} className="text-indigo-500">Keep All Mine</button>
+            <button onClick={() => setAll('remote')} className="text-slate-400">Keep All From Drive</button>
+          </div>
+          <button onClick={() => onResolve(choices)} className="px-8 py-4 bg-indigo-600 text-white font-black rounded-2xl">
+            Merge & Sync
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
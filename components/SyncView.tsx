@@ -1,53 +1,74 @@
-import React, { useState, useRef } from 'react';
+import React, { useState, useRef, useEffect, useMemo } from 'react';
 import { 
-  Upload, CheckCircle2, Loader2, AlertCircle, Eye, ExternalLink, X, Sparkles 
+  Upload, CheckCircle2, Loader2, AlertCircle, Eye, ExternalLink, X, Sparkles, Copy, Layers, Trash2 
 } from 'lucide-react';
-import { MasterRecord, SaleRecord } from '../types';
-import { GoogleDriveService } from '../lib/googleDrive';
+import { DateOrder, DecimalSeparator, DriveFolder, MappingProfile, MasterRecord, SaleRecord } from '../types';
+import { DriveFileMeta, FOLDER_MIME_TYPE, GoogleDriveService } from '../lib/googleDrive';
+import { DuplicateMatch, findDuplicates } from '../lib/dedup';
+import {
+  DATE_FORMAT_LABELS, DECIMAL_SEPARATOR_LABELS, MAPPING_FIELDS, MAPPING_FIELD_LABELS, OPTIONAL_MAPPING_FIELDS, buildSales, detectDateFormat, detectDecimalSeparator, enrichSales, needsEnrichment, parseDateValue
+} from '../lib/ingest';
+import { SheetTable, readWorkbookTables } from '../lib/workbook';
+import { createProfile, defaultProfileName, findProfileForHeaders, headerFingerprint } from '../lib/mappingProfiles';
+import { ImportSource } from '../lib/masterRecord';
+import { COMMON_CURRENCIES, formatMoney } from '../lib/currency';
+import { assignableCategories } from '../lib/categories';
+import { RecordMutation } from '../lib/records';
+import { AiProvider } from '../lib/ai';
+import { newInboxFiles } from '../lib/inbox';
+import { ImportHistory } from './ImportHistory';
+import { RecordsEditor } from './RecordsEditor';
+import { DriveInbox } from './DriveInbox';
+import { SheetCopyPanel } from './SheetCopyPanel';
 import * as XLSX from 'xlsx';
 
 interface SyncViewProps {
   master: MasterRecord;
-  onSync: (sales: SaleRecord[], schema?: any, fileName?: string) => number | undefined;
+  onSync: (sales: SaleRecord[], source: ImportSource) => number | undefined;
+  onRollback: (batchId: string) => void;
+  onDeleteProfile: (profileId: string) => void;
+  onEditRecords: (mutation: RecordMutation) => void;
+  onSetInbox: (folder: DriveFolder | undefined) => void;
+  claimInboxAutoImport: () => boolean;   // True once per workspace per app session
+  onPublishSheet: () => Promise<void>;
+  onUnlinkSheet: () => void;
   googleService: GoogleDriveService | null;
+  isSignedIn: boolean;
+  ai: AiProvider;
 }
 
-export const SyncView: React.FC<SyncViewProps> = ({ master, onSync, googleService }) => {
+export const SyncView: React.FC<SyncViewProps> = ({ master, onSync, onRollback, onDeleteProfile, onEditRecords, onSetInbox, claimInboxAutoImport, onPublishSheet, onUnlinkSheet, googleService, isSignedIn, ai }) => {
   const [isProcessing, setIsProcessing] = useState(false);
   const [processingStep, setProcessingStep] = useState<string>('');
-  const [syncStatus, setSyncStatus] = useState<{ success: boolean; count: number } | null>(null);
+  const [syncStatus, setSyncStatus] = useState<{ success: boolean; count: number; skipped: number; warnings: string[]; profiles: string[] } | null>(null);
   const [error, setError] = useState<string | null>(null);
-  const [pendingData, setPendingData] = useState<{ json: any[], fileName: string } | null>(null);
+  const [pendingData, setPendingData] = useState<{ json: any[], headers: string[], fileName: string, sheetName?: string } | null>(null);
   const [manualMapping, setManualMapping] = useState<any>(null);
+  const [profileChoice, setProfileChoice] = useState<{ id: string, name: string }>({ id: '', name: '' });
   const [showPreview, setShowPreview] = useState(false);
+  const [pendingReview, setPendingReview] = useState<{
+    unique: SaleRecord[], duplicates: DuplicateMatch[], source: ImportSource, warnings: string[]
+  } | null>(null);
+  const [keepDuplicateIds, setKeepDuplicateIds] = useState<Set<string>>(new Set());
+  const [pendingWorkbook, setPendingWorkbook] = useState<{ fileName: string, tables: SheetTable[] } | null>(null);
+  const [selectedTables, setSelectedTables] = useState<Set<string>>(new Set());
+  const [tableQueue, setTableQueue] = useState<{ sourceName: string, table: SheetTable }[]>([]);
+  const [inboxFiles, setInboxFiles] = useState<DriveFileMeta[] | null>(null);
+  const [inboxChecking, setInboxChecking] = useState(false);
+  const [inboxError, setInboxError] = useState<string | null>(null);
   
   const fileInputRef = useRef<HTMLInputElement>(null);
 
-  // Helper for Direct API Calls (Bypassing Library)
-  const callGeminiDirect = async (prompt: string): Promise<string> => {
-    const apiKey = import.meta.env.VITE_GEMINI_API_KEY;
-    if (!apiKey) throw new Error("API Key missing");
+  const newInbox = useMemo(() => newInboxFiles(master, inboxFiles || []), [master, inboxFiles]);
 
-    const url = `https://generativelanguage.googleapis.com/v1beta/models/gemini-1.5-flash:generateContent?key=${apiKey}`;
-    
-    const response = await fetch(url, {
-      method: 'POST',
-      headers: { 'Content-Type': 'application/json' },
-      body: JSON.stringify({
-        contents: [{ parts: [{ text: prompt }] }],
-        generationConfig: { responseMimeType: "application/json" }
-      })
-    });
-
-    if (!response.ok) throw new Error(`Gemini API Error: ${response.statusText}`);
-    
-    const data = await response.json();
-    return data.candidates?.[0]?.content?.parts?.[0]?.text || "{}";
-  };
+  // Multi-table workbooks import each table as its own batch, keyed "file [sheet]".
+  const tableSourceName = (fileName: string, table: SheetTable, tableCount: number) =>
+    tableCount > 1 ? `${fileName} [${table.name}]` : fileName;
 
   const processData = async (data: any, fileName: string) => {
     setIsProcessing(true);
     setError(null);
+    setSyncStatus(null);
     setProcessingStep('Reading report content...');
     
     try {
@@ -56,179 +77,287 @@ export const SyncView: React.FC<SyncViewProps> = ({ master, onSync, googleServic
       }
 
       const workbook = XLSX.read(data, { type: 'binary', cellDates: true });
-      const sheetName = workbook.SheetNames[0];
-      const json = XLSX.utils.sheet_to_json(workbook.Sheets[sheetName], { defval: "" }) as any[];
+      const tables = readWorkbookTables(workbook);
+
+      if (tables.length === 0) throw new Error("The selected file appears to be empty.");
+
+      if (tables.length === 1) {
+        setIsProcessing(false);
+        setTableQueue([{ sourceName: fileName, table: tables[0] }]);
+        return;
+      }
+
+      const notYetSynced = tables.filter(t => !master.syncedFiles?.includes(tableSourceName(fileName, t, tables.length)));
+      if (notYetSynced.length === 0) throw new Error(`Every sheet in "${fileName}" has already been synced.`);
+      setSelectedTables(new Set(notYetSynced.map(t => t.name)));
+      setPendingWorkbook({ fileName, tables });
+      setIsProcessing(false);
+    } catch (err: any) {
+      setError(err.message || "Could not read file.");
+      setIsProcessing(false);
+    }
+  };
+
+  const confirmSheetSelection = () => {
+    if (!pendingWorkbook) return;
+    const { fileName, tables } = pendingWorkbook;
+    setPendingWorkbook(null);
+    setTableQueue(tables
+      .filter(t => selectedTables.has(t.name))
+      .map(table => ({ sourceName: tableSourceName(fileName, table, tables.length), table })));
+  };
+
+  const toggleTable = (name: string) => {
+    const next = new Set(selectedTables);
+    if (next.has(name)) next.delete(name); else next.add(name);
+    setSelectedTables(next);
+  };
+
+  // Works through selected tables one at a time, waiting for any mapping or
+  // duplicate review to finish so each table sees the master the last one produced.
+  useEffect(() => {
+    if (tableQueue.length === 0 || isProcessing || pendingData || pendingReview || error) return;
+    const [next, ...rest] = tableQueue;
+    setTableQueue(rest);
+    processTable(next.table, next.sourceName);
+  }, [tableQueue, isProcessing, pendingData, pendingReview, error]);
 
-      if (json.length === 0) throw new Error("The selected file appears to be empty.");
+  const processTable = async (table: SheetTable, sourceName: string) => {
+    setIsProcessing(true);
+    setProcessingStep(`Reading ${table.name}...`);
 
-      let mapping = master.mappingSchema;
+    try {
+      const json = table.rows;
+      const sheetName = sourceName === table.sheetName ? undefined : table.name;
+
+      // Reuse the profile saved for this report layout, if there is one
+      const matched = findProfileForHeaders(master.mappingProfiles, table.headers);
+      let mapping: any = matched?.mapping;
       
       // 1. Initial Auto-Mapping
       if (!mapping) {
         setProcessingStep('AI is mapping your columns...');
         try {
-          const prompt = `
-            Identify column headers for: date, product, amount, category, quantity. 
-            Columns available: ${Object.keys(json[0]).join(', ')}
-            Return JSON only.
-          `;
-          
-          const jsonText = await callGeminiDirect(prompt);
-          const cleanJson = jsonText.replace(/```json/g, '').replace(/```/g, '').trim();
-          mapping = JSON.parse(cleanJson);
+          mapping = await ai.mapColumns(table.headers);
         } catch (apiErr: any) {
-          console.error("Gemini AI Error:", apiErr);
+          console.error(`${ai.name} mapping error:`, apiErr);
         }
       }
 
+      const openMappingModal = (draft: any) => {
+        setPendingData({ json, headers: table.headers, fileName: sourceName, sheetName });
+        setManualMapping(draft);
+        setProfileChoice({ id: matched?.id || '', name: matched?.name || defaultProfileName(sheetName || sourceName) });
+        setIsProcessing(false);
+      };
+
       // 2. Fallback to Manual Mapping
       if (!mapping || !mapping.date || !mapping.product) {
-        setPendingData({ json, fileName });
-        setManualMapping({ date: '', product: '', amount: '', category: '', quantity: '' });
-        setIsProcessing(false);
+        openMappingModal({ date: '', product: '', amount: '', category: '', quantity: '' });
         return;
       }
 
-      await finalizeProcess(json, mapping, fileName);
+      // 3. Date format - ask when the samples can't tell 03/04 from 04/03
+      if (!mapping.dateFormat) {
+        const detection = detectDateFormat(json.map(row => row[mapping.date]));
+        mapping = { ...mapping, dateFormat: detection.order };
+        if (detection.ambiguous) {
+          openMappingModal(mapping);
+          return;
+        }
+      }
+
+      const profile = matched
+        ? { ...matched, mapping }
+        : createProfile(defaultProfileName(sheetName || sourceName), table.headers, mapping);
+      await finalizeProcess(json, { fileName: sourceName, sheetName, profile });
     } catch (err: any) {
       setError(err.message || "Mapping failed.");
+      setTableQueue([]);
       setIsProcessing(false);
     }
   };
 
-  const finalizeProcess = async (json: any[], mapping: any, fileName: string) => {
+  const finalizeProcess = async (json: any[], source: ImportSource) => {
+    const { fileName, profile: { mapping } } = source;
     try {
       setProcessingStep('Building master records...');
-      
-      const parseDate = (val: any) => {
-        if (!val) return new Date().toLocaleDateString("en-CA");
-        if (typeof val === 'number') {
-           if (val > 25569) {
-             const dateObj = new Date(Math.round((val - 25569) * 86400 * 1000));
-             const y = dateObj.getUTCFullYear();
-             const m = String(dateObj.getUTCMonth() + 1).padStart(2, '0');
-             const d = String(dateObj.getUTCDate()).padStart(2, '0');
-             return `${y}-${m}-${d}`;
-           }
-        }
-        const str = String(val).trim();
-        const currentYear = new Date().getFullYear();
-        const monthDayRegex = /^([A-Za-z]{3})[\s-./]+(\d{1,2})$/i;
-        const match = str.match(monthDayRegex);
-
-        if (match) {
-          const months: {[key: string]: number} = {
-            jan:0, feb:1, mar:2, apr:3, may:4, jun:5, jul:6, aug:7, sep:8, oct:9, nov:10, dec:11
-          };
-          const mStr = match[1].toLowerCase();
-          const dNum = parseInt(match[2]);
-          if (months[mStr] !== undefined) {
-             const d = new Date(currentYear, months[mStr], dNum, 12, 0, 0);
-             return d.toISOString().split('T')[0];
-          }
-        }
-        
-        let dateToParse = str;
-        if (!/\d{4}/.test(str)) dateToParse = `${str} ${currentYear}`;
-        const d = new Date(dateToParse);
-        if (!isNaN(d.getTime())) {
-          if (d.getFullYear() < 2010) d.setFullYear(currentYear);
-          const y = d.getFullYear();
-          const m = String(d.getMonth() + 1).padStart(2, '0');
-          const day = String(d.getDate()).padStart(2, '0');
-          return `${y}-${m}-${day}`;
-        }
-        return new Date().toISOString().split('T')[0];
-      };
 
       // 1. Initial Parse
-      let parsedSales: SaleRecord[] = json
-        .map((item, idx) => {
-          const rawAmount = item[mapping.amount];
-          const cleanAmount = typeof rawAmount === 'string' 
-            ? parseFloat(rawAmount.replace(/[^0-9.-]+/g, "")) 
-            : parseFloat(rawAmount || 0);
-          
-          const rawProduct = String(item[mapping.product] || 'Unknown');
-          const rawCategory = mapping.category ? String(item[mapping.category] || 'General') : 'General';
-
-          return {
-            id: `${fileName}-${idx}-${Date.now()}`,
-            date: parseDate(item[mapping.date]),
-            product: rawProduct,
-            category: rawCategory,
-            amount: isNaN(cleanAmount) ? 0 : cleanAmount,
-            quantity: parseInt(item[mapping.quantity]) || 1,
-          };
-        })
-        .filter(s => s.amount > 0 || (s.product !== 'Unknown' && s.product !== ''));
-
-      // 2. AI ENRICHMENT (Categorization) - Using Direct Fetch
-      const needsEnrichment = !mapping.category || parsedSales.some(s => s.category === 'General');
-      
-      if (needsEnrichment) {
-        setProcessingStep('AI is categorizing your jewelry...');
-        
-        const uniqueProducts = [...new Set(parsedSales.map(s => s.product))];
-        const batchSize = 50; 
-        const batches = [];
-        for (let i = 0; i < uniqueProducts.length; i += batchSize) {
-           batches.push(uniqueProducts.slice(i, i + batchSize));
-        }
+      const { accepted, warnings } = buildSales(json, mapping, { fileName });
+      let parsedSales = accepted;
 
-        const enrichmentMap: Record<string, { category: string, cleanName: string }> = {};
-
-        for (const batch of batches) {
-          try {
-             const prompt = `
-               You are a jewelry inventory assistant. 
-               Task: Map each input to a category and a clean name.
-               
-               Allowed Categories: [Rings, Bracelets, Necklaces, Pendants, Earrings, Anklets, Charms, Sets, Other]
-               
-               Rules:
-               1. Clean Name must remove sizes (e.g., "Size 7") or metal types (e.g., "14k") if it makes the name cleaner.
-               2. If an item doesn't fit, use "Other".
-               
-               Input List: ${JSON.stringify(batch)}
-               
-               Return ONLY a JSON object where keys are the exact input strings.
-               Example: { "Gold Ring Sz 6": { "category": "Rings", "cleanName": "Gold Ring" } }
-             `;
-
-             const jsonText = await callGeminiDirect(prompt);
-             const cleanJson = jsonText.replace(/```json/g, '').replace(/```/g, '').trim();
-             const batchResult = JSON.parse(cleanJson);
-             Object.assign(enrichmentMap, batchResult);
-          } catch (e) {
-             console.error("Batch enrichment failed", e);
-          }
-        }
-
-        parsedSales = parsedSales.map(sale => {
-           const enriched = enrichmentMap[sale.product];
-           if (enriched) {
-             return { 
-               ...sale, 
-               category: enriched.category || sale.category,
-             };
-           }
-           return sale;
-        });
+      // 2. AI ENRICHMENT (Categorization)
+      if (needsEnrichment(parsedSales, mapping)) {
+        setProcessingStep('AI is categorizing your products...');
+        const enrichment = await enrichSales(parsedSales, ai, assignableCategories(master.categories));
+        parsedSales = enrichment.sales;
+        source.cleanNames = enrichment.cleanNames;
       }
 
       if (parsedSales.length === 0) throw new Error("No data found.");
 
-      const addedCount = onSync(parsedSales, mapping, fileName);
-      setSyncStatus({ success: true, count: addedCount || parsedSales.length });
+      // 3. DUPLICATE CHECK - hold overlapping rows back for review
+      setProcessingStep('Checking for duplicate sales...');
+      const { unique, duplicates } = findDuplicates(master.data, parsedSales);
       setPendingData(null);
+
+      if (duplicates.length > 0) {
+        setKeepDuplicateIds(new Set());
+        setPendingReview({ unique, duplicates, source, warnings });
+        return;
+      }
+
+      commitSales(unique, 0, source, warnings);
     } catch (err: any) {
       setError(err.message || "Sync failed.");
+      setTableQueue([]);
+    } finally {
+      setIsProcessing(false);
+    }
+  };
+
+  const commitSales = (sales: SaleRecord[], skipped: number, source: ImportSource, warnings: string[] = []) => {
+    const addedCount = sales.length > 0 ? (onSync(sales, source) || sales.length) : 0;
+    const label = source.sheetName || source.fileName;
+    setSyncStatus(prev => ({
+      success: true,
+      count: (prev?.count || 0) + addedCount,
+      skipped: (prev?.skipped || 0) + skipped,
+      warnings: [...(prev?.warnings || []), ...warnings.map(w => `${label}: ${w}`)],
+      profiles: [...new Set([...(prev?.profiles || []), source.profile.name])]
+    }));
+  };
+
+  const confirmReview = () => {
+    if (!pendingReview) return;
+    const kept = pendingReview.duplicates
+      .filter(d => keepDuplicateIds.has(d.sale.id))
+      .map(d => d.sale);
+    const { unique, duplicates, source, warnings } = pendingReview;
+    setPendingReview(null);
+    commitSales([...unique, ...kept], duplicates.length - kept.length, source, warnings);
+  };
+
+  // An existing profile is updated in place when it describes this layout
+  // (or only knew columns); otherwise the mapping is saved as a new profile.
+  const confirmMapping = () => {
+    if (!pendingData) return;
+    const { json, headers, fileName, sheetName } = pendingData;
+    const name = profileChoice.name.trim() || defaultProfileName(sheetName || fileName);
+    const existing = master.mappingProfiles.find(p => p.id === profileChoice.id);
+    const fingerprint = headerFingerprint(headers);
+    const profile: MappingProfile = existing && (!existing.headerFingerprint || existing.headerFingerprint === fingerprint)
+      ? { ...existing, name, headers, headerFingerprint: fingerprint, mapping: manualMapping }
+      : createProfile(name, headers, manualMapping);
+    finalizeProcess(json, { fileName, sheetName, profile });
+  };
+
+  const selectProfile = (id: string) => {
+    const profile = master.mappingProfiles.find(p => p.id === id);
+    if (!profile || !pendingData) {
+      setProfileChoice({ id: '', name: defaultProfileName(pendingData?.sheetName || pendingData?.fileName || '') });
+      return;
+    }
+    // Only columns this file actually has carry over from the template
+    const mapping: any = {
+      dateFormat: profile.mapping.dateFormat,
+      decimalSeparator: profile.mapping.decimalSeparator,
+      defaultCurrency: profile.mapping.defaultCurrency
+    };
+    MAPPING_FIELDS.forEach(field => {
+      mapping[field] = pendingData.headers.includes(profile.mapping[field]) ? profile.mapping[field] : '';
+    });
+    setManualMapping(mapping);
+    setProfileChoice({ id: profile.id, name: profile.name });
+  };
+
+  const deleteSelectedProfile = () => {
+    const profile = master.mappingProfiles.find(p => p.id === profileChoice.id);
+    if (!profile || !window.confirm(`Delete the "${profile.name}" mapping profile? Past imports are not affected.`)) return;
+    onDeleteProfile(profile.id);
+    setProfileChoice({ id: '', name: profile.name });
+  };
+
+  const dateDetection = useMemo(() => {
+    if (!pendingData || !manualMapping?.date) return null;
+    return detectDateFormat(pendingData.json.map(row => row[manualMapping.date]));
+  }, [pendingData, manualMapping?.date]);
+
+  const decimalDetection = useMemo(() => {
+    if (!pendingData || !manualMapping?.amount) return null;
+    return detectDecimalSeparator(pendingData.json.map(row => row[manualMapping.amount]));
+  }, [pendingData, manualMapping?.amount]);
+
+  const handleMappingChange = (field: string, column: string) => {
+    const next = { ...manualMapping, [field]: column };
+    if (field === 'date' && pendingData && column) {
+      next.dateFormat = detectDateFormat(pendingData.json.map(row => row[column])).order;
+    }
+    setManualMapping(next);
+  };
+
+  const toggleKeepDuplicate = (id: string) => {
+    const next = new Set(keepDuplicateIds);
+    if (next.has(id)) next.delete(id); else next.add(id);
+    setKeepDuplicateIds(next);
+  };
+
+  const checkInbox = async (folder: DriveFolder): Promise<DriveFileMeta[]> => {
+    if (!googleService?.getStoredToken()) return [];
+    setInboxChecking(true);
+    setInboxError(null);
+    try {
+      const files = await googleService.listFolderFiles(folder.id);
+      setInboxFiles(files);
+      return files;
+    } catch (err: any) {
+      setInboxError(err.message || "Could not check the inbox folder.");
+      return [];
+    } finally {
+      setInboxChecking(false);
+    }
+  };
+
+  // Downloads each report and queues its unsynced tables. With savedLayoutsOnly,
+  // tables no mapping profile recognises are left for the user to import by hand.
+  const importInboxFiles = async (files: DriveFileMeta[], savedLayoutsOnly = false) => {
+    if (!googleService || files.length === 0) return;
+    setIsProcessing(true);
+    setError(null);
+    setSyncStatus(null);
+    const queue: { sourceName: string, table: SheetTable }[] = [];
+    try {
+      for (const file of files) {
+        setProcessingStep(`Downloading ${file.name}...`);
+        const blob = await googleService.downloadFile(file.id, file.mimeType);
+        if (!(blob instanceof Blob)) throw new Error(`"${file.name}" is not a spreadsheet.`);
+        const tables = readWorkbookTables(XLSX.read(await blob.arrayBuffer(), { type: 'array', cellDates: true }));
+        tables.forEach(table => {
+          const sourceName = tableSourceName(file.name, table, tables.length);
+          if (master.syncedFiles?.includes(sourceName)) return;
+          if (savedLayoutsOnly && !findProfileForHeaders(master.mappingProfiles, table.headers)) return;
+          queue.push({ sourceName, table });
+        });
+      }
+      setTableQueue(queue);
+    } catch (err: any) {
+      setError(`Inbox import failed: ${err.message}`);
     } finally {
       setIsProcessing(false);
     }
   };
 
+  // Re-checked whenever the folder changes or Drive access arrives. The first
+  // check of the session imports new reports that have a known layout.
+  useEffect(() => {
+    setInboxFiles(null);
+    if (!master.inboxFolder || !isSignedIn) return;
+    checkInbox(master.inboxFolder).then(files => {
+      if (files.length > 0 && claimInboxAutoImport()) importInboxFiles(newInboxFiles(master, files), true);
+    });
+  }, [master.inboxFolder?.id, isSignedIn]);
+
   const handleDrivePick = async () => {
     if (!googleService) return;
     setError(null);
@@ -240,6 +369,12 @@ export const SyncView: React.FC<SyncViewProps> = ({ master, onSync, googleServic
         setIsProcessing(false);
       }
       googleService.openPicker(token, async (file) => {
+        if (file.mimeType === FOLDER_MIME_TYPE) {
+          // A folder picked by hand is listed for review, not imported straight away
+          claimInboxAutoImport();
+          onSetInbox({ id: file.id, name: file.name });
+          return;
+        }
         setIsProcessing(true);
         setProcessingStep(`Importing ${file.name}...`);
         try {
@@ -265,42 +400,16 @@ export const SyncView: React.FC<SyncViewProps> = ({ master, onSync, googleServic
            <div className="bg-white rounded-[32px] w-full max-w-4xl shadow-2xl overflow-hidden flex flex-col max-h-[85vh]">
               <div className="p-6 border-b border-slate-100 flex justify-between items-center bg-slate-50">
                  <div>
-                    <h3 className="text-xl font-black text-slate-900">Database Preview</h3>
-                    <p className="text-sm text-slate-500 font-medium">Viewing {master.data.length} records</p>
+                    <h3 className="text-xl font-black text-slate-900">Sales Records</h3>
+                    <p className="text-sm text-slate-500 font-medium">{master.data.length} records · {formatMoney(master.totalRevenue, master.reportingCurrency, true)} total</p>
                  </div>
                  <button onClick={() => setShowPreview(false)} className="w-10 h-10 flex items-center justify-center rounded-full hover:bg-slate-200 transition-colors">
                     <X className="w-5 h-5 text-slate-500" />
                  </button>
               </div>
-              <div className="overflow-auto flex-1 p-0">
-                 <table className="w-full text-sm text-left">
-                    <thead className="bg-slate-50 text-slate-400 font-black uppercase text-[10px] tracking-wider sticky top-0 z-10">
-                       <tr>
-                          <th className="px-6 py-4">Date</th>
-                          <th className="px-6 py-4">Product</th>
-                          <th className="px-6 py-4">Category</th>
-                          <th className="px-6 py-4">Qty</th>
-                          <th className="px-6 py-4 text-right">Amount</th>
-                       </tr>
-                    </thead>
-                    <tbody className="divide-y divide-slate-100">
-                       {master.data.slice().reverse().slice(0, 50).map((row, i) => (
-                          <tr key={i} className="hover:bg-slate-50/50">
-                             <td className="px-6 py-3 font-bold text-slate-600 whitespace-nowrap">{row.date}</td>
-                             <td className="px-6 py-3 font-medium text-slate-900">{row.product}</td>
-                             <td className="px-6 py-3 text-slate-500">{row.category}</td>
-                             <td className="px-6 py-3 text-slate-500">{row.quantity}</td>
-                             <td className="px-6 py-3 font-bold text-slate-900 text-right">${row.amount.toFixed(2)}</td>
-                          </tr>
-                       ))}
-                       {master.data.length === 0 && (
-                          <tr><td colSpan={5} className="px-6 py-12 text-center text-slate-400 font-medium">No records found.</td></tr>
-                       )}
-                    </tbody>
-                 </table>
-              </div>
+              <RecordsEditor master={master} onMutate={onEditRecords} />
               <div className="p-6 border-t border-slate-100 flex justify-between items-center bg-slate-50">
-                 <p className="text-xs font-bold text-slate-400">* Showing last 50 entries</p>
+                 <p className="text-xs font-bold text-slate-400">Changes are saved and synced as you make them.</p>
                  {master.googleFileUrl && (
                     <a href={master.googleFileUrl} target="_blank" rel="noreferrer" className="flex items-center gap-2 text-indigo-600 font-black text-sm hover:underline">
                        Open in Google Drive <ExternalLink className="w-4 h-4" />
@@ -316,29 +425,195 @@ export const SyncView: React.FC<SyncViewProps> = ({ master, onSync, googleServic
           <div className="bg-white rounded-[40px] w-full max-w-xl shadow-2xl overflow-hidden">
             <div className="p-8 border-b border-slate-100 bg-indigo-50/20">
               <h3 className="text-2xl font-black text-slate-900">Confirm Columns</h3>
-              <p className="text-slate-500 text-sm font-medium">Please match headers for <b>{pendingData.fileName}</b></p>
+              <p className="text-slate-500 text-sm font-medium">Please match headers for <b>{pendingData.sheetName || pendingData.fileName}</b></p>
             </div>
             <div className="p-8 space-y-4 max-h-[50vh] overflow-y-auto">
-               {['date', 'product', 'amount', 'category', 'quantity'].map((field) => (
+               <div className="space-y-1 pb-4 border-b border-slate-100">
+                 <label className="text-[10px] font-black text-slate-400 uppercase tracking-widest">mapping profile</label>
+                 <div className="flex gap-2">
+                   <select
+                    value={profileChoice.id}
+                    onChange={(e) => selectProfile(e.target.value)}
+                    className="flex-1 min-w-0 bg-slate-50 border-2 border-slate-100 rounded-xl px-4 py-3 font-bold"
+                   >
+                     <option value="">-- New Profile --</option>
+                     {master.mappingProfiles.map(p => <option key={p.id} value={p.id}>{p.name}</option>)}
+                   </select>
+                   {profileChoice.id && (
+                     <button onClick={deleteSelectedProfile} title="Delete profile" className="w-12 flex items-center justify-center rounded-xl border-2 border-slate-100 text-slate-400 hover:text-red-500 hover:border-red-100">
+                       <Trash2 className="w-4 h-4" />
+                     </button>
+                   )}
+                 </div>
+                 <input
+                  value={profileChoice.name}
+                  onChange={(e) => setProfileChoice({ ...profileChoice, name: e.target.value })}
+                  placeholder="Profile name, e.g. Etsy Orders"
+                  className="w-full bg-white border-2 border-slate-100 rounded-xl px-4 py-3 font-bold text-sm"
+                 />
+               </div>
+               {MAPPING_FIELDS.map((field) => (
                  <div key={field} className="space-y-1">
                    <div className="flex justify-between">
-                      <label className="text-[10px] font-black text-slate-400 uppercase tracking-widest">{field} {field !== 'category' && '*'}</label>
+                      <label className="text-[10px] font-black text-slate-400 uppercase tracking-widest">{MAPPING_FIELD_LABELS[field]} {!OPTIONAL_MAPPING_FIELDS.includes(field) && '*'}</label>
                       {field === 'category' && <span className="text-[10px] font-bold text-indigo-500 flex items-center gap-1"><Sparkles className="w-3 h-3" /> Auto-Fill</span>}
                    </div>
                    <select 
-                    value={manualMapping[field]} 
-                    onChange={(e) => setManualMapping({...manualMapping, [field]: e.target.value})}
+                    value={manualMapping[field] || ''} 
+                    onChange={(e) => handleMappingChange(field, e.target.value)}
                     className="w-full bg-slate-50 border-2 border-slate-100 rounded-xl px-4 py-3 font-bold"
                    >
-                     <option value="">{field === 'category' ? '-- Auto-Detect with AI --' : '-- Choose Column --'}</option>
-                     {Object.keys(pendingData.json[0]).map(col => <option key={col} value={col}>{col}</option>)}
+                     <option value="">{field === 'category' ? '-- Auto-Detect with AI --' : OPTIONAL_MAPPING_FIELDS.includes(field) ? '-- Not in this report --' : '-- Choose Column --'}</option>
+                     {pendingData.headers.map(col => <option key={col} value={col}>{col}</option>)}
                    </select>
                  </div>
                ))}
+               {dateDetection && (
+                 <div className="space-y-1 pt-4 border-t border-slate-100">
+                   <div className="flex justify-between">
+                      <label className="text-[10px] font-black text-slate-400 uppercase tracking-widest">date format</label>
+                      {dateDetection.ambiguous && <span className="text-[10px] font-bold text-amber-500">Please confirm - days and months can't be told apart</span>}
+                   </div>
+                   <select
+                    value={manualMapping.dateFormat || dateDetection.order}
+                    onChange={(e) => setManualMapping({...manualMapping, dateFormat: e.target.value as DateOrder})}
+                    className="w-full bg-slate-50 border-2 border-slate-100 rounded-xl px-4 py-3 font-bold"
+                   >
+                     {(Object.keys(DATE_FORMAT_LABELS) as DateOrder[]).map(order => (
+                       <option key={order} value={order}>{DATE_FORMAT_LABELS[order]}{order === dateDetection.order && !dateDetection.ambiguous ? ' (detected)' : ''}</option>
+                     ))}
+                   </select>
+                   {dateDetection.samples.length > 0 && (
+                     <div className="text-xs text-slate-500 font-medium space-y-0.5 pt-1">
+                       {dateDetection.samples.map(sample => (
+                         <p key={sample}>{sample} → <b>{parseDateValue(sample, { order: manualMapping.dateFormat || dateDetection.order })?.date || 'unreadable'}</b></p>
+                       ))}
+                     </div>
+                   )}
+                 </div>
+               )}
+               <div className="space-y-1 pt-4 border-t border-slate-100">
+                 <label className="text-[10px] font-black text-slate-400 uppercase tracking-widest">number format</label>
+                 <select
+                  value={manualMapping.decimalSeparator || ''}
+                  onChange={(e) => setManualMapping({...manualMapping, decimalSeparator: (e.target.value || undefined) as DecimalSeparator | undefined})}
+                  className="w-full bg-slate-50 border-2 border-slate-100 rounded-xl px-4 py-3 font-bold"
+                 >
+                   <option value="">Detect from the amounts{decimalDetection ? ` (${DECIMAL_SEPARATOR_LABELS[decimalDetection]})` : ''}</option>
+                   {(Object.keys(DECIMAL_SEPARATOR_LABELS) as DecimalSeparator[]).map(mark => (
+                     <option key={mark} value={mark}>{DECIMAL_SEPARATOR_LABELS[mark]}</option>
+                   ))}
+                 </select>
+               </div>
+               <div className="space-y-1 pt-4 border-t border-slate-100">
+                 <label className="text-[10px] font-black text-slate-400 uppercase tracking-widest">report currency</label>
+                 <select
+                  value={manualMapping.defaultCurrency || ''}
+                  onChange={(e) => setManualMapping({...manualMapping, defaultCurrency: e.target.value || undefined})}
+                  className="w-full bg-slate-50 border-2 border-slate-100 rounded-xl px-4 py-3 font-bold"
+                 >
+                   <option value="">{master.reportingCurrency} (reporting currency)</option>
+                   {COMMON_CURRENCIES.filter(c => c !== master.reportingCurrency).map(c => <option key={c} value={c}>{c}</option>)}
+                 </select>
+                 {manualMapping.currency && <p className="text-xs text-slate-500 font-medium pt-1">Used only where the currency column is blank.</p>}
+               </div>
             </div>
             <div className="p-8 bg-slate-50 flex gap-4">
-              <button onClick={() => setPendingData(null)} className="flex-1 font-bold text-slate-400">Cancel</button>
-              <button onClick={() => finalizeProcess(pendingData.json, manualMapping, pendingData.fileName)} className="flex-[2] py-4 bg-indigo-600 text-white font-black rounded-2xl">Sync Now</button>
+              <button onClick={() => { setPendingData(null); setTableQueue([]); }} className="flex-1 font-bold text-slate-400">Cancel</button>
+              <button onClick={confirmMapping} className="flex-[2] py-4 bg-indigo-600 text-white font-black rounded-2xl">Sync Now</button>
+            </div>
+          </div>
+        </div>
+      )}
+
+      {pendingReview && (
+        <div className="fixed inset-0 bg-slate-900/60 backdrop-blur-md z-[250] flex items-center justify-center p-4">
+          <div className="bg-white rounded-[40px] w-full max-w-3xl shadow-2xl overflow-hidden flex flex-col max-h-[85vh]">
+            <div className="p-8 border-b border-slate-100 bg-amber-50/40">
+              <h3 className="text-2xl font-black text-slate-900 flex items-center gap-3"><Copy className="w-6 h-6 text-amber-500" /> Review Duplicates</h3>
+              <p className="text-slate-500 text-sm font-medium">
+                <b>{pendingReview.duplicates.length}</b> rows in <b>{pendingReview.fileName}</b> match sales already in your records.
+                {' '}{pendingReview.unique.length} new rows will be added.
+              </p>
+            </div>
+            <div className="overflow-auto flex-1">
+              <table className="w-full text-sm text-left">
+                <thead className="bg-slate-50 text-slate-400 font-black uppercase text-[10px] tracking-wider sticky top-0 z-10">
+                  <tr>
+                    <th className="px-6 py-4">Keep</th>
+                    <th className="px-6 py-4">Date</th>
+                    <th className="px-6 py-4">Product</th>
+                    <th className="px-6 py-4">Qty</th>
+                    <th className="px-6 py-4 text-right">Amount</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-slate-100">
+                  {pendingReview.duplicates.map(({ sale }) => (
+                    <tr key={sale.id} className={keepDuplicateIds.has(sale.id) ? 'bg-white' : 'bg-slate-50/50 text-slate-400'}>
+                      <td className="px-6 py-3">
+                        <input type="checkbox" checked={keepDuplicateIds.has(sale.id)} onChange={() => toggleKeepDuplicate(sale.id)} className="w-4 h-4 accent-indigo-600" />
+                      </td>
+                      <td className="px-6 py-3 font-bold whitespace-nowrap">{sale.date}</td>
+                      <td className="px-6 py-3 font-medium">{sale.product}</td>
+                      <td className="px-6 py-3">{sale.quantity}</td>
+                      <td className="px-6 py-3 font-bold text-right">{formatMoney(sale.amount, sale.currency || master.reportingCurrency, true)}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+            <div className="p-8 bg-slate-50 flex items-center gap-4">
+              <button onClick={() => { setPendingReview(null); setTableQueue([]); }} className="font-bold text-slate-400">Cancel</button>
+              <div className="flex-1 flex justify-end gap-4 text-[10px] font-black uppercase tracking-widest">
+                <button onClick={() => setKeepDuplicateIds(new Set(pendingReview.duplicates.map(d => d.sale.id)))} className="text-indigo-500">Keep All</button>
+                <button onClick={() => setKeepDuplicateIds(new Set())} className="text-slate-400">Skip All</button>
+              </div>
+              <button onClick={confirmReview} className="px-8 py-4 bg-indigo-600 text-white font-black rounded-2xl">
+                Sync {pendingReview.unique.length + keepDuplicateIds.size} Rows
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+
+      {pendingWorkbook && (
+        <div className="fixed inset-0 bg-slate-900/60 backdrop-blur-md z-[250] flex items-center justify-center p-4">
+          <div className="bg-white rounded-[40px] w-full max-w-xl shadow-2xl overflow-hidden">
+            <div className="p-8 border-b border-slate-100 bg-indigo-50/20">
+              <h3 className="text-2xl font-black text-slate-900 flex items-center gap-3"><Layers className="w-6 h-6 text-indigo-500" /> Choose Sheets</h3>
+              <p className="text-slate-500 text-sm font-medium"><b>{pendingWorkbook.fileName}</b> contains {pendingWorkbook.tables.length} tables. Each one gets its own column mapping.</p>
+            </div>
+            <div className="p-8 space-y-3 max-h-[50vh] overflow-y-auto">
+              {pendingWorkbook.tables.map(table => {
+                const synced = master.syncedFiles?.includes(tableSourceName(pendingWorkbook.fileName, table, pendingWorkbook.tables.length));
+                return (
+                  <label key={table.name} className={`flex items-start gap-4 p-4 rounded-2xl border-2 transition-all ${synced ? 'border-slate-50 opacity-50' : selectedTables.has(table.name) ? 'border-indigo-200 bg-indigo-50/30 cursor-pointer' : 'border-slate-100 cursor-pointer'}`}>
+                    <input type="checkbox" disabled={synced} checked={selectedTables.has(table.name)} onChange={() => toggleTable(table.name)} className="w-4 h-4 mt-1 accent-indigo-600" />
+                    <div className="flex-1 overflow-hidden">
+                      <p className="font-bold text-slate-900">{table.name}</p>
+                      <p className="text-[10px] font-bold text-slate-400 uppercase tracking-widest">
+                        {synced ? 'Already synced' : `${table.rows.length} rows · headers on row ${table.headerRow}`}
+                        {table.skippedRows > 0 && ` · ${table.skippedRows} totals skipped`}
+                      </p>
+                      <p className="text-xs text-slate-400 truncate">{table.headers.join(', ')}</p>
+                    </div>
+                  </label>
+                );
+              })}
+            </div>
+            <div className="p-8 bg-slate-50 flex items-center gap-4">
+              <button onClick={() => setPendingWorkbook(null)} className="font-bold text-slate-400">Cancel</button>
+              <button
+                onClick={() => setSelectedTables(new Set(pendingWorkbook.tables
+                  .filter(t => !master.syncedFiles?.includes(tableSourceName(pendingWorkbook.fileName, t, pendingWorkbook.tables.length)))
+                  .map(t => t.name)))}
+                className="flex-1 text-right text-[10px] font-black uppercase tracking-widest text-indigo-500"
+              >
+                Select All
+              </button>
+              <button onClick={confirmSheetSelection} disabled={selectedTables.size === 0} className="px-8 py-4 bg-indigo-600 text-white font-black rounded-2xl disabled:opacity-50">
+                Import {selectedTables.size} {selectedTables.size === 1 ? 'Sheet' : 'Sheets'}
+              </button>
             </div>
           </div>
         </div>
@@ -347,13 +622,13 @@ export const SyncView: React.FC<SyncViewProps> = ({ master, onSync, googleServic
       <header className="flex flex-col md:flex-row justify-between items-start md:items-end gap-4">
         <div>
            <h1 className="text-4xl font-black text-slate-900 tracking-tight">Sync Sales</h1>
-           <p className="text-slate-500 font-medium">Update your business history with Gemini Flash.</p>
+           <p className="text-slate-500 font-medium">Update your business history with {ai.name}.</p>
         </div>
         <button 
            onClick={() => setShowPreview(true)}
            className="flex items-center gap-2 px-5 py-2.5 bg-white border border-slate-200 shadow-sm rounded-xl font-bold text-slate-600 text-sm hover:border-indigo-300 hover:text-indigo-600 transition-all"
         >
-           <Eye className="w-4 h-4" /> Preview Database
+           <Eye className="w-4 h-4" /> View & Edit Records
         </button>
       </header>
 
@@ -368,7 +643,17 @@ export const SyncView: React.FC<SyncViewProps> = ({ master, onSync, googleServic
           <div className="text-center animate-in zoom-in">
             <CheckCircle2 className="w-16 h-16 text-emerald-500 mx-auto mb-6" />
             <h3 className="text-3xl font-black text-slate-900">Success</h3>
-            <p className="text-slate-500 font-medium">{syncStatus.count} records added.</p>
+            <p className="text-slate-500 font-medium">
+              {syncStatus.count} records added.{syncStatus.skipped > 0 && ` ${syncStatus.skipped} duplicates skipped.`}
+            </p>
+            {syncStatus.profiles.length > 0 && (
+              <p className="mt-1 text-xs font-bold text-slate-400">Mapped with: {syncStatus.profiles.join(', ')}</p>
+            )}
+            {syncStatus.warnings.length > 0 && (
+              <ul className="mt-4 space-y-1 text-xs font-bold text-amber-600">
+                {syncStatus.warnings.map((w, i) => <li key={i}>{w}</li>)}
+              </ul>
+            )}
             <button onClick={() => setSyncStatus(null)} className="mt-8 px-12 py-4 bg-slate-900 text-white font-bold rounded-2xl">Done</button>
           </div>
         ) : error ? (
@@ -382,7 +667,7 @@ export const SyncView: React.FC<SyncViewProps> = ({ master, onSync, googleServic
           <>
             <Upload className="w-12 h-12 text-indigo-600 mb-8" />
             <h3 className="text-3xl font-black text-slate-900 mb-2">Import File</h3>
-            <p className="text-slate-500 text-center max-w-sm font-medium mb-12">Choose a spreadsheet from your computer or Google Drive.</p>
+            <p className="text-slate-500 text-center max-w-sm font-medium mb-12">Choose a spreadsheet from your computer or Google Drive, or pick a Drive folder to watch as an inbox.</p>
             <div className="flex flex-col gap-4 w-full max-w-xs">
               <button onClick={handleDrivePick} className="w-full bg-indigo-600 text-white font-black py-5 rounded-2xl shadow-lg hover:bg-indigo-700">Open Drive</button>
               <button onClick={() => fileInputRef.current?.click()} className="w-full bg-white border-2 border-slate-200 text-slate-400 font-bold py-4 rounded-2xl text-sm">Upload CSV/Excel</button>
@@ -398,6 +683,31 @@ export const SyncView: React.FC<SyncViewProps> = ({ master, onSync, googleServic
           </>
         )}
       </div>
+
+      {master.inboxFolder && (
+        <DriveInbox
+          folder={master.inboxFolder}
+          files={inboxFiles}
+          newFileIds={new Set(newInbox.map(f => f.id))}
+          checking={inboxChecking}
+          error={inboxError}
+          busy={isProcessing || tableQueue.length > 0}
+          onCheck={() => checkInbox(master.inboxFolder!)}
+          onImport={() => importInboxFiles(newInbox)}
+          onRemove={() => onSetInbox(undefined)}
+        />
+      )}
+
+      {googleService && (
+        <SheetCopyPanel
+          sheetCopy={master.sheetCopy}
+          canPublish={isSignedIn}
+          onPublish={onPublishSheet}
+          onUnlink={onUnlinkSheet}
+        />
+      )}
+
+      <ImportHistory imports={master.imports || []} onRollback={onRollback} />
     </div>
   );
 };
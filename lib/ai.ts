@@ -0,0 +1,202 @@
+import { GoogleGenAI } from '@google/genai';
+import { ColumnMapping, MappedField } from '../types';
+import { formatMoney } from './currency';
+
+export interface ProductEnrichment {
+  category: string;
+  cleanName: string;
+}
+
+export interface StrategySummary {
+  totalRecords: number;
+  totalRevenue: number;
+  currency: string;              // ISO code totalRevenue is in
+  topProduct?: string;
+  timeSpanLabel: string;
+}
+
+export interface StrategyInsight {
+  drive: string;   // A 5-word motivational phrase
+  win: string;
+  risk: string;
+  action: string;
+}
+
+/**
+ * Everything the app asks of a language model. Implementations must return
+ * plain data; prompt wording, batching and response cleanup stay inside the
+ * provider.
+ */
+export interface AiProvider {
+  readonly name: string;
+  mapColumns(headers: string[]): Promise<Partial<ColumnMapping>>;
+  categorize(products: string[], categories: string[]): Promise<Record<string, ProductEnrichment>>;
+  strategyInsights(summary: StrategySummary): Promise<StrategyInsight>;
+}
+
+export type AiProviderKind = 'gemini' | 'mock';
+
+export interface AiConfig {
+  provider?: AiProviderKind;
+  model?: string;
+  apiKey?: string;
+}
+
+export const DEFAULT_GEMINI_MODEL = 'gemini-1.5-flash';
+
+const parseJsonResponse = (text: string | undefined) => {
+  const cleanJson = (text || '{}').replace(/```json/g, '').replace(/```/g, '').trim();
+  return JSON.parse(cleanJson);
+};
+
+export class GeminiProvider implements AiProvider {
+  readonly name: string;
+  private client: GoogleGenAI;
+  private model: string;
+
+  constructor(apiKey: string, model: string = DEFAULT_GEMINI_MODEL) {
+    this.client = new GoogleGenAI({ apiKey });
+    this.model = model;
+    this.name = `Gemini (${model})`;
+  }
+
+  private async generateJson(prompt: string): Promise<any> {
+    const response = await this.client.models.generateContent({
+      model: this.model,
+      contents: prompt,
+      config: { responseMimeType: 'application/json' }
+    });
+    return parseJsonResponse(response.text);
+  }
+
+  async mapColumns(headers: string[]): Promise<Partial<ColumnMapping>> {
+    return this.generateJson(`
+      Identify column headers for: date, product, amount, category, quantity, customerZip (customer zip or postal code, if any), cost (cost of goods, if any),
+      and, if present, gross, discount, tax, shipping, fee, refund, orderId and currency (a column of currency codes).
+      Columns available: ${headers.join(', ')}
+      Return JSON only.
+    `);
+  }
+
+  async categorize(products: string[], categories: string[]): Promise<Record<string, ProductEnrichment>> {
+    const batchSize = 50;
+    const result: Record<string, ProductEnrichment> = {};
+
+    for (let i = 0; i < products.length; i += batchSize) {
+      const batch = products.slice(i, i + batchSize);
+      try {
+        const batchResult = await this.generateJson(`
+          You are a product inventory assistant for a small shop.
+          Task: Map each input to a category and a clean name.
+
+          Allowed Categories: [${categories.join(', ')}]
+
+          Rules:
+          1. Clean Name must remove variant details such as sizes (e.g., "Size 7"), colours, scents or materials (e.g., "14k") if it makes the name cleaner.
+          2. Use only the allowed categories. If an item doesn't fit, use "Other".
+
+          Input List: ${JSON.stringify(batch)}
+
+          Return ONLY a JSON object where keys are the exact input strings.
+          Example: { "Gold Ring Sz 6": { "category": "Rings", "cleanName": "Gold Ring" } }
+        `);
+        Object.assign(result, batchResult);
+      } catch (e) {
+        console.error("Batch enrichment failed", e);
+      }
+    }
+    return result;
+  }
+
+  async strategyInsights(summary: StrategySummary): Promise<StrategyInsight> {
+    return this.generateJson(`Analyze this data: ${JSON.stringify(summary)}.
+      Return a JSON object with these 4 keys (strings):
+      "drive": A 5-word motivational phrase.
+      "win": The best performing aspect.
+      "risk": A missing opportunity or risk.
+      "action": One specific tactic to increase sales.`);
+  }
+}
+
+const COLUMN_HINTS: Record<MappedField, RegExp> = {
+  date: /date|time|day|created|ordered/i,
+  product: /product|item|title|name|description|sku|listing/i,
+  cost: /cost|cogs/i,
+  customerZip: /zip|postal|postcode|post code/i,
+  orderId: /order\s*(id|#|no|number)|transaction\s*id|receipt/i,
+  currency: /^currency$|currency\s*code|^ccy$/i,
+  refund: /refund|return/i,
+  discount: /discount|coupon|promo/i,
+  fee: /fee|commission/i,
+  tax: /\btax|vat|gst/i,
+  shipping: /ship|postage|delivery/i,
+  gross: /gross/i,
+  amount: /amount|total|price|revenue|sales|net|subtotal/i,
+  quantity: /qty|quantity|units|count|pcs/i,
+  category: /category|type|collection|department|dept|group/i
+};
+
+const SIZE_OR_METAL = /\b(sz|size)\.?\s*\d+(\.\d+)?\b|\b\d{1,2}k\b|\b(sterling|silver|gold[- ]filled)\b|\([^)]*\)/gi;
+
+const singular = (word: string) => word.toLowerCase().replace(/(es|s)$/, '');
+
+/**
+ * Deterministic stand-in used when no API key is configured. Header and
+ * product matching are plain keyword rules, so imports and the dashboard
+ * behave the same on every run - offline, in demos and in tests.
+ */
+export class MockAiProvider implements AiProvider {
+  readonly name = 'Offline (rule-based)';
+
+  async mapColumns(headers: string[]): Promise<Partial<ColumnMapping>> {
+    const mapping: Partial<ColumnMapping> = {};
+    const used = new Set<string>();
+    (Object.keys(COLUMN_HINTS) as MappedField[]).forEach(field => {
+      const match = headers.find(h => !used.has(h) && COLUMN_HINTS[field].test(h));
+      if (match) {
+        mapping[field] = match;
+        used.add(match);
+      }
+    });
+    return mapping;
+  }
+
+  async categorize(products: string[], categories: string[]): Promise<Record<string, ProductEnrichment>> {
+    const fallback = categories.find(c => c.toLowerCase() === 'other') || categories[categories.length - 1] || 'Other';
+    const result: Record<string, ProductEnrichment> = {};
+    products.forEach(product => {
+      const words = product.toLowerCase().split(/[^a-z]+/).filter(Boolean).map(singular);
+      const category = categories.find(c => words.includes(singular(c))) || fallback;
+      const cleanName = product.replace(SIZE_OR_METAL, '').replace(/\s{2,}/g, ' ').replace(/[\s,-]+$/, '').trim() || product;
+      result[product] = { category, cleanName };
+    });
+    return result;
+  }
+
+  async strategyInsights(summary: StrategySummary): Promise<StrategyInsight> {
+    const perSale = summary.totalRecords ? summary.totalRevenue / summary.totalRecords : 0;
+    return {
+      drive: 'Keep building on steady sales.',
+      win: summary.topProduct
+        ? `"${summary.topProduct}" leads ${summary.totalRecords} sales worth ${formatMoney(summary.totalRevenue, summary.currency)}.`
+        : `${summary.totalRecords} sales recorded so far.`,
+      risk: `Average sale is ${formatMoney(perSale, summary.currency, true)}; relying on one best seller leaves revenue exposed.`,
+      action: summary.topProduct
+        ? `Bundle "${summary.topProduct}" with a slower item to lift the average order.`
+        : 'Import more sales reports to unlock recommendations.'
+    };
+  }
+}
+
+/**
+ * Picks the provider from explicit config, then VITE_AI_PROVIDER /
+ * VITE_AI_MODEL. Without a Gemini key the offline provider is used.
+ */
+export const createAiProvider = (config: AiConfig = {}): AiProvider => {
+  const env = (import.meta as any).env || {};
+  const apiKey = config.apiKey ?? env.VITE_GEMINI_API_KEY ?? '';
+  const kind: AiProviderKind = config.provider || env.VITE_AI_PROVIDER || (apiKey ? 'gemini' : 'mock');
+
+  if (kind === 'gemini' && apiKey) return new GeminiProvider(apiKey, config.model || env.VITE_AI_MODEL || DEFAULT_GEMINI_MODEL);
+  return new MockAiProvider();
+};
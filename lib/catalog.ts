@@ -0,0 +1,107 @@
+import { CatalogProduct, MasterRecord, SaleRecord } from '../types';
+import { generateId } from './masterRecord';
+import { netSales, unitsSold } from './ledger';
+
+const nameKey = (name: string) => name.trim().toLowerCase();
+
+export interface CatalogEntry {
+  id?: string;           // Missing for names that aren't in the catalog yet
+  name: string;
+  aliases: string[];
+  count: number;         // Units sold
+  revenue: number;
+}
+
+/**
+ * Maps every known spelling (lower-cased) to its canonical name. Names that
+ * aren't in the catalog resolve to themselves.
+ */
+export const buildProductIndex = (products: CatalogProduct[]): Map<string, string> => {
+  const index = new Map<string, string>();
+  products.forEach(p => p.aliases.forEach(alias => index.set(nameKey(alias), p.name)));
+  // Canonical names win over an alias spelled the same way
+  products.forEach(p => index.set(nameKey(p.name), p.name));
+  return index;
+};
+
+export const canonicalProductName = (index: Map<string, string>, raw: string) =>
+  index.get(nameKey(raw || 'Unknown')) || raw || 'Unknown';
+
+const findProduct = (products: CatalogProduct[], name: string) =>
+  products.find(p => nameKey(p.name) === nameKey(name) || p.aliases.some(a => nameKey(a) === nameKey(name)));
+
+/**
+ * Every product the dashboard would show, catalogued or not, with the raw
+ * names that roll up into it.
+ */
+export const catalogEntries = (products: CatalogProduct[], sales: SaleRecord[]): CatalogEntry[] => {
+  const index = buildProductIndex(products);
+  const entries = new Map<string, CatalogEntry>();
+  products.forEach(p => entries.set(p.name, { id: p.id, name: p.name, aliases: p.aliases, count: 0, revenue: 0 }));
+
+  sales.forEach(s => {
+    const name = canonicalProductName(index, s.product);
+    if (!entries.has(name)) entries.set(name, { name, aliases: [], count: 0, revenue: 0 });
+    const entry = entries.get(name)!;
+    entry.count += unitsSold(s);
+    entry.revenue += netSales(s);
+  });
+  return [...entries.values()].sort((a, b) => a.name.localeCompare(b.name));
+};
+
+/**
+ * Records clean names suggested during enrichment as aliases. Names the user
+ * already placed (as a product or an alias) are left alone, so a split isn't
+ * undone by the next import.
+ */
+export const learnProductAliases = (master: MasterRecord, cleanNames: Record<string, string>): MasterRecord => {
+  let products = master.products;
+  Object.entries(cleanNames).forEach(([raw, clean]) => {
+    if (!clean || nameKey(raw) === nameKey(clean) || findProduct(products, raw)) return;
+    const target = findProduct(products, clean);
+    products = target
+      ? products.map(p => (p.id === target.id ? { ...p, aliases: [...p.aliases, raw] } : p))
+      : [...products, { id: generateId(), name: clean.trim(), aliases: [raw] }];
+  });
+  return products === master.products ? master : { ...master, products };
+};
+
+/**
+ * Folds several products (catalogued or raw names) into one called `name`.
+ * Every spelling that pointed at any of them becomes an alias of the result.
+ */
+export const mergeProducts = (master: MasterRecord, names: string[], name: string): MasterRecord => {
+  const canonical = name.trim();
+  const merging = names.map(n => findProduct(master.products, n));
+  const existing = findProduct(master.products, canonical);
+  const absorbed = new Set([...merging, existing].filter(Boolean).map(p => p!.id));
+
+  const aliases = new Set<string>();
+  names.forEach(n => aliases.add(n));
+  [...merging, existing].forEach(p => p && [p.name, ...p.aliases].forEach(a => aliases.add(a)));
+  const uniqueAliases = [...aliases].filter((a, i, all) =>
+    nameKey(a) !== nameKey(canonical) && all.findIndex(b => nameKey(b) === nameKey(a)) === i);
+
+  const keepId = existing?.id || merging.find(Boolean)?.id || generateId();
+  return {
+    ...master,
+    products: [
+      ...master.products.filter(p => !absorbed.has(p.id)),
+      { id: keepId, name: canonical, aliases: uniqueAliases }
+    ],
+    // Costs follow their product into the merge
+    costs: master.costs.map(c => (absorbed.has(c.productId) && c.productId !== keepId ? { ...c, productId: keepId } : c))
+  };
+};
+
+export const renameProduct = (master: MasterRecord, currentName: string, name: string): MasterRecord =>
+  mergeProducts(master, [currentName], name);
+
+// Gives an alias back its own identity; it stays a separate product from then on.
+export const splitProductAlias = (master: MasterRecord, productId: string, alias: string): MasterRecord => ({
+  ...master,
+  products: [
+    ...master.products.map(p => (p.id === productId ? { ...p, aliases: p.aliases.filter(a => a !== alias) } : p)),
+    { id: generateId(), name: alias, aliases: [] }
+  ]
+});
@@ -0,0 +1,86 @@
+import { Category, MasterRecord } from '../types';
+import { generateId } from './masterRecord';
+
+// What jewelry masters were categorized with before the taxonomy was editable.
+export const LEGACY_CATEGORIES = ['Rings', 'Bracelets', 'Necklaces', 'Pendants', 'Earrings', 'Anklets', 'Charms', 'Sets', 'Other'];
+
+export const FALLBACK_CATEGORY = 'Other';
+
+const sameName = (a: string, b: string) => a.trim().toLowerCase() === b.trim().toLowerCase();
+
+export const findCategory = (categories: Category[], name: string) => categories.find(c => sameName(c.name, name));
+
+export const childCategories = (categories: Category[], parentId: string) => categories.filter(c => c.parentId === parentId);
+
+/**
+ * Names the AI may pick from. Parents with children are grouping labels, so
+ * only their children are offered; "Other" is always available.
+ */
+export const assignableCategories = (categories: Category[]): string[] => {
+  const names = categories.filter(c => childCategories(categories, c.id).length === 0).map(c => c.name);
+  return names.some(n => sameName(n, FALLBACK_CATEGORY)) ? names : [...names, FALLBACK_CATEGORY];
+};
+
+// Sales roll up to their top-level category; names outside the taxonomy stay as they are.
+export const topLevelCategoryName = (categories: Category[], name: string): string => {
+  const category = findCategory(categories, name);
+  if (!category?.parentId) return category?.name || name;
+  return categories.find(c => c.id === category.parentId)?.name || category.name;
+};
+
+const recategorize = (master: MasterRecord, from: string[], to: string): MasterRecord['data'] =>
+  master.data.map(s => (from.some(name => sameName(name, s.category)) && s.category !== to ? { ...s, category: to } : s));
+
+export const addCategory = (master: MasterRecord, name: string, parentId?: string): MasterRecord => {
+  const trimmed = name.trim();
+  if (!trimmed || findCategory(master.categories, trimmed)) return master;
+  return { ...master, categories: [...master.categories, { id: generateId(), name: trimmed, parentId }] };
+};
+
+/**
+ * Moves everything filed under `sourceId` (its sales and any children) to
+ * `targetId`, then drops the source category.
+ */
+export const mergeCategories = (master: MasterRecord, sourceId: string, targetId: string): MasterRecord => {
+  const source = master.categories.find(c => c.id === sourceId);
+  const target = master.categories.find(c => c.id === targetId);
+  if (!source || !target || source.id === target.id) return master;
+
+  const categories = master.categories
+    .filter(c => c.id !== source.id)
+    .map(c => (c.parentId === source.id ? { ...c, parentId: c.id === target.id ? undefined : target.parentId || target.id } : c));
+  return { ...master, categories, data: recategorize(master, [source.name], target.name) };
+};
+
+// Renaming onto an existing name merges the two.
+export const renameCategory = (master: MasterRecord, id: string, name: string): MasterRecord => {
+  const category = master.categories.find(c => c.id === id);
+  const trimmed = name.trim();
+  if (!category || !trimmed || trimmed === category.name) return master;
+
+  const existing = findCategory(master.categories, trimmed);
+  if (existing && existing.id !== id) return mergeCategories(master, id, existing.id);
+
+  return {
+    ...master,
+    categories: master.categories.map(c => (c.id === id ? { ...c, name: trimmed } : c)),
+    data: recategorize(master, [category.name], trimmed)
+  };
+};
+
+// One level of nesting: a parent can't itself have a parent.
+export const setCategoryParent = (master: MasterRecord, id: string, parentId?: string): MasterRecord => {
+  if (parentId) {
+    const parent = master.categories.find(c => c.id === parentId);
+    if (!parent || parent.id === id || parent.parentId || childCategories(master.categories, id).length > 0) return master;
+  }
+  return { ...master, categories: master.categories.map(c => (c.id === id ? { ...c, parentId } : c)) };
+};
+
+// Sales keep their label; children move up a level.
+export const deleteCategory = (master: MasterRecord, id: string): MasterRecord => ({
+  ...master,
+  categories: master.categories
+    .filter(c => c.id !== id)
+    .map(c => (c.parentId === id ? { ...c, parentId: undefined } : c))
+});
@@ -0,0 +1,159 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { MasterRecord, SaleRecord } from '../types';
+import { SyncStateStore, mergeMasters, resolveMerge, syncMasterToDrive } from './cloudSync';
+import { SyncState } from './localStore';
+import { withTotals } from './masterRecord';
+import { MemoryDrive } from './memoryDrive';
+import { migrateMasterRecord } from './schema';
+
+const sale = (n: number, overrides: Partial<SaleRecord> = {}): SaleRecord => ({
+  id: `s${n}`,
+  date: `2025-03-0${n}`,
+  product: 'Serum',
+  category: 'General',
+  quantity: 1,
+  amount: 10 * n,
+  ...overrides
+});
+
+const workspace = (data: SaleRecord[]): MasterRecord => migrateMasterRecord({
+  schemaVersion: 1, id: 'm1', name: 'Shop', lastUpdated: '', totalSales: 0, totalRevenue: 0, data
+});
+
+const withData = (master: MasterRecord, data: SaleRecord[]) => withTotals(master, data);
+
+const memoryStore = (): SyncStateStore => {
+  const states = new Map<string, SyncState>();
+  return {
+    getSyncState: async id => states.get(id),
+    saveSyncState: async (id, state) => { states.set(id, state); }
+  };
+};
+
+describe('mergeMasters', () => {
+  const base = workspace([sale(1), sale(2)]);
+
+  it('merges changes made to different sales on each side', () => {
+    const local = withData(base, [sale(1, { amount: 11 }), sale(2), sale(3)]);
+    const remote = withData(base, [sale(1), sale(4)]);
+    const { merged, conflicts } = mergeMasters(base, local, remote);
+
+    expect(conflicts).toEqual([]);
+    expect(merged.data.map(s => [s.id, s.amount])).toEqual([['s1', 11], ['s3', 30], ['s4', 40]]);
+    expect(merged.totalRevenue).toBe(81);
+  });
+
+  it('reports a sale changed differently on both sides and leaves it out', () => {
+    const local = withData(base, [sale(1, { amount: 11 }), sale(2)]);
+    const remote = withData(base, [sale(1, { amount: 12 }), sale(2)]);
+    const merge = mergeMasters(base, local, remote);
+
+    expect(merge.conflicts.map(c => [c.type, c.key, c.local.amount, c.remote.amount])).toEqual([['sale', 's1', 11, 12]]);
+    expect(merge.merged.data.map(s => s.id)).toEqual(['s2']);
+    expect(resolveMerge(merge, { 'sale:s1': 'remote' }).data.find(s => s.id === 's1')?.amount).toBe(12);
+    expect(resolveMerge(merge, {}).data.find(s => s.id === 's1')?.amount).toBe(11);
+  });
+
+  it('merges settings and keyed lists against the base', () => {
+    const local = { ...base, name: 'Shop East', reportingCurrency: 'EUR' };
+    const remote = { ...base, reportingCurrency: 'GBP', exchangeRates: [{ id: 'GBP-2025-01-01', currency: 'GBP', rate: 1.25, effectiveFrom: '2025-01-01' }] };
+    const { merged, conflicts } = mergeMasters(base, local, remote);
+
+    expect(merged.name).toBe('Shop East');
+    expect(merged.exchangeRates.map(r => r.id)).toEqual(['GBP-2025-01-01']);
+    expect(conflicts.map(c => [c.type, c.key])).toEqual([['field', 'reportingCurrency']]);
+  });
+
+  it('only agrees on identical items without a base', () => {
+    const local = withData(base, [sale(1), sale(2, { amount: 21 })]);
+    const { merged, conflicts } = mergeMasters(null, local, base);
+    expect(merged.data.map(s => s.id)).toEqual(['s1']);
+    expect(conflicts.map(c => c.key)).toEqual(['s2']);
+  });
+});
+
+describe('syncMasterToDrive', () => {
+  let drive: MemoryDrive;
+
+  beforeEach(() => {
+    drive = new MemoryDrive();
+  });
+
+  it('creates a tagged file, then skips uploads while nothing changed', async () => {
+    const store = memoryStore();
+    const master = workspace([sale(1)]);
+    const first = await syncMasterToDrive(drive, store, master);
+
+    if (first.status !== 'uploaded') throw new Error(first.status);
+    const [file] = await drive.findFiles(`appProperties has { key='masterId' and value='m1' }`);
+    expect(file.appProperties).toMatchObject({ estheticMaster: '1', masterName: 'Shop' });
+
+    const save = vi.spyOn(drive, 'saveJsonToCloud');
+    expect(await syncMasterToDrive(drive, store, first.master)).toEqual({ status: 'unchanged' });
+    expect(save).not.toHaveBeenCalled();
+  });
+
+  it("merges another device's save before uploading", async () => {
+    const laptop = memoryStore();
+    const phone = memoryStore();
+    const master = workspace([sale(1)]);
+    await syncMasterToDrive(drive, laptop, master);
+    await syncMasterToDrive(drive, phone, master);
+
+    await syncMasterToDrive(drive, phone, withData(master, [sale(1), sale(2)]));
+    const outcome = await syncMasterToDrive(drive, laptop, withData(master, [sale(1), sale(3)]));
+
+    expect(outcome.status).toBe('uploaded');
+    const [file] = drive.files.values();
+    expect((await drive.downloadFile(file.meta.id)).data.map((s: SaleRecord) => s.id)).toEqual(['s1', 's3', 's2']);
+  });
+
+  it('hands conflicts back without uploading', async () => {
+    const laptop = memoryStore();
+    const phone = memoryStore();
+    const master = workspace([sale(1)]);
+    await syncMasterToDrive(drive, laptop, master);
+    await syncMasterToDrive(drive, phone, master);
+    await syncMasterToDrive(drive, phone, withData(master, [sale(1, { amount: 12 })]));
+
+    const save = vi.spyOn(drive, 'saveJsonToCloud');
+    const outcome = await syncMasterToDrive(drive, laptop, withData(master, [sale(1, { amount: 11 })]));
+
+    expect(outcome.status).toBe('conflict');
+    if (outcome.status === 'conflict') expect(outcome.merge.conflicts.map(c => c.key)).toEqual(['s1']);
+    expect(save).not.toHaveBeenCalled();
+  });
+
+  it('merges back a save that landed between the version check and the upload', async () => {
+    const laptop = memoryStore();
+    const phone = memoryStore();
+    const master = workspace([sale(1)]);
+    await syncMasterToDrive(drive, laptop, master);
+    await syncMasterToDrive(drive, phone, master);
+
+    const save = drive.saveJsonToCloud.bind(drive);
+    vi.spyOn(drive, 'saveJsonToCloud').mockImplementationOnce(async (...args) => {
+      await syncMasterToDrive(drive, phone, withData(master, [sale(1), sale(2)]));
+      return save(...args);
+    });
+    const outcome = await syncMasterToDrive(drive, laptop, withData(master, [sale(1), sale(3)]));
+
+    expect(outcome.status).toBe('uploaded');
+    if (outcome.status === 'uploaded') expect(outcome.master.data.map(s => s.id)).toEqual(['s1', 's3', 's2']);
+    const [file] = drive.files.values();
+    expect((await drive.downloadFile(file.meta.id)).data.map((s: SaleRecord) => s.id)).toEqual(['s1', 's3', 's2']);
+  });
+
+  it('does not download old revisions when Drive moves the version by more than one per save', async () => {
+    drive = new MemoryDrive(3);
+    const store = memoryStore();
+    const master = workspace([sale(1)]);
+    await syncMasterToDrive(drive, store, master);
+
+    const download = vi.spyOn(drive, 'downloadRevision');
+    const outcome = await syncMasterToDrive(drive, store, withData(master, [sale(1), sale(2)]));
+
+    expect(outcome.status).toBe('uploaded');
+    expect(download).not.toHaveBeenCalled();
+  });
+});
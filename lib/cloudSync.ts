@@ -0,0 +1,244 @@
+import { ImportBatch, MasterRecord, SaleRecord } from '../types';
+import { DriveApi, DriveFileMeta } from './googleDrive';
+import { LocalStore } from './localStore';
+import { migrateMasterRecord } from './schema';
+import { withTotals } from './masterRecord';
+import { findMasterFile, masterFileName, masterFileProperties } from './workspaces';
+
+export interface SyncConflict {
+  type: 'sale' | 'import' | 'entry' | 'field';
+  key: string;           // Sale/batch id, "field/id" for other keyed lists, or the MasterRecord field name
+  label: string;
+  local: any;            // undefined means "deleted on this side"
+  remote: any;
+}
+
+export interface MergeResult {
+  merged: MasterRecord;  // Everything that merged cleanly; conflicts left out
+  conflicts: SyncConflict[];
+}
+
+export type SyncOutcome =
+  | { status: 'unchanged' }
+  | { status: 'uploaded'; master: MasterRecord }
+  | { status: 'conflict'; merge: MergeResult; remote: MasterRecord; remoteMeta: DriveFileMeta };
+
+export type ConflictChoice = 'local' | 'remote';
+
+// The part of LocalStore syncing needs: what this device last synced per master.
+export type SyncStateStore = Pick<LocalStore, 'getSyncState' | 'saveSyncState'>;
+
+// Fields merged element-by-element below, or derived from data.
+const STRUCTURAL_FIELDS = new Set(['data', 'imports', 'syncedFiles', 'totalSales', 'totalRevenue', 'lastUpdated', 'schemaVersion']);
+// Other lists of { id } items, merged item-by-item; the label names a conflict.
+const KEYED_FIELDS: Record<string, (item: any) => string> = {
+  mappingProfiles: p => `Mapping profile "${p.name}"`,
+  products: p => `Product "${p.name}"`,
+  categories: c => `Category "${c.name}"`,
+  costs: c => `Product cost${c.effectiveFrom ? ` from ${c.effectiveFrom}` : ''}`,
+  exchangeRates: r => `${r.currency} rate from ${r.effectiveFrom}`
+};
+// Per-device caches: keeping this machine's copy is never wrong.
+const LOCAL_WINS_FIELDS = new Set(['lastStrategicInsight', 'analysisTimestamp', 'googleFileUrl']);
+
+const stableStringify = (val: any): string => {
+  if (val === undefined) return 'undefined';
+  if (val === null || typeof val !== 'object') return JSON.stringify(val);
+  if (Array.isArray(val)) return `[${val.map(stableStringify).join(',')}]`;
+  return `{${Object.keys(val).sort().filter(k => val[k] !== undefined).map(k => `${JSON.stringify(k)}:${stableStringify(val[k])}`).join(',')}}`;
+};
+
+const same = (a: any, b: any) => a === b || stableStringify(a) === stableStringify(b);
+
+type ThreeWay<T> = { value: T | undefined } | { conflict: true };
+
+// Classic three-way rule: if only one side moved away from the base, take it.
+const threeWay = <T>(base: T | undefined, local: T | undefined, remote: T | undefined): ThreeWay<T> => {
+  if (same(local, remote)) return { value: local };
+  if (same(local, base)) return { value: remote };
+  if (same(remote, base)) return { value: local };
+  return { conflict: true };
+};
+
+const mergeKeyed = <T extends { id: string }>(
+  base: T[], local: T[], remote: T[],
+  onConflict: (id: string, local?: T, remote?: T) => void
+): T[] => {
+  const baseMap = new Map(base.map(x => [x.id, x]));
+  const localMap = new Map(local.map(x => [x.id, x]));
+  const remoteMap = new Map(remote.map(x => [x.id, x]));
+
+  // Keep this machine's order, then append what only the other side has.
+  const ids = [...local.map(x => x.id), ...remote.filter(x => !localMap.has(x.id)).map(x => x.id), ...base.map(x => x.id)];
+  const seen = new Set<string>();
+  const merged: T[] = [];
+
+  ids.forEach(id => {
+    if (seen.has(id)) return;
+    seen.add(id);
+    const result = threeWay(baseMap.get(id), localMap.get(id), remoteMap.get(id));
+    if ('conflict' in result) onConflict(id, localMap.get(id), remoteMap.get(id));
+    else if (result.value) merged.push(result.value);
+  });
+  return merged;
+};
+
+const mergeSet = (base: string[], local: string[], remote: string[]): string[] => {
+  const b = new Set(base);
+  const r = new Set(remote);
+  const l = new Set(local);
+  const keepLocal = local.filter(x => r.has(x) || !b.has(x));
+  const addRemote = remote.filter(x => !l.has(x) && !b.has(x));
+  return [...keepLocal, ...addRemote];
+};
+
+const saleLabel = (s?: SaleRecord) => s ? `${s.date} · ${s.product} · ${s.amount.toFixed(2)}` : '';
+
+/**
+ * Three-way merge of two copies of the same master against the copy both
+ * last agreed on. Disjoint changes (different import batches, a rollback on
+ * one side, an edit to a different row) merge silently; anything changed
+ * differently on both sides is returned as a conflict. Without a base (first
+ * sync from this device) only identical items count as agreeing.
+ */
+export const mergeMasters = (base: MasterRecord | null, local: MasterRecord, remote: MasterRecord): MergeResult => {
+  const conflicts: SyncConflict[] = [];
+  const b: Partial<MasterRecord> = base || {};
+
+  const data = mergeKeyed<SaleRecord>(b.data || [], local.data, remote.data, (id, l, r) => {
+    conflicts.push({ type: 'sale', key: id, label: `Sale ${saleLabel(l || r)}`, local: l, remote: r });
+  });
+  const imports = mergeKeyed<ImportBatch>(b.imports || [], local.imports || [], remote.imports || [], (id, l, r) => {
+    conflicts.push({ type: 'import', key: id, label: `Import of ${(l || r)!.fileName}`, local: l, remote: r });
+  });
+
+  const merged: any = { ...local };
+  const fields = new Set([...Object.keys(local), ...Object.keys(remote)]);
+  fields.forEach(field => {
+    if (STRUCTURAL_FIELDS.has(field) || LOCAL_WINS_FIELDS.has(field)) return;
+    if (KEYED_FIELDS[field]) {
+      merged[field] = mergeKeyed<any>((b as any)[field] || [], (local as any)[field] || [], (remote as any)[field] || [], (id, l, r) => {
+        conflicts.push({ type: 'entry', key: `${field}/${id}`, label: KEYED_FIELDS[field](l || r), local: l, remote: r });
+      });
+      return;
+    }
+    const result = threeWay((b as any)[field], (local as any)[field], (remote as any)[field]);
+    if ('conflict' in result) {
+      conflicts.push({ type: 'field', key: field, label: `Setting "${field}"`, local: (local as any)[field], remote: (remote as any)[field] });
+    } else {
+      merged[field] = result.value;
+    }
+  });
+
+  merged.imports = imports;
+  merged.syncedFiles = mergeSet(b.syncedFiles || [], local.syncedFiles || [], remote.syncedFiles || []);
+  return { merged: withTotals(merged as MasterRecord, data), conflicts };
+};
+
+export const resolveMerge = (merge: MergeResult, choices: Record<string, ConflictChoice>): MasterRecord => {
+  const master: any = { ...merge.merged, imports: [...(merge.merged.imports || [])] };
+  const data = [...merge.merged.data];
+
+  merge.conflicts.forEach(conflict => {
+    const chosen = choices[`${conflict.type}:${conflict.key}`] === 'remote' ? conflict.remote : conflict.local;
+    if (chosen === undefined) return;
+    if (conflict.type === 'sale') data.push(chosen);
+    else if (conflict.type === 'import') master.imports.push(chosen);
+    else if (conflict.type === 'entry') {
+      const field = conflict.key.split('/')[0];
+      master[field] = [...(master[field] || []), chosen];
+    }
+    else master[conflict.key] = chosen;
+  });
+
+  return withTotals(master as MasterRecord, data);
+};
+
+/**
+ * Drive has no conditional upload, so a save landing between our version check
+ * and our upload is overwritten. It survives as the revision just before ours;
+ * when that isn't the revision we merged against, it is returned so it can be merged.
+ */
+const findOverwrittenSave = async (
+  drive: DriveApi,
+  saved: DriveFileMeta,
+  basedOn: DriveFileMeta,
+  base: MasterRecord | null
+): Promise<MasterRecord | null> => {
+  // Versions only ever increase, by at least one per change: one step can only be our own write
+  if (Number(saved.version) - Number(basedOn.version) <= 1) return null;
+  const revisions = await drive.listRevisions(saved.id);
+  const mine = revisions.findIndex(r => r.id === saved.headRevisionId);
+  const previous = mine > 0 ? revisions[mine - 1] : undefined;
+  if (!previous || previous.id === basedOn.headRevisionId) return null;
+  const overwritten = migrateMasterRecord(await drive.downloadRevision(saved.id, previous.id));
+  return overwritten.id === saved.appProperties?.masterId && !(base && same(overwritten, base)) ? overwritten : null;
+};
+
+/**
+ * Pushes the local master to Drive without clobbering someone else's save.
+ * The Drive file's version is compared with the one we last synced; if it
+ * moved, the remote copy is downloaded and merged first. A save that slipped
+ * in during the upload is merged and uploaded again. Real conflicts are handed
+ * back to the caller instead of being uploaded.
+ */
+export const syncMasterToDrive = async (
+  drive: DriveApi,
+  store: SyncStateStore,
+  local: MasterRecord
+): Promise<SyncOutcome> => {
+  const state = await store.getSyncState(local.id);
+  let remoteMeta = state?.fileId
+    ? await drive.getFileMetadata(state.fileId)
+    : await findMasterFile(drive, local.id);
+
+  let toUpload = local;
+  let base = state?.fileId === remoteMeta?.id ? state?.snapshot ?? null : null;
+  if (remoteMeta && remoteMeta.version !== state?.version) {
+    const remote = migrateMasterRecord(await drive.downloadFile(remoteMeta.id));
+    if (remote.id === local.id) {
+      const merge = mergeMasters(base, local, remote);
+      if (merge.conflicts.length > 0) return { status: 'conflict', merge, remote, remoteMeta };
+      toUpload = merge.merged;
+      base = remote;
+    } else {
+      // Another workspace's file (e.g. the legacy shared name) - this master gets its own.
+      remoteMeta = null;
+    }
+  } else if (remoteMeta && state && same(local, state.snapshot) && remoteMeta.appProperties?.masterId === local.id) {
+    return { status: 'unchanged' };
+  }
+
+  const upload = async (master: MasterRecord, fileId?: string) => {
+    const saved = await drive.saveJsonToCloud(masterFileName(master.name), master, fileId, masterFileProperties(master));
+    if (!saved) throw new Error("Drive upload failed.");
+    return saved;
+  };
+
+  let saved = await upload(toUpload, remoteMeta?.id);
+  const overwritten = remoteMeta ? await findOverwrittenSave(drive, saved, remoteMeta, base) : null;
+  if (overwritten) {
+    const merge = mergeMasters(base, toUpload, overwritten);
+    if (merge.conflicts.length > 0) return { status: 'conflict', merge, remote: overwritten, remoteMeta: saved };
+    toUpload = merge.merged;
+    saved = await upload(toUpload, saved.id);
+  }
+
+  const master = saved.webViewLink && toUpload.googleFileUrl !== saved.webViewLink
+    ? { ...toUpload, googleFileUrl: saved.webViewLink }
+    : toUpload;
+  await store.saveSyncState(local.id, { fileId: saved.id, version: saved.version, modifiedTime: saved.modifiedTime, snapshot: master });
+  return { status: 'uploaded', master };
+};
+
+/**
+ * After the user settles conflicts, the remote copy becomes the new base so
+ * the next sync uploads the resolved master instead of merging again.
+ */
+export const acceptRemoteAsBase = (store: SyncStateStore, remote: MasterRecord, remoteMeta: DriveFileMeta): Promise<void> =>
+  store.saveSyncState(remote.id, {
+    fileId: remoteMeta.id,
+    version: remoteMeta.version,
+    modifiedTime: remoteMeta.modifiedTime,
+    snapshot: remote
+  });
@@ -0,0 +1,139 @@
+import { CatalogProduct, Category, MasterRecord, ProductCost, SaleRecord } from '../types';
+import { buildProductIndex, canonicalProductName } from './catalog';
+import { topLevelCategoryName } from './categories';
+import { netSales, unitsSold } from './ledger';
+import { generateId } from './masterRecord';
+
+const nameKey = (name: string) => name.trim().toLowerCase();
+
+export type CostDraft = Omit<ProductCost, 'id' | 'productId'>;
+
+export interface ProfitLine {
+  name: string;
+  revenue: number;               // Only sales whose cost is known
+  cost: number;
+  profit: number;
+  margin: number | null;         // Share of revenue kept; null without revenue
+}
+
+export interface ProfitSummary {
+  revenue: number;
+  cost: number;
+  profit: number;
+  margin: number | null;
+  costedSales: number;
+  totalSales: number;
+  products: ProfitLine[];        // Most profitable first
+  categories: ProfitLine[];
+}
+
+export const unitCost = (entry: ProductCost) => entry.materialCost + entry.laborCost;
+
+// The entry in force on a date: the latest effectiveFrom on or before it.
+export const costOn = (entries: ProductCost[], date: string): ProductCost | undefined =>
+  entries
+    .filter(e => !e.effectiveFrom || e.effectiveFrom <= date)
+    .sort((a, b) => (b.effectiveFrom || '').localeCompare(a.effectiveFrom || ''))[0];
+
+/**
+ * Returns a function giving the cost of goods for a sale: the reported cost
+ * if the import had one, otherwise the product's unit cost on the sale date
+ * times the quantity. Undefined means the cost is unknown.
+ */
+export const costResolver = (products: CatalogProduct[], costs: ProductCost[]) => {
+  const productIndex = buildProductIndex(products);
+  const idByName = new Map(products.map(p => [nameKey(p.name), p.id]));
+  const entriesById = new Map<string, ProductCost[]>();
+  costs.forEach(c => entriesById.set(c.productId, [...(entriesById.get(c.productId) || []), c]));
+
+  return (sale: SaleRecord): number | undefined => {
+    if (sale.cost !== undefined) return sale.cost;
+    const productId = idByName.get(nameKey(canonicalProductName(productIndex, sale.product)));
+    const entry = productId ? costOn(entriesById.get(productId) || [], sale.date) : undefined;
+    return entry ? unitCost(entry) * unitsSold(sale) : undefined;
+  };
+};
+
+const toLines = (totals: Map<string, { revenue: number, cost: number }>): ProfitLine[] =>
+  [...totals.entries()]
+    .map(([name, t]) => ({
+      name,
+      revenue: t.revenue,
+      cost: t.cost,
+      profit: t.revenue - t.cost,
+      margin: t.revenue ? (t.revenue - t.cost) / t.revenue : null
+    }))
+    .sort((a, b) => b.profit - a.profit);
+
+/**
+ * Gross profit over the sales whose cost is known. Sales without a cost are
+ * left out of every figure rather than counted as free to make.
+ */
+export const profitSummary = (
+  sales: SaleRecord[],
+  resolveCost: (sale: SaleRecord) => number | undefined,
+  productIndex: Map<string, string>,
+  categories: Category[]
+): ProfitSummary => {
+  const byProduct = new Map<string, { revenue: number, cost: number }>();
+  const byCategory = new Map<string, { revenue: number, cost: number }>();
+  let revenue = 0;
+  let cost = 0;
+  let costedSales = 0;
+
+  const add = (map: Map<string, { revenue: number, cost: number }>, key: string, saleRevenue: number, saleCost: number) => {
+    const total = map.get(key) || { revenue: 0, cost: 0 };
+    total.revenue += saleRevenue;
+    total.cost += saleCost;
+    map.set(key, total);
+  };
+
+  sales.forEach(sale => {
+    const saleCost = resolveCost(sale);
+    if (saleCost === undefined) return;
+    costedSales++;
+    const saleRevenue = netSales(sale);
+    revenue += saleRevenue;
+    cost += saleCost;
+    add(byProduct, canonicalProductName(productIndex, sale.product), saleRevenue, saleCost);
+    add(byCategory, topLevelCategoryName(categories, sale.category), saleRevenue, saleCost);
+  });
+
+  return {
+    revenue,
+    cost,
+    profit: revenue - cost,
+    margin: revenue ? (revenue - cost) / revenue : null,
+    costedSales,
+    totalSales: sales.length,
+    products: toLines(byProduct),
+    categories: toLines(byCategory)
+  };
+};
+
+/**
+ * Adds or replaces the cost of a product from a given date. Products that
+ * only exist as raw sale names are added to the catalog so the cost has an
+ * id to hang on.
+ */
+export const setProductCost = (master: MasterRecord, productName: string, draft: CostDraft): MasterRecord => {
+  let products = master.products;
+  let product = products.find(p => nameKey(p.name) === nameKey(productName));
+  if (!product) {
+    product = { id: generateId(), name: productName.trim(), aliases: [] };
+    products = [...products, product];
+  }
+  const effectiveFrom = draft.effectiveFrom || undefined;
+  const existing = master.costs.find(c => c.productId === product!.id && (c.effectiveFrom || undefined) === effectiveFrom);
+  const entry: ProductCost = { id: existing?.id || generateId(), productId: product.id, ...draft, effectiveFrom };
+  return {
+    ...master,
+    products,
+    costs: existing ? master.costs.map(c => (c.id === existing.id ? entry : c)) : [...master.costs, entry]
+  };
+};
+
+export const deleteProductCost = (master: MasterRecord, costId: string): MasterRecord => ({
+  ...master,
+  costs: master.costs.filter(c => c.id !== costId)
+});
@@ -0,0 +1,137 @@
+import { ExchangeRate, MasterRecord, SaleRecord } from '../types';
+
+export const DEFAULT_CURRENCY = 'USD';
+
+// Offered in pickers; any other ISO 4217 code can still be typed or imported.
+export const COMMON_CURRENCIES = ['USD', 'EUR', 'GBP', 'CAD', 'AUD', 'NZD', 'JPY', 'CHF', 'SEK', 'NOK', 'DKK', 'PLN', 'MXN'];
+
+const SYMBOLS: Record<string, string> = {
+  '€': 'EUR', '£': 'GBP', '¥': 'JPY', 'CA$': 'CAD', 'C$': 'CAD', 'A$': 'AUD', 'NZ$': 'NZD', 'US$': 'USD', '$': 'USD'
+};
+
+// Longest symbols first so "CA$" is not read as "$".
+const SYMBOL_KEYS = Object.keys(SYMBOLS).sort((a, b) => b.length - a.length);
+
+// The money fields a sale carries, all in the sale's own currency.
+const MONEY_FIELDS = ['amount', 'gross', 'discount', 'tax', 'shipping', 'fee', 'refund', 'cost'] as const;
+
+/**
+ * Reads a currency cell: ISO codes in any case ("eur"), or a symbol.
+ * Returns undefined for anything else.
+ */
+export const normalizeCurrency = (val: any): string | undefined => {
+  const raw = String(val ?? '').trim().toUpperCase();
+  if (/^[A-Z]{3}$/.test(raw)) return raw;
+  return SYMBOLS[raw];
+};
+
+// Picks the currency out of a formatted amount such as "€12,00" or "12.00 GBP"; bare "$" is not trusted.
+export const detectCurrency = (val: any): string | undefined => {
+  if (typeof val !== 'string') return undefined;
+  const code = val.toUpperCase().match(/\b([A-Z]{3})\b/);
+  if (code && COMMON_CURRENCIES.includes(code[1])) return code[1];
+  const symbol = SYMBOL_KEYS.find(s => s !== '$' && val.toUpperCase().includes(s));
+  return symbol ? SYMBOLS[symbol] : undefined;
+};
+
+export const rateId = (currency: string, effectiveFrom: string) => `${currency}-${effectiveFrom}`;
+
+/**
+ * Units of the reporting currency per one unit of `currency` on a date: the
+ * latest rate on or before it, else the earliest one known. Undefined when
+ * the currency has no rates at all.
+ */
+export const rateOn = (rates: ExchangeRate[], currency: string, date: string): number | undefined => {
+  const known = rates.filter(r => r.currency === currency).sort((a, b) => a.effectiveFrom.localeCompare(b.effectiveFrom));
+  if (!known.length) return undefined;
+  const inForce = known.filter(r => r.effectiveFrom <= date).pop();
+  return (inForce || known[0]).rate;
+};
+
+export interface ConversionResult {
+  sales: SaleRecord[];
+  missingRates: string[];        // Currencies left unconverted because no rate exists
+}
+
+/**
+ * Expresses every sale in the reporting currency. Sales without a currency
+ * are already in it. Sales in a currency with no rate keep their numbers
+ * and are reported, so totals are never silently mixed.
+ */
+export const convertSales = (sales: SaleRecord[], reporting: string, rates: ExchangeRate[]): ConversionResult => {
+  const missing = new Set<string>();
+  const converted = sales.map(sale => {
+    if (!sale.currency || sale.currency === reporting) return sale;
+    const rate = rateOn(rates, sale.currency, sale.date);
+    if (rate === undefined) {
+      missing.add(sale.currency);
+      return sale;
+    }
+    const next: SaleRecord = { ...sale, currency: reporting };
+    MONEY_FIELDS.forEach(field => {
+      if (sale[field] !== undefined) next[field] = Math.round(sale[field]! * rate * 100) / 100;
+    });
+    return next;
+  });
+  return { sales: converted, missingRates: [...missing].sort() };
+};
+
+export const currenciesInUse = (master: MasterRecord): string[] =>
+  [...new Set(master.data.map(s => s.currency).filter((c): c is string => !!c && c !== master.reportingCurrency))].sort();
+
+const formatters = new Map<string, Intl.NumberFormat>();
+
+const formatter = (currency: string, digits: number) => {
+  const key = `${currency}|${digits}`;
+  if (!formatters.has(key)) {
+    formatters.set(key, new Intl.NumberFormat(undefined, {
+      style: 'currency',
+      currency,
+      minimumFractionDigits: digits,
+      maximumFractionDigits: digits
+    }));
+  }
+  return formatters.get(key)!;
+};
+
+/**
+ * Formats an amount in a currency with the browser's locale. Whole amounts
+ * drop the cents unless `cents` is set; unknown codes fall back to "XYZ 1.00".
+ */
+export const formatMoney = (value: number, currency: string = DEFAULT_CURRENCY, cents: boolean = false): string => {
+  const whole = !cents && Math.round(value * 100) % 100 === 0;
+  try {
+    return formatter(currency, whole ? 0 : 2).format(value);
+  } catch (e) {
+    return `${currency} ${value.toFixed(whole ? 0 : 2)}`;
+  }
+};
+
+export const setExchangeRate = (master: MasterRecord, rate: Omit<ExchangeRate, 'id'>): MasterRecord => {
+  const id = rateId(rate.currency, rate.effectiveFrom);
+  return {
+    ...master,
+    exchangeRates: [...master.exchangeRates.filter(r => r.id !== id), { id, ...rate }]
+  };
+};
+
+export const deleteExchangeRate = (master: MasterRecord, id: string): MasterRecord => ({
+  ...master,
+  exchangeRates: master.exchangeRates.filter(r => r.id !== id)
+});
+
+/**
+ * Switches the reporting currency. Sales that had none were in the old one
+ * and are stamped with it, and the old rates (quoted in the old currency)
+ * are dropped; the caller is expected to have confirmed that.
+ */
+export const setReportingCurrency = (master: MasterRecord, currency: string): MasterRecord => {
+  if (currency === master.reportingCurrency) return master;
+  const previous = master.reportingCurrency;
+  return {
+    ...master,
+    reportingCurrency: currency,
+    exchangeRates: [],
+    data: master.data.map(s => (s.currency ? s : { ...s, currency: previous }))
+  };
+};
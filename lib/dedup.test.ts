@@ -0,0 +1,67 @@
+import { describe, expect, it } from 'vitest';
+import { SaleRecord } from '../types';
+import { findDuplicates, fingerprintSale, hashSourceRow } from './dedup';
+
+const sale = (id: string, overrides: Partial<SaleRecord> = {}): SaleRecord => ({
+  id,
+  date: '2025-03-01',
+  product: 'Serum',
+  category: 'General',
+  quantity: 1,
+  amount: 25,
+  ...overrides
+});
+
+describe('hashSourceRow', () => {
+  it('ignores column order, case and surrounding whitespace', () => {
+    expect(hashSourceRow({ Order: 'A-1', Item: 'Serum ' })).toBe(hashSourceRow({ Item: 'serum', Order: 'a-1' }));
+  });
+
+  it('reads Date cells by day', () => {
+    expect(hashSourceRow({ Date: new Date('2025-03-01T10:00:00Z') })).toBe(hashSourceRow({ Date: '2025-03-01' }));
+  });
+
+  it('tells rows apart by columns the mapping ignores', () => {
+    expect(hashSourceRow({ Item: 'Serum', Order: 'A-1' })).not.toBe(hashSourceRow({ Item: 'Serum', Order: 'A-2' }));
+  });
+});
+
+describe('findDuplicates', () => {
+  const row = { Date: '2025-03-01', Item: 'Serum', Total: '25', Order: 'A-1' };
+  const print = (order: string, s: SaleRecord = sale('x')) => fingerprintSale(s, { ...row, Order: order });
+
+  it('matches incoming rows on their fingerprint', () => {
+    const existing = [sale('e1', { fingerprint: print('A-1') })];
+    const scan = findDuplicates(existing, [
+      sale('n1', { fingerprint: print('A-1') }),
+      sale('n2', { fingerprint: print('A-2') })
+    ]);
+    expect(scan.unique.map(s => s.id)).toEqual(['n2']);
+    expect(scan.duplicates.map(d => [d.sale.id, d.existing.id])).toEqual([['n1', 'e1']]);
+  });
+
+  it('matches one-to-one, so a repeated row only collides once per stored copy', () => {
+    const existing = [sale('e1', { fingerprint: print('A-1') })];
+    const scan = findDuplicates(existing, [
+      sale('n1', { fingerprint: print('A-1') }),
+      sale('n2', { fingerprint: print('A-1') })
+    ]);
+    expect(scan.duplicates.map(d => d.sale.id)).toEqual(['n1']);
+    expect(scan.unique.map(s => s.id)).toEqual(['n2']);
+  });
+
+  it('compares records without a fingerprint on date, product, amount and quantity', () => {
+    const existing = [sale('legacy', { product: ' serum ' })];
+    const scan = findDuplicates(existing, [
+      sale('n1', { fingerprint: print('A-1') }),
+      sale('n2', { fingerprint: print('A-2'), amount: 30 })
+    ]);
+    expect(scan.duplicates.map(d => [d.sale.id, d.existing.id])).toEqual([['n1', 'legacy']]);
+    expect(scan.unique.map(s => s.id)).toEqual(['n2']);
+  });
+
+  it('keeps everything when the master is empty', () => {
+    const incoming = [sale('n1'), sale('n2')];
+    expect(findDuplicates([], incoming)).toEqual({ unique: incoming, duplicates: [] });
+  });
+});
@@ -0,0 +1,78 @@
+import { SaleRecord } from '../types';
+
+export interface DuplicateMatch {
+  sale: SaleRecord;      // Incoming row that looks like one we already have
+  existing: SaleRecord;  // The record already in the master it collides with
+}
+
+export interface DuplicateScan {
+  unique: SaleRecord[];
+  duplicates: DuplicateMatch[];
+}
+
+// FNV-1a, short and stable across sessions - good enough to tell rows apart.
+export const hashString = (input: string): string => {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < input.length; i++) {
+    hash ^= input.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return (hash >>> 0).toString(16).padStart(8, '0');
+};
+
+// Hashes every cell of the raw spreadsheet row, so order ids / timestamps
+// keep two identical-looking sales apart even if our mapping ignores them.
+export const hashSourceRow = (row: Record<string, any>): string => {
+  const cells = Object.keys(row)
+    .sort()
+    .map(key => {
+      const val = row[key];
+      if (val instanceof Date) return val.toISOString().split('T')[0];
+      return String(val ?? '').trim().toLowerCase();
+    });
+  return hashString(cells.join('\u001f'));
+};
+
+const baseKey = (sale: Pick<SaleRecord, 'date' | 'product' | 'amount' | 'quantity'>) =>
+  [
+    sale.date,
+    (sale.product || '').trim().toLowerCase(),
+    (Number(sale.amount) || 0).toFixed(2),
+    sale.quantity
+  ].join('|');
+
+export const fingerprintSale = (
+  sale: Pick<SaleRecord, 'date' | 'product' | 'amount' | 'quantity'>,
+  sourceRow: Record<string, any>
+): string => `${baseKey(sale)}|${hashSourceRow(sourceRow)}`;
+
+/**
+ * Splits incoming rows into new sales and ones already present in the master.
+ * Matching is one-to-one: two identical rows in the file only collide with
+ * two identical records in the master. Records synced before fingerprints
+ * existed are compared on date/product/amount/quantity alone.
+ */
+export const findDuplicates = (existing: SaleRecord[], incoming: SaleRecord[]): DuplicateScan => {
+  const byFingerprint = new Map<string, SaleRecord[]>();
+  const legacyByKey = new Map<string, SaleRecord[]>();
+
+  existing.forEach(record => {
+    const index = record.fingerprint ? byFingerprint : legacyByKey;
+    const key = record.fingerprint || baseKey(record);
+    if (!index.has(key)) index.set(key, []);
+    index.get(key)!.push(record);
+  });
+
+  const unique: SaleRecord[] = [];
+  const duplicates: DuplicateMatch[] = [];
+
+  incoming.forEach(sale => {
+    const exact = sale.fingerprint ? byFingerprint.get(sale.fingerprint) : undefined;
+    const legacy = legacyByKey.get(baseKey(sale));
+    const match = exact?.shift() || legacy?.shift();
+    if (match) duplicates.push({ sale, existing: match });
+    else unique.push(sale);
+  });
+
+  return { unique, duplicates };
+};
@@ -0,0 +1,57 @@
+import { describe, expect, it } from 'vitest';
+import { MasterRecord, SaleRecord } from '../types';
+import { convertSales } from './currency';
+import { saleRows, storedSales, summaryRows } from './exporter';
+import { migrateMasterRecord } from './schema';
+
+const sale = (id: string, overrides: Partial<SaleRecord> = {}): SaleRecord => ({
+  id,
+  date: '2025-03-01',
+  product: 'Serum',
+  category: 'General',
+  quantity: 1,
+  amount: 100,
+  ...overrides
+});
+
+const master: MasterRecord = {
+  ...migrateMasterRecord({
+    schemaVersion: 1, id: 'm1', name: 'Shop', lastUpdated: '', totalSales: 0, totalRevenue: 0,
+    data: [sale('usd'), sale('eur', { currency: 'EUR', fee: 10 }), sale('gbp', { currency: 'GBP', date: '2025-04-01' })]
+  }),
+  exchangeRates: [
+    { id: 'EUR-2025-01-01', currency: 'EUR', rate: 1.1, effectiveFrom: '2025-01-01' },
+    { id: 'GBP-2025-01-01', currency: 'GBP', rate: 1.25, effectiveFrom: '2025-01-01' }
+  ]
+};
+
+describe('saleRows', () => {
+  it('keeps each sale in its own currency next to net sales and payout in the reporting currency', () => {
+    const rows = saleRows(master.data, master);
+    expect(rows.map(r => [r['Record Id'], r.Currency, r.Amount, r.Fee, r['Net Sales (USD)'], r['Payout (USD)']])).toEqual([
+      ['usd', 'USD', 100, '', 100, 100],
+      ['eur', 'EUR', 100, 10, 110, 99],
+      ['gbp', 'GBP', 100, '', 125, 125]
+    ]);
+  });
+});
+
+describe('storedSales', () => {
+  it('exports a filtered, converted view as the stored records, converted once', () => {
+    const view = convertSales(master.data, 'USD', master.exchangeRates).sales.filter(s => s.date < '2025-04-01');
+    const rows = saleRows(storedSales(master, view), master);
+    expect(rows.map(r => [r['Record Id'], r.Currency, r.Amount, r['Net Sales (USD)']])).toEqual([
+      ['usd', 'USD', 100, 100],
+      ['eur', 'EUR', 100, 110]
+    ]);
+  });
+});
+
+describe('summaryRows', () => {
+  it('totals revenue in the reporting currency', () => {
+    expect(summaryRows('monthly', master.data, master)).toEqual([
+      { Month: '2025-03', Units: 2, Sales: 2, 'Revenue (USD)': 210 },
+      { Month: '2025-04', Units: 1, Sales: 1, 'Revenue (USD)': 125 }
+    ]);
+  });
+});
@@ -0,0 +1,133 @@
+import * as XLSX from 'xlsx';
+import { MasterRecord, SaleRecord } from '../types';
+import { buildProductIndex, canonicalProductName } from './catalog';
+import { topLevelCategoryName } from './categories';
+import { convertSales } from './currency';
+import { netSales, payout, unitsSold } from './ledger';
+
+export type ExportFormat = 'csv' | 'xlsx' | 'json';
+
+export type SummarySheet = 'products' | 'categories' | 'daily' | 'monthly';
+
+export const SUMMARY_SHEET_LABELS: Record<SummarySheet, string> = {
+  products: 'Product summary',
+  categories: 'Category summary',
+  daily: 'Daily trend',
+  monthly: 'Monthly summary'
+};
+
+export type Row = Record<string, string | number>;
+
+const round = (n: number) => Math.round(n * 100) / 100;
+
+const fileSafe = (name: string) => name.replace(/[\\/:*?"<>|]+/g, '-').trim() || 'Sales';
+
+/**
+ * One row per sale as stored: money in the sale's own currency, plus net
+ * sales in the reporting currency so the sheet can be totalled as-is.
+ */
+export const saleRows = (sales: SaleRecord[], master: MasterRecord): Row[] => {
+  const converted = convertSales(sales, master.reportingCurrency, master.exchangeRates).sales;
+  return sales.map((sale, i) => ({
+    Date: sale.date,
+    Product: sale.product,
+    Category: sale.category,
+    Quantity: sale.quantity,
+    Currency: sale.currency || master.reportingCurrency,
+    Amount: sale.amount,
+    Gross: sale.gross ?? '',
+    Discount: sale.discount ?? '',
+    Refund: sale.refund ?? '',
+    Tax: sale.tax ?? '',
+    Shipping: sale.shipping ?? '',
+    Fee: sale.fee ?? '',
+    Cost: sale.cost ?? '',
+    [`Net Sales (${master.reportingCurrency})`]: round(netSales(converted[i])),
+    [`Payout (${master.reportingCurrency})`]: round(payout(converted[i])),
+    'Zip / Postal Code': sale.customerZip || '',
+    'Order Id': sale.orderId || '',
+    'Record Id': sale.id
+  }));
+};
+
+// The stored records behind a dashboard view, whose copies are already converted.
+export const storedSales = (master: MasterRecord, view: SaleRecord[]): SaleRecord[] => {
+  const ids = new Set(view.map(s => s.id));
+  return master.data.filter(s => ids.has(s.id));
+};
+
+export const summaryRows = (sheet: SummarySheet, sales: SaleRecord[], master: MasterRecord): Row[] => {
+  const converted = convertSales(sales, master.reportingCurrency, master.exchangeRates).sales;
+  const productIndex = buildProductIndex(master.products);
+  const keyOf: Record<SummarySheet, (s: SaleRecord) => string> = {
+    products: s => canonicalProductName(productIndex, s.product),
+    categories: s => topLevelCategoryName(master.categories, s.category || 'General'),
+    daily: s => s.date,
+    monthly: s => s.date.slice(0, 7)
+  };
+
+  const totals = new Map<string, { units: number, revenue: number, sales: number }>();
+  converted.forEach(sale => {
+    const key = keyOf[sheet](sale);
+    const total = totals.get(key) || { units: 0, revenue: 0, sales: 0 };
+    total.units += unitsSold(sale);
+    total.revenue += netSales(sale);
+    total.sales++;
+    totals.set(key, total);
+  });
+
+  const entries = [...totals.entries()];
+  if (sheet === 'daily' || sheet === 'monthly') entries.sort((a, b) => a[0].localeCompare(b[0]));
+  else entries.sort((a, b) => b[1].revenue - a[1].revenue);
+
+  const label = { products: 'Product', categories: 'Category', daily: 'Date', monthly: 'Month' }[sheet];
+  return entries.map(([key, t]) => ({
+    [label]: key,
+    Units: t.units,
+    Sales: t.sales,
+    [`Revenue (${master.reportingCurrency})`]: round(t.revenue)
+  }));
+};
+
+const download = (content: BlobPart, type: string, fileName: string) => {
+  const url = URL.createObjectURL(new Blob([content], { type }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  setTimeout(() => URL.revokeObjectURL(url), 0);
+};
+
+export interface ExportOptions {
+  sales: SaleRecord[];
+  scopeLabel: string;            // Ends up in the file name, e.g. "All records"
+  summaries?: SummarySheet[];    // Extra sheets; XLSX only
+}
+
+/**
+ * Saves sales as a CSV or a workbook. CSV carries only the sales table,
+ * since it has no room for extra sheets.
+ */
+export const exportSales = (master: MasterRecord, format: Exclude<ExportFormat, 'json'>, { sales, scopeLabel, summaries = [] }: ExportOptions) => {
+  const baseName = fileSafe(`${master.name} - ${scopeLabel}`);
+  const salesSheet = XLSX.utils.json_to_sheet(saleRows(sales, master));
+
+  if (format === 'csv') {
+    // The byte-order mark makes Excel read accented names as UTF-8
+    download(`\uFEFF${XLSX.utils.sheet_to_csv(salesSheet)}`, 'text/csv;charset=utf-8', `${baseName}.csv`);
+    return;
+  }
+
+  const workbook = XLSX.utils.book_new();
+  XLSX.utils.book_append_sheet(workbook, salesSheet, 'Sales');
+  summaries.forEach(sheet => {
+    XLSX.utils.book_append_sheet(workbook, XLSX.utils.json_to_sheet(summaryRows(sheet, sales, master)), SUMMARY_SHEET_LABELS[sheet]);
+  });
+  XLSX.writeFile(workbook, `${baseName}.xlsx`);
+};
+
+// The whole master as stored, which the setup screen can open again as a local backup.
+export const exportMasterBackup = (master: MasterRecord) => {
+  const day = new Date().toISOString().slice(0, 10);
+  download(JSON.stringify(master, null, 2), 'application/json', `${fileSafe(master.name)} - backup ${day}.json`);
+};
@@ -0,0 +1,72 @@
+import { describe, expect, it } from 'vitest';
+import { SaleRecord } from '../types';
+import { bucketForecast, forecastSales, forecastTotal } from './forecast';
+import { addDays, parseIsoDay } from './periods';
+
+// One sale a day from `start`, with revenue and units from `value(day index, date)`.
+const history = (start: string, days: number, value: (i: number, date: string) => number): SaleRecord[] =>
+  Array.from({ length: days }, (_, i) => {
+    const date = addDays(start, i);
+    const amount = value(i, date);
+    return { id: `s${i}`, date, product: 'Serum', category: 'General', quantity: Math.round(amount / 10), amount };
+  });
+
+const isWeekend = (date: string) => [0, 6].includes(parseIsoDay(date).getDay());
+
+describe('forecastSales', () => {
+  it('needs four weeks of history', () => {
+    expect(forecastSales([], 4)).toBeNull();
+    expect(forecastSales(history('2025-01-01', 20, () => 100), 4)).toBeNull();
+  });
+
+  it('carries a steady level forward from the day after the last sale', () => {
+    const forecast = forecastSales(history('2025-01-01', 70, () => 100), 4)!;
+    expect(forecast.historyDays).toBe(70);
+    expect(forecast.days).toHaveLength(28);
+    expect(forecast.days[0]).toMatchObject({ date: '2025-03-12', week: 0 });
+    expect(forecast.days[27].week).toBe(3);
+    forecast.days.forEach(day => {
+      expect(day.revenue).toBeCloseTo(100);
+      expect(day.units).toBeCloseTo(10);
+    });
+    expect(forecast.revenueError).toBe(0.05);
+  });
+
+  it('starts from a later date when asked', () => {
+    expect(forecastSales(history('2025-01-01', 70, () => 100), 1, '2025-04-01')!.days[0].date).toBe('2025-04-01');
+  });
+
+  it('follows the weekday pattern', () => {
+    const forecast = forecastSales(history('2025-01-01', 84, (_, date) => (isWeekend(date) ? 200 : 100)), 1)!;
+    forecast.days.forEach(day => expect(day.revenue).toBeCloseTo(isWeekend(day.date) ? 200 : 100));
+  });
+
+  it('scores past weeks only on the days before them', () => {
+    // A fit that could see the week it predicts would call this growth error-free.
+    const forecast = forecastSales(history('2025-01-01', 84, i => 100 + 5 * i), 1)!;
+    expect(forecast.revenueError).toBeGreaterThan(0.1);
+  });
+});
+
+describe('bucketForecast', () => {
+  const forecast = forecastSales(history('2025-01-01', 70, () => 100), 4)!;
+
+  it('groups days into chart buckets with a band around each total', () => {
+    const weeks = bucketForecast(forecast, 'week');
+    expect(weeks.reduce((sum, b) => sum + b.revenue, 0)).toBeCloseTo(2800, 0);
+    weeks.forEach(b => {
+      expect(b.revenueLow).toBeLessThan(b.revenue);
+      expect(b.revenueHigh).toBeGreaterThan(b.revenue);
+    });
+  });
+
+  it('widens the band further out', () => {
+    const [first, ...rest] = bucketForecast(forecast, 'day');
+    const last = rest[rest.length - 1];
+    expect(last.revenueHigh - last.revenue).toBeGreaterThan(first.revenueHigh - first.revenue);
+  });
+
+  it('totals the whole horizon', () => {
+    expect(forecastTotal(forecast)).toMatchObject({ date: '2025-03-12', revenue: 2800, units: 280 });
+  });
+});
@@ -0,0 +1,194 @@
+import { SaleRecord } from '../types';
+import { Granularity, addDays, bucketStart, daysInRange, parseIsoDay } from './periods';
+import { netSales, unitsSold } from './ledger';
+
+export const FORECAST_WEEKS = [4, 8, 12];
+
+// Less history than this gives seasonal factors that are mostly noise.
+const MIN_HISTORY_DAYS = 28;
+// Month factors need a year of data to see each month at least once.
+const MIN_DAYS_FOR_MONTH_SEASONALITY = 365;
+const LEVEL_WINDOW_DAYS = 56;
+// Days of evidence a month factor needs before it counts as much as the neutral 1.
+const MONTH_SHRINKAGE_DAYS = 14;
+// Roughly an 80% band if weekly errors are normal.
+const BAND_Z = 1.28;
+
+export interface ForecastDay {
+  date: string;
+  week: number;                  // 0 for the first seven forecast days
+  revenue: number;
+  units: number;
+}
+
+export interface SalesForecast {
+  days: ForecastDay[];
+  revenueError: number;          // Typical relative error of a weekly total
+  unitsError: number;
+  historyDays: number;
+}
+
+export interface ForecastBucket {
+  date: string;
+  revenue: number;
+  revenueLow: number;
+  revenueHigh: number;
+  units: number;
+  unitsLow: number;
+  unitsHigh: number;
+}
+
+interface SeriesModel {
+  predict: (date: string) => number;
+  relativeError: number;
+}
+
+interface SeasonalFit {
+  factor: (weekday: number, month: number) => number;
+  level: number;                 // Deseasonalised daily value over the last LEVEL_WINDOW_DAYS
+}
+
+const mean = (values: number[]) => (values.length ? values.reduce((a, b) => a + b, 0) / values.length : 0);
+
+// Weekday and month factors and the recent level, learned from the first `end` days only.
+const fitPrefix = (values: number[], weekdays: number[], months: number[], end: number): SeasonalFit | null => {
+  const history = values.slice(0, end);
+  const overall = mean(history);
+  if (overall <= 0) return null;
+
+  const weekdayFactor = Array.from({ length: 7 }, (_, day) => {
+    const sample = history.filter((_, i) => weekdays[i] === day);
+    return sample.length ? mean(sample) / overall : 1;
+  });
+
+  const monthFactor = Array.from({ length: 12 }, (_, month) => {
+    if (history.length < MIN_DAYS_FOR_MONTH_SEASONALITY) return 1;
+    const sample = history
+      .map((v, i) => (months[i] === month && weekdayFactor[weekdays[i]] > 0 ? v / weekdayFactor[weekdays[i]] : null))
+      .filter((v): v is number => v !== null);
+    if (!sample.length) return 1;
+    return (sample.length * (mean(sample) / overall) + MONTH_SHRINKAGE_DAYS) / (sample.length + MONTH_SHRINKAGE_DAYS);
+  });
+
+  const factor = (weekday: number, month: number) => weekdayFactor[weekday] * monthFactor[month];
+  const window: number[] = [];
+  for (let i = Math.max(0, end - LEVEL_WINDOW_DAYS); i < end; i++) {
+    const f = factor(weekdays[i], months[i]);
+    if (f > 0) window.push(values[i] / f);
+  }
+  return { factor, level: mean(window) };
+};
+
+/**
+ * Multiplicative model: a recent deseasonalised level times weekday and
+ * month factors. The error is measured by replaying the model over past
+ * weeks, each predicted from a fit to the days before it.
+ */
+const fitSeries = (dates: string[], values: number[]): SeriesModel | null => {
+  const weekdays = dates.map(d => parseIsoDay(d).getDay());
+  const months = dates.map(d => parseIsoDay(d).getMonth());
+  const model = fitPrefix(values, weekdays, months, values.length);
+  if (!model) return null;
+
+  const errors: number[] = [];
+  for (let end = values.length; end - 7 >= MIN_HISTORY_DAYS; end -= 7) {
+    const past = fitPrefix(values, weekdays, months, end - 7);
+    if (!past) continue;
+    let actual = 0;
+    let fitted = 0;
+    for (let i = end - 7; i < end; i++) {
+      actual += values[i];
+      fitted += past.level * past.factor(weekdays[i], months[i]);
+    }
+    if (fitted > 0) errors.push(actual / fitted - 1);
+  }
+  const spread = errors.length >= 4 ? Math.sqrt(mean(errors.map(e => e * e))) : 0.35;
+
+  return {
+    predict: (date: string) => {
+      const parsed = parseIsoDay(date);
+      return model.level * model.factor(parsed.getDay(), parsed.getMonth());
+    },
+    relativeError: Math.max(spread, 0.05)
+  };
+};
+
+/**
+ * Projects daily revenue and units for the next `weeks` weeks, starting the
+ * day after the latest sale unless `from` is given. Returns null when there
+ * is too little history to say anything useful.
+ */
+export const forecastSales = (data: SaleRecord[], weeks: number, from?: string): SalesForecast | null => {
+  const dated = data.filter(s => s.date);
+  if (!dated.length) return null;
+
+  const dates = dated.map(s => s.date).sort();
+  const first = dates[0];
+  const last = dates[dates.length - 1];
+  const historyDays = daysInRange({ start: first, end: last });
+  if (historyDays < MIN_HISTORY_DAYS) return null;
+
+  const revenueByDay: Record<string, number> = {};
+  const unitsByDay: Record<string, number> = {};
+  dated.forEach(s => {
+    revenueByDay[s.date] = (revenueByDay[s.date] || 0) + netSales(s);
+    unitsByDay[s.date] = (unitsByDay[s.date] || 0) + unitsSold(s);
+  });
+
+  const days: string[] = [];
+  for (let date = first; date <= last; date = addDays(date, 1)) days.push(date);
+
+  const revenueModel = fitSeries(days, days.map(d => revenueByDay[d] || 0));
+  const unitsModel = fitSeries(days, days.map(d => unitsByDay[d] || 0));
+  if (!revenueModel || !unitsModel) return null;
+
+  const start = from && from > last ? from : addDays(last, 1);
+  return {
+    days: Array.from({ length: weeks * 7 }, (_, i) => {
+      const date = addDays(start, i);
+      return {
+        date,
+        week: Math.floor(i / 7),
+        revenue: Math.max(0, revenueModel.predict(date)),
+        units: Math.max(0, unitsModel.predict(date))
+      };
+    }),
+    revenueError: revenueModel.relativeError,
+    unitsError: unitsModel.relativeError,
+    historyDays
+  };
+};
+
+const round = (n: number) => Math.round(n * 100) / 100;
+
+// Weekly error scaled to the bucket length, and widened the further out the bucket ends.
+const summarise = (date: string, days: ForecastDay[], forecast: SalesForecast): ForecastBucket => {
+  const revenue = days.reduce((sum, d) => sum + d.revenue, 0);
+  const units = days.reduce((sum, d) => sum + d.units, 0);
+  const scale = BAND_Z * Math.sqrt(7 / days.length) * Math.sqrt(1 + days[days.length - 1].week / 8);
+  const band = (value: number, error: number) => [Math.max(0, value * (1 - error * scale)), value * (1 + error * scale)];
+  const [revenueLow, revenueHigh] = band(revenue, forecast.revenueError);
+  const [unitsLow, unitsHigh] = band(units, forecast.unitsError);
+  return {
+    date,
+    revenue: round(revenue),
+    revenueLow: round(revenueLow),
+    revenueHigh: round(revenueHigh),
+    units: Math.round(units),
+    unitsLow: Math.round(unitsLow),
+    unitsHigh: Math.round(unitsHigh)
+  };
+};
+
+// Groups forecast days into the same buckets the revenue chart uses.
+export const bucketForecast = (forecast: SalesForecast, granularity: Granularity): ForecastBucket[] => {
+  const groups = new Map<string, ForecastDay[]>();
+  forecast.days.forEach(day => {
+    const key = bucketStart(day.date, granularity);
+    groups.set(key, [...(groups.get(key) || []), day]);
+  });
+  return [...groups.entries()].map(([date, days]) => summarise(date, days, forecast));
+};
+
+export const forecastTotal = (forecast: SalesForecast): ForecastBucket =>
+  summarise(forecast.days[0].date, forecast.days, forecast);
@@ -6,6 +6,65 @@ export const SCOPES = [
   'openid'
 ].join(' ');
 
+export interface DriveFileMeta {
+  id: string;
+  name: string;
+  mimeType?: string;
+  webViewLink?: string;
+  modifiedTime?: string;
+  version?: string;     // Increases on every change to the file
+  headRevisionId?: string;
+  appProperties?: Record<string, string>;
+}
+
+const FILE_FIELDS = 'id,name,mimeType,webViewLink,modifiedTime,version,headRevisionId,appProperties';
+
+export const FOLDER_MIME_TYPE = 'application/vnd.google-apps.folder';
+
+// Spreadsheet formats the importer can read
+export const REPORT_MIME_TYPES = [
+  'text/csv', 'application/vnd.ms-excel',
+  'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+  'application/vnd.google-apps.spreadsheet'
+];
+
+export interface DriveRevision {
+  id: string;
+  modifiedTime: string;
+}
+
+/**
+ * The Drive calls syncing the master makes, kept narrow so it can run against
+ * an in-memory fake. `findFiles` only needs to understand the appProperties
+ * lookups in lib/workspaces.
+ */
+export interface DriveApi {
+  findFiles(query: string): Promise<DriveFileMeta[]>;
+  findFileByName(name: string): Promise<DriveFileMeta | null>;
+  getFileMetadata(fileId: string): Promise<DriveFileMeta | null>;
+  saveJsonToCloud(name: string, content: any, fileId?: string, appProperties?: Record<string, string>): Promise<DriveFileMeta | null>;
+  downloadFile(fileId: string): Promise<any>;
+  listRevisions(fileId: string): Promise<DriveRevision[]>;
+  downloadRevision(fileId: string, revisionId: string): Promise<any>;
+}
+
+export type SheetValues = (string | number)[][];
+
+/**
+ * The Google Sheets calls the app makes, kept narrow so publishing can run
+ * against an in-memory fake instead of the real API.
+ */
+export interface SheetsApi {
+  createSpreadsheet(title: string, tabs: string[]): Promise<{ id: string; url: string }>;
+  spreadsheetExists(id: string): Promise<boolean>;
+  countRows(id: string, tab: string): Promise<number>;
+  replaceValues(id: string, tab: string, values: SheetValues): Promise<void>;
+  appendValues(id: string, tab: string, values: SheetValues): Promise<void>;
+}
+
+// A bare sheet name addresses the whole tab, starting at A1
+const tabRange = (tab: string, cells?: string) => encodeURIComponent(`'${tab.replace(/'/g, "''")}'${cells ? `!${cells}` : ''}`);
+
 declare global {
   interface Window {
     gapi: any;
@@ -13,7 +72,7 @@ declare global {
   }
 }
 
-export class GoogleDriveService {
+export class GoogleDriveService implements DriveApi, SheetsApi {
   private clientId: string;
   private fallbackApiKey: string;
   private tokenClient: any;
@@ -93,11 +152,7 @@ export class GoogleDriveService {
       return;
     }
 
-    const allowedTypes = [
-      'application/vnd.google-apps.folder', 'text/csv', 'application/vnd.ms-excel',
-      'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
-      'application/vnd.google-apps.spreadsheet', 'application/json', 'text/plain'
-    ].join(',');
+    const allowedTypes = [FOLDER_MIME_TYPE, ...REPORT_MIME_TYPES, 'application/json', 'text/plain'].join(',');
 
     const view = new window.google.picker.DocsView(window.google.picker.ViewId.DOCS)
       .setIncludeFolders(true)
@@ -120,24 +175,50 @@ export class GoogleDriveService {
   }
 
   // ✅ UPDATED: Requests 'webViewLink' so we can open the file in a new tab
-  async findFileByName(name: string) {
-    if (!this.accessToken) return null;
-    const q = encodeURIComponent(`name = '${name}' and trashed = false`);
+  async findFileByName(name: string): Promise<DriveFileMeta | null> {
     try {
-      const response = await fetch(`https://www.googleapis.com/drive/v3/files?q=${q}&fields=files(id,name,webViewLink)`, {
-        headers: { Authorization: `Bearer ${this.accessToken}` },
-      });
-      const data = await response.json();
-      return data.files?.[0] || null;
+      const files = await this.findFiles(`name = '${name.replace(/'/g, "\\'")}'`);
+      return files[0] || null;
     } catch (e) { return null; }
   }
 
+  // `query` is a Drive search expression; trashed files are always excluded.
+  async findFiles(query: string): Promise<DriveFileMeta[]> {
+    if (!this.accessToken) return [];
+    const q = encodeURIComponent(`(${query}) and trashed = false`);
+    const response = await fetch(`https://www.googleapis.com/drive/v3/files?q=${q}&orderBy=modifiedTime desc&fields=files(${FILE_FIELDS})`, {
+      headers: { Authorization: `Bearer ${this.accessToken}` },
+    });
+    if (!response.ok) throw new Error("Could not list files on Drive.");
+    const data = await response.json();
+    return data.files || [];
+  }
+
+  // Reports sitting directly in a folder, newest first; subfolders are not searched.
+  async listFolderFiles(folderId: string): Promise<DriveFileMeta[]> {
+    const types = REPORT_MIME_TYPES.map(type => `mimeType = '${type}'`).join(' or ');
+    return this.findFiles(`'${folderId.replace(/'/g, "\\'")}' in parents and (${types})`);
+  }
+
+  // Cheap check used before every upload to see whether someone else saved first
+  async getFileMetadata(fileId: string): Promise<DriveFileMeta | null> {
+    if (!this.accessToken) return null;
+    const response = await fetch(`https://www.googleapis.com/drive/v3/files/${fileId}?fields=${FILE_FIELDS},trashed`, {
+      headers: { Authorization: `Bearer ${this.accessToken}` },
+    });
+    if (response.status === 404) return null;
+    if (!response.ok) throw new Error("Could not read file details from Drive.");
+    const data = await response.json();
+    return data.trashed ? null : data;
+  }
+
   // ✅ UPDATED: Returns the file metadata (including link) after save
-  async saveJsonToCloud(name: string, content: any) {
+  // Without a fileId a new file is created, even if another one has the same name.
+  async saveJsonToCloud(name: string, content: any, fileId?: string, appProperties?: Record<string, string>): Promise<DriveFileMeta | null> {
     if (!this.accessToken) return null;
     try {
-      const existingFile = await this.findFileByName(name);
-      const metadata = { name, mimeType: 'application/json' };
+      const existingFile = fileId ? { id: fileId } : null;
+      const metadata = { name, mimeType: 'application/json', ...(appProperties && { appProperties }) };
       const jsonString = JSON.stringify(content);
       
       const boundary = '-------314159265358979323846';
@@ -158,7 +239,7 @@ export class GoogleDriveService {
         ? `https://www.googleapis.com/upload/drive/v3/files/${existingFile.id}` 
         : `https://www.googleapis.com/upload/drive/v3/files`;
         
-      const url = `${baseUrl}?uploadType=multipart&fields=id,name,webViewLink`;
+      const url = `${baseUrl}?uploadType=multipart&fields=${FILE_FIELDS}`;
 
       const response = await fetch(url, {
         method: existingFile ? 'PATCH' : 'POST',
@@ -169,6 +250,7 @@ export class GoogleDriveService {
         body: multipartRequestBody
       });
       
+      if (!response.ok) throw new Error(`Drive upload failed: ${response.statusText}`);
       return await response.json(); // Returns file object with webViewLink
     } catch (e) { 
       console.error("Cloud save failed", e); 
@@ -176,6 +258,25 @@ export class GoogleDriveService {
     }
   }
 
+  // Oldest first; Drive keeps a file's recent revisions for about 30 days.
+  async listRevisions(fileId: string): Promise<DriveRevision[]> {
+    if (!this.accessToken) return [];
+    const response = await fetch(`https://www.googleapis.com/drive/v3/files/${fileId}/revisions?pageSize=1000&fields=revisions(id,modifiedTime)`, {
+      headers: { Authorization: `Bearer ${this.accessToken}` },
+    });
+    if (!response.ok) throw new Error("Could not read the file's history on Drive.");
+    const data = await response.json();
+    return data.revisions || [];
+  }
+
+  async downloadRevision(fileId: string, revisionId: string): Promise<any> {
+    const response = await fetch(`https://www.googleapis.com/drive/v3/files/${fileId}/revisions/${revisionId}?alt=media`, {
+      headers: { Authorization: `Bearer ${this.accessToken}` },
+    });
+    if (!response.ok) throw new Error("Download failed.");
+    return response.json();
+  }
+
   async downloadFile(fileId: string, mimeType?: string): Promise<any> {
     const isGoogleSheet = mimeType === 'application/vnd.google-apps.spreadsheet';
     const url = isGoogleSheet ? `https://www.googleapis.com/drive/v3/files/${fileId}/export?mimeType=text/csv` : `https://www.googleapis.com/drive/v3/files/${fileId}?alt=media`;
@@ -184,4 +285,45 @@ export class GoogleDriveService {
     const contentType = response.headers.get('content-type');
     return contentType?.includes('application/json') ? response.json() : response.blob();
   }
+
+  private async sheetsRequest(path: string, method: string, body?: any): Promise<any> {
+    if (!this.accessToken) throw new Error("Not signed in to Google.");
+    const response = await fetch(`https://sheets.googleapis.com/v4/spreadsheets${path}`, {
+      method,
+      headers: { Authorization: `Bearer ${this.accessToken}`, 'Content-Type': 'application/json' },
+      body: body === undefined ? undefined : JSON.stringify(body)
+    });
+    if (!response.ok) throw new Error(`Google Sheets request failed: ${response.statusText}`);
+    return response.json();
+  }
+
+  async createSpreadsheet(title: string, tabs: string[]): Promise<{ id: string; url: string }> {
+    const created = await this.sheetsRequest('', 'POST', {
+      properties: { title },
+      sheets: tabs.map(tab => ({ properties: { title: tab } }))
+    });
+    return { id: created.spreadsheetId, url: created.spreadsheetUrl };
+  }
+
+  // Trashed spreadsheets count as gone, so publishing starts a fresh one
+  async spreadsheetExists(id: string): Promise<boolean> {
+    return !!(await this.getFileMetadata(id));
+  }
+
+  // Rows down to the last one with a value in column A
+  async countRows(id: string, tab: string): Promise<number> {
+    const data = await this.sheetsRequest(`/${id}/values/${tabRange(tab, 'A:A')}`, 'GET');
+    return data.values?.length || 0;
+  }
+
+  async replaceValues(id: string, tab: string, values: SheetValues): Promise<void> {
+    await this.sheetsRequest(`/${id}/values/${tabRange(tab)}:clear`, 'POST', {});
+    if (values.length === 0) return;
+    await this.sheetsRequest(`/${id}/values/${tabRange(tab)}?valueInputOption=RAW`, 'PUT', { values });
+  }
+
+  async appendValues(id: string, tab: string, values: SheetValues): Promise<void> {
+    if (values.length === 0) return;
+    await this.sheetsRequest(`/${id}/values/${tabRange(tab)}:append?valueInputOption=RAW&insertDataOption=INSERT_ROWS`, 'POST', { values });
+  }
 }
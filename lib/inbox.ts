@@ -0,0 +1,14 @@
+import { DriveFolder, MasterRecord } from '../types';
+import { DriveFileMeta } from './googleDrive';
+
+// A workbook's tables are synced as "file [sheet]", so any of them marks the file as seen.
+export const isFileSynced = (master: MasterRecord, fileName: string) =>
+  (master.syncedFiles || []).some(f => f === fileName || f.startsWith(`${fileName} [`));
+
+export const newInboxFiles = (master: MasterRecord, files: DriveFileMeta[]) =>
+  files.filter(f => !isFileSynced(master, f.name));
+
+export const setInboxFolder = (master: MasterRecord, folder: DriveFolder | undefined): MasterRecord => ({
+  ...master,
+  inboxFolder: folder
+});
@@ -0,0 +1,222 @@
+import { describe, expect, it } from 'vitest';
+import { ColumnMapping } from '../types';
+import { buildSales, detectDateFormat, detectDecimalSeparator, isBlankRow, parseAmount, parseDateValue, parseQuantity } from './ingest';
+import { validateSale } from './records';
+
+const now = new Date(2025, 5, 15);   // 15 June 2025
+
+describe('parseDateValue', () => {
+  it('reads Excel serial dates, ignoring the time of day', () => {
+    expect(parseDateValue(45658, { order: 'MDY' })).toEqual({ date: '2025-01-01', yearInferred: false });
+    expect(parseDateValue(45658.75, { order: 'MDY' })?.date).toBe('2025-01-01');
+  });
+
+  it('rejects serials too small to be dates', () => {
+    expect(parseDateValue(42, { order: 'MDY' })).toBeNull();
+  });
+
+  it('reads Date objects', () => {
+    expect(parseDateValue(new Date(2024, 1, 29), { order: 'DMY' })?.date).toBe('2024-02-29');
+  });
+
+  it('reads numeric dates in the given order', () => {
+    expect(parseDateValue('03/04/2025', { order: 'MDY' })?.date).toBe('2025-03-04');
+    expect(parseDateValue('03/04/2025', { order: 'DMY' })?.date).toBe('2025-04-03');
+    expect(parseDateValue('2025-03-04', { order: 'DMY' })?.date).toBe('2025-03-04');
+    expect(parseDateValue('4.3.25', { order: 'DMY' })?.date).toBe('2025-03-04');
+  });
+
+  it('reads month-name dates', () => {
+    expect(parseDateValue('Jan 5, 2024', { order: 'DMY' })?.date).toBe('2024-01-05');
+    expect(parseDateValue('5 January 2024', { order: 'MDY' })?.date).toBe('2024-01-05');
+    expect(parseDateValue('Tue, Mar 4th', { order: 'MDY', now })?.date).toBe('2025-03-04');
+  });
+
+  it('places yearless dates in the most recent year not in the future', () => {
+    expect(parseDateValue('Jan 5', { order: 'MDY', now })).toEqual({ date: '2025-01-05', yearInferred: true });
+    expect(parseDateValue('Dec 5', { order: 'MDY', now })).toEqual({ date: '2024-12-05', yearInferred: true });
+  });
+
+  it('returns null for blanks and impossible dates', () => {
+    expect(parseDateValue('', { order: 'MDY' })).toBeNull();
+    expect(parseDateValue(null, { order: 'MDY' })).toBeNull();
+    expect(parseDateValue('02/30/2025', { order: 'MDY' })).toBeNull();
+    expect(parseDateValue('Total', { order: 'MDY' })).toBeNull();
+  });
+});
+
+describe('detectDateFormat', () => {
+  it('proves day-first from a first part above 12', () => {
+    expect(detectDateFormat(['01/02/2025', '25/02/2025'], 'MDY')).toMatchObject({ order: 'DMY', ambiguous: false });
+  });
+
+  it('proves month-first from a second part above 12', () => {
+    expect(detectDateFormat(['01/02/2025', '02/25/2025'], 'DMY')).toMatchObject({ order: 'MDY', ambiguous: false });
+  });
+
+  it('recognises year-first dates', () => {
+    expect(detectDateFormat(['2025-01-02'], 'MDY')).toMatchObject({ order: 'YMD', ambiguous: false });
+  });
+
+  it('falls back to the locale order and flags ambiguity', () => {
+    const detection = detectDateFormat(['01/02/2025', '03/04/2025'], 'DMY');
+    expect(detection).toMatchObject({ order: 'DMY', ambiguous: true });
+    expect(detection.samples).toEqual(['01/02/2025', '03/04/2025']);
+  });
+
+  it('is not ambiguous without numeric dates', () => {
+    expect(detectDateFormat([45658, 'Jan 5'], 'MDY')).toMatchObject({ order: 'MDY', ambiguous: false, samples: [] });
+  });
+});
+
+describe('parseAmount', () => {
+  it('strips currency symbols, codes and separators', () => {
+    expect(parseAmount('$1,234.50')).toBe(1234.5);
+    expect(parseAmount('1234.5 USD')).toBe(1234.5);
+    expect(parseAmount('€12')).toBe(12);
+  });
+
+  it('reads decimal commas when told to', () => {
+    expect(parseAmount('12,00', ',')).toBe(12);
+    expect(parseAmount('€1.234,50', ',')).toBe(1234.5);
+    expect(parseAmount('-3,5 EUR', ',')).toBe(-3.5);
+    expect(parseAmount(7.25, ',')).toBe(7.25);
+  });
+
+  it('keeps negative amounts', () => {
+    expect(parseAmount('-12.00')).toBe(-12);
+    expect(parseAmount(-3.5)).toBe(-3.5);
+  });
+
+  it('reads blanks and text as zero', () => {
+    expect(parseAmount('')).toBe(0);
+    expect(parseAmount(undefined)).toBe(0);
+    expect(parseAmount('n/a')).toBe(0);
+  });
+});
+
+describe('detectDecimalSeparator', () => {
+  it('takes the last of two different marks as the decimal', () => {
+    expect(detectDecimalSeparator(['1.234,50'])).toBe(',');
+    expect(detectDecimalSeparator(['1,234.50'])).toBe('.');
+  });
+
+  it('reads a lone mark before one or two digits as the decimal', () => {
+    expect(detectDecimalSeparator(['€12,00'])).toBe(',');
+    expect(detectDecimalSeparator(['12.5'])).toBe('.');
+  });
+
+  it('reads a repeated mark as thousands', () => {
+    expect(detectDecimalSeparator(['1.234.567'])).toBe(',');
+  });
+
+  it('falls back when nothing proves either way', () => {
+    expect(detectDecimalSeparator(['1,234', 12, ''], ',')).toBe(',');
+    expect(detectDecimalSeparator(['1,234'])).toBe('.');
+  });
+});
+
+describe('parseQuantity', () => {
+  it('reads whole numbers and defaults to one', () => {
+    expect(parseQuantity('3')).toBe(3);
+    expect(parseQuantity(2)).toBe(2);
+    expect(parseQuantity('')).toBe(1);
+    expect(parseQuantity('abc')).toBe(1);
+  });
+
+  it('keeps refund quantities positive so the rows stay editable', () => {
+    expect(parseQuantity('-2')).toBe(2);
+    expect(validateSale({ id: 'r1', date: '2025-03-01', product: 'Serum', category: 'General', amount: -25, quantity: parseQuantity(-1) })).toEqual([]);
+  });
+});
+
+describe('isBlankRow', () => {
+  it('treats whitespace, null and undefined cells as blank', () => {
+    expect(isBlankRow({ a: '', b: '  ', c: null, d: undefined })).toBe(true);
+    expect(isBlankRow({})).toBe(true);
+    expect(isBlankRow({ a: '', b: 0 })).toBe(false);
+  });
+});
+
+describe('buildSales', () => {
+  const mapping: ColumnMapping = { date: 'Date', product: 'Item', amount: 'Total', category: '', quantity: 'Qty' };
+  const build = (rows: Record<string, any>[], extra: Partial<ColumnMapping> = {}) =>
+    buildSales(rows, { ...mapping, ...extra }, { fileName: 'orders.csv', now });
+
+  it('splits rows into accepted and rejected with reasons', () => {
+    const result = build([
+      { Date: '2025-03-01', Item: 'Serum', Total: '$25.00', Qty: '2' },
+      { Date: '', Item: '', Total: '', Qty: '' },
+      { Date: 'soon', Item: 'Cream', Total: '10', Qty: '1' },
+      { Date: '2025-03-02', Item: '', Total: '', Qty: '' },
+      { Date: 45718, Item: 'Toner', Total: 12, Qty: '' }
+    ]);
+
+    expect(result.accepted.map(s => [s.date, s.product, s.amount, s.quantity])).toEqual([
+      ['2025-03-01', 'Serum', 25, 2],
+      ['2025-03-02', 'Toner', 12, 1]
+    ]);
+    expect(result.rejected.map(r => [r.row, r.reason])).toEqual([
+      [2, 'Blank row'],
+      [3, 'Unreadable date "soon"'],
+      [4, 'No product and no amounts']
+    ]);
+    expect(result.warnings).toEqual([
+      '1 rows were skipped because their date could not be read.',
+      '2 blank or empty rows were skipped.'
+    ]);
+  });
+
+  it('warns about negative amounts and yearless dates', () => {
+    const result = build([
+      { Date: 'Jan 5', Item: 'Serum', Total: '-25.00', Qty: '1' },
+      { Date: 'Feb 6', Item: 'Serum', Total: '25.00', Qty: '1' }
+    ]);
+    expect(result.accepted).toHaveLength(2);
+    expect(result.accepted[0].amount).toBe(-25);
+    expect(result.warnings).toEqual([
+      '1 rows with negative amounts were read as refunds or discounts.',
+      '2 dates had no year; the most recent matching year was used.'
+    ]);
+  });
+
+  it('reads numeric dates with the detected order', () => {
+    const result = build([
+      { Date: '13/03/2025', Item: 'Serum', Total: '5', Qty: '1' },
+      { Date: '04/03/2025', Item: 'Serum', Total: '5', Qty: '1' }
+    ]);
+    expect(result.dateFormat).toBe('DMY');
+    expect(result.accepted.map(s => s.date)).toEqual(['2025-03-13', '2025-03-04']);
+  });
+
+  it('stores deductions as positive values and keeps the currency', () => {
+    const result = build(
+      [{ Date: '2025-03-01', Item: 'Serum', Total: '€20.00', Qty: '1', Discount: '-5' }],
+      { discount: 'Discount' }
+    );
+    expect(result.accepted[0]).toMatchObject({ amount: 20, discount: 5, currency: 'EUR' });
+  });
+
+  it('detects decimal commas from the money columns', () => {
+    const result = build(
+      [
+        { Date: '2025-03-01', Item: 'Serum', Total: '€12,00', Qty: '1', Cost: '4,5' },
+        { Date: '2025-03-02', Item: 'Serum', Total: '1.234,50 EUR', Qty: '1', Cost: '' }
+      ],
+      { cost: 'Cost' }
+    );
+    expect(result.decimalSeparator).toBe(',');
+    expect(result.accepted.map(s => [s.amount, s.cost, s.currency])).toEqual([[12, 4.5, 'EUR'], [1234.5, undefined, 'EUR']]);
+  });
+
+  it('reads decimal points and thousands commas', () => {
+    const result = build([{ Date: '2025-03-01', Item: 'Serum', Total: '1,234.50', Qty: '1' }]);
+    expect(result.decimalSeparator).toBe('.');
+    expect(result.accepted[0].amount).toBe(1234.5);
+  });
+
+  it('uses the separator chosen for the import over the detected one', () => {
+    const result = build([{ Date: '2025-03-01', Item: 'Serum', Total: '1,234', Qty: '1' }], { decimalSeparator: ',' });
+    expect(result.accepted[0].amount).toBe(1.234);
+  });
+});
@@ -0,0 +1,351 @@
+import { ColumnMapping, DateOrder, DecimalSeparator, MappedField, SaleRecord } from '../types';
+import { fingerprintSale } from './dedup';
+import { normalizePostalCode } from './regions';
+import { detectCurrency, normalizeCurrency } from './currency';
+import { AiProvider } from './ai';
+
+export interface RejectedRow {
+  row: number;                 // 1-based position in the table body
+  reason: string;
+  raw: Record<string, any>;
+}
+
+export interface IngestResult {
+  accepted: SaleRecord[];
+  rejected: RejectedRow[];
+  warnings: string[];
+  dateFormat: DateOrder;       // The order numeric dates were read with
+  decimalSeparator: DecimalSeparator;
+}
+
+export interface IngestOptions {
+  fileName: string;
+  now?: Date;                  // Injected so results are reproducible
+}
+
+const MONTHS: Record<string, number> = {
+  jan: 0, feb: 1, mar: 2, apr: 3, may: 4, jun: 5, jul: 6, aug: 7, sep: 8, sept: 8, oct: 9, nov: 10, dec: 11
+};
+
+// Excel serial day 25569 is 1970-01-01.
+const EXCEL_EPOCH_OFFSET = 25569;
+
+const NUMERIC_DATE = /^(\d{1,4})[\/.\-](\d{1,2})(?:[\/.\-](\d{2,4}))?(?:[\sT].*)?$/;
+const TEXT_MONTH_FIRST = /^(?:[A-Za-z]+,?\s+)?([A-Za-z]{3,9})\.?[\s\-\/.]+(\d{1,2})(?:st|nd|rd|th)?,?(?:[\s\-\/.]+(\d{2,4}))?(?:\s.*)?$/;
+const TEXT_DAY_FIRST = /^(\d{1,2})(?:st|nd|rd|th)?[\s\-\/.]+([A-Za-z]{3,9})\.?,?(?:[\s\-\/.]+(\d{2,4}))?(?:\s.*)?$/;
+
+const pad = (n: number) => String(n).padStart(2, '0');
+const toIsoDate = (y: number, m: number, d: number) => `${y}-${pad(m + 1)}-${pad(d)}`;
+
+export const DATE_FORMAT_LABELS: Record<DateOrder, string> = {
+  YMD: 'YYYY-MM-DD',
+  MDY: 'MM/DD/YYYY',
+  DMY: 'DD/MM/YYYY'
+};
+
+export const DECIMAL_SEPARATOR_LABELS: Record<DecimalSeparator, string> = {
+  '.': '1,234.50',
+  ',': '1.234,50'
+};
+
+export const MAPPING_FIELDS: MappedField[] = [
+  'date', 'product', 'amount', 'category', 'quantity', 'customerZip', 'cost',
+  'gross', 'discount', 'tax', 'shipping', 'fee', 'refund', 'orderId', 'currency'
+];
+
+export const MAPPING_FIELD_LABELS: Record<MappedField, string> = {
+  date: 'date',
+  product: 'product',
+  amount: 'amount',
+  category: 'category',
+  quantity: 'quantity',
+  customerZip: 'zip / postal code',
+  cost: 'cost of goods (row total)',
+  gross: 'gross (before discounts)',
+  discount: 'discount',
+  tax: 'tax',
+  shipping: 'shipping',
+  fee: 'platform fees',
+  refund: 'refund',
+  orderId: 'order id',
+  currency: 'currency'
+};
+
+// Columns a report may simply not have
+export const OPTIONAL_MAPPING_FIELDS: MappedField[] = [
+  'category', 'customerZip', 'cost', 'gross', 'discount', 'tax', 'shipping', 'fee', 'refund', 'orderId', 'currency'
+];
+
+// Money columns read into SaleRecord fields of the same name
+const BREAKDOWN_FIELDS = ['gross', 'discount', 'tax', 'shipping', 'fee', 'refund'] as const;
+// Reports write these either way round; they are always stored as positive deductions
+const DEDUCTION_FIELDS = new Set<string>(['discount', 'fee', 'refund']);
+
+export const isBlankRow = (row: Record<string, any>) =>
+  Object.values(row).every(val => val === null || val === undefined || String(val).trim() === '');
+
+const monthIndex = (name: string): number | undefined => MONTHS[name.toLowerCase().slice(0, 3)] ?? MONTHS[name.toLowerCase()];
+
+const expandYear = (year: string) => (year.length <= 2 ? 2000 + parseInt(year) : parseInt(year));
+
+const isValidDay = (y: number, m: number, d: number) =>
+  m >= 0 && m <= 11 && d >= 1 && d <= new Date(y, m + 1, 0).getDate();
+
+export interface ParseDateOptions {
+  order: DateOrder;        // How to read all-numeric dates such as 03/04/2025
+  now?: Date;              // Reference for dates printed without a year
+}
+
+export interface ParsedDate {
+  date: string;            // YYYY-MM-DD
+  yearInferred: boolean;
+}
+
+/**
+ * Normalises a spreadsheet date cell to YYYY-MM-DD, or returns null when the
+ * value can't be read. Accepts Excel serials, Date objects, numeric dates in
+ * the given order and "Jan 5" / "5 January 2025" style text. A date with no
+ * year is placed in the most recent year that doesn't put it in the future.
+ */
+export const parseDateValue = (val: any, { order, now = new Date() }: ParseDateOptions): ParsedDate | null => {
+  if (val === null || val === undefined || String(val).trim() === '') return null;
+  if (val instanceof Date) {
+    return isNaN(val.getTime()) ? null : { date: toIsoDate(val.getFullYear(), val.getMonth(), val.getDate()), yearInferred: false };
+  }
+  if (typeof val === 'number') {
+    if (val <= EXCEL_EPOCH_OFFSET) return null;
+    const dateObj = new Date(Math.round((val - EXCEL_EPOCH_OFFSET) * 86400 * 1000));
+    return { date: toIsoDate(dateObj.getUTCFullYear(), dateObj.getUTCMonth(), dateObj.getUTCDate()), yearInferred: false };
+  }
+
+  const str = String(val).trim();
+  let year: number | undefined;
+  let month: number | undefined;
+  let day: number | undefined;
+
+  const numeric = str.match(NUMERIC_DATE);
+  const monthFirst = str.match(TEXT_MONTH_FIRST);
+  const dayFirst = str.match(TEXT_DAY_FIRST);
+
+  if (numeric) {
+    const [, a, b, c] = numeric;
+    if (a.length >= 3) {
+      if (!c) return null;
+      [year, month, day] = [parseInt(a), parseInt(b) - 1, parseInt(c)];
+    } else if (order === 'DMY') {
+      [day, month, year] = [parseInt(a), parseInt(b) - 1, c ? expandYear(c) : undefined];
+    } else {
+      [month, day, year] = [parseInt(a) - 1, parseInt(b), c ? expandYear(c) : undefined];
+    }
+  } else if (monthFirst && monthIndex(monthFirst[1]) !== undefined) {
+    [month, day, year] = [monthIndex(monthFirst[1]), parseInt(monthFirst[2]), monthFirst[3] ? expandYear(monthFirst[3]) : undefined];
+  } else if (dayFirst && monthIndex(dayFirst[2]) !== undefined) {
+    [day, month, year] = [parseInt(dayFirst[1]), monthIndex(dayFirst[2]), dayFirst[3] ? expandYear(dayFirst[3]) : undefined];
+  } else if (/\d{4}/.test(str) && /[A-Za-z]/.test(str)) {
+    // Verbose formats such as "Tue Mar 04 2025 00:00:00 GMT"
+    const d = new Date(str);
+    if (isNaN(d.getTime())) return null;
+    return { date: toIsoDate(d.getFullYear(), d.getMonth(), d.getDate()), yearInferred: false };
+  } else {
+    return null;
+  }
+
+  if (month === undefined || day === undefined) return null;
+
+  const yearInferred = year === undefined;
+  if (year === undefined) {
+    year = now.getFullYear();
+    if (new Date(year, month, day) > now) year--;
+  }
+  if (!isValidDay(year, month, day)) return null;
+  return { date: toIsoDate(year, month, day), yearInferred };
+};
+
+export interface DateFormatDetection {
+  order: DateOrder;
+  ambiguous: boolean;      // No sample could tell day-first from month-first
+  samples: string[];       // A few raw values to show when confirming
+}
+
+export const localeDateOrder = (locale: string = typeof navigator !== 'undefined' ? navigator.language : 'en-US'): DateOrder =>
+  /^en-(US|PH)|^(fil|es-US)/i.test(locale) ? 'MDY' : 'DMY';
+
+/**
+ * Samples a date column to decide how numeric dates are written. A first
+ * part above 12 proves day-first, a second part above 12 proves month-first;
+ * with no proof either way the browser locale decides and the result is
+ * flagged as ambiguous so the user can confirm it.
+ */
+export const detectDateFormat = (values: any[], fallback: DateOrder = localeDateOrder()): DateFormatDetection => {
+  let dayFirst = 0;
+  let monthFirst = 0;
+  let yearFirst = 0;
+  const samples: string[] = [];
+
+  values.forEach(val => {
+    if (typeof val !== 'string') return;
+    const match = val.trim().match(NUMERIC_DATE);
+    if (!match) return;
+    if (samples.length < 5 && !samples.includes(val.trim())) samples.push(val.trim());
+    const [a, b] = [parseInt(match[1]), parseInt(match[2])];
+    if (match[1].length >= 3) yearFirst++;
+    else if (a > 12 && b <= 12) dayFirst++;
+    else if (b > 12 && a <= 12) monthFirst++;
+  });
+
+  if (dayFirst || monthFirst) {
+    return { order: dayFirst >= monthFirst ? 'DMY' : 'MDY', ambiguous: false, samples };
+  }
+  if (yearFirst || samples.length === 0) return { order: yearFirst ? 'YMD' : fallback, ambiguous: false, samples };
+  return { order: fallback, ambiguous: true, samples };
+};
+
+/**
+ * Samples money columns to decide which mark is the decimal point. The last
+ * of two different marks is the decimal ("1.234,50"); a lone mark followed by
+ * one or two digits is one too ("12,00"), and a repeated mark never is
+ * ("1.234.567"). "1,234" on its own proves nothing; without proof `fallback` wins.
+ */
+export const detectDecimalSeparator = (values: any[], fallback: DecimalSeparator = '.'): DecimalSeparator => {
+  let dot = 0;
+  let comma = 0;
+  values.forEach(val => {
+    if (typeof val !== 'string') return;
+    const marks = val.replace(/[^0-9.,]+/g, '');
+    const lastDot = marks.lastIndexOf('.');
+    const lastComma = marks.lastIndexOf(',');
+    if (lastDot >= 0 && lastComma >= 0) {
+      if (lastComma > lastDot) comma++; else dot++;
+    } else if (lastDot >= 0 || lastComma >= 0) {
+      const mark = lastDot >= 0 ? '.' : ',';
+      const repeated = marks.indexOf(mark) !== marks.lastIndexOf(mark);
+      const decimals = marks.length - marks.lastIndexOf(mark) - 1;
+      if (repeated) { if (mark === '.') comma++; else dot++; }
+      else if (decimals === 1 || decimals === 2) { if (mark === '.') dot++; else comma++; }
+    }
+  });
+  if (dot === comma) return fallback;
+  return comma > dot ? ',' : '.';
+};
+
+// "$1,234.50", "1234.5 USD", "-12.00" and plain numbers all become numbers;
+// with a comma decimal, "€1.234,50" does too.
+export const parseAmount = (val: any, decimal: DecimalSeparator = '.'): number => {
+  const amount = typeof val === 'string'
+    ? parseFloat(decimal === ',' ? val.replace(/[^0-9,-]+/g, '').replace(',', '.') : val.replace(/[^0-9.-]+/g, ''))
+    : parseFloat(val || 0);
+  return isNaN(amount) ? 0 : amount;
+};
+
+// Refund lines often report "-1"; the amount already carries the sign, so units are kept positive.
+export const parseQuantity = (val: any): number => Math.abs(parseInt(val)) || 1;
+
+// Blank cells (or no column at all) are undefined rather than zero.
+const readMoney = (item: Record<string, any>, decimal: DecimalSeparator, column?: string): number | undefined => {
+  const raw = column ? item[column] : undefined;
+  return raw === undefined || raw === null || String(raw).trim() === '' ? undefined : parseAmount(raw, decimal);
+};
+
+/**
+ * Turns raw sheet rows into SaleRecords using a column mapping. Blank rows,
+ * rows whose date can't be read and rows with neither a positive amount nor
+ * a product are rejected with a reason rather than silently dropped. Numeric
+ * dates use `mapping.dateFormat`, or whatever the date column suggests;
+ * amounts likewise use `mapping.decimalSeparator` or the detected one.
+ * The currency comes from its column, a symbol in the amount, or
+ * `mapping.defaultCurrency`, in that order.
+ */
+export const buildSales = (rows: Record<string, any>[], mapping: ColumnMapping, options: IngestOptions): IngestResult => {
+  const now = options.now || new Date();
+  const stamp = now.getTime();
+  const order = mapping.dateFormat || detectDateFormat(rows.map(r => r[mapping.date])).order;
+  const moneyColumns = [mapping.amount, mapping.cost, ...BREAKDOWN_FIELDS.map(field => mapping[field])].filter(Boolean);
+  const decimal = mapping.decimalSeparator || detectDecimalSeparator(rows.flatMap(r => moneyColumns.map(column => r[column!])));
+  const accepted: SaleRecord[] = [];
+  const rejected: RejectedRow[] = [];
+  let negativeCount = 0;
+  let yearlessCount = 0;
+
+  rows.forEach((item, idx) => {
+    if (isBlankRow(item)) {
+      rejected.push({ row: idx + 1, reason: 'Blank row', raw: item });
+      return;
+    }
+
+    const parsedDate = parseDateValue(item[mapping.date], { order, now });
+    if (!parsedDate) {
+      rejected.push({ row: idx + 1, reason: `Unreadable date "${item[mapping.date] ?? ''}"`, raw: item });
+      return;
+    }
+    if (parsedDate.yearInferred) yearlessCount++;
+
+    const sale: SaleRecord = {
+      id: `${options.fileName}-${idx}-${stamp}`,
+      date: parsedDate.date,
+      product: String(item[mapping.product] || 'Unknown'),
+      category: mapping.category ? String(item[mapping.category] || 'General') : 'General',
+      amount: 0,
+      quantity: parseQuantity(item[mapping.quantity]),
+    };
+    BREAKDOWN_FIELDS.forEach(field => {
+      const value = readMoney(item, decimal, mapping[field]);
+      if (value) sale[field] = DEDUCTION_FIELDS.has(field) ? Math.abs(value) : value;
+    });
+    // Reports with only a gross column still get a sale value
+    sale.amount = mapping.amount ? parseAmount(item[mapping.amount], decimal) : (sale.gross || 0) - (sale.discount || 0);
+
+    const customerZip = mapping.customerZip ? normalizePostalCode(item[mapping.customerZip]) : undefined;
+    if (customerZip) sale.customerZip = customerZip;
+    const cost = readMoney(item, decimal, mapping.cost);
+    if (cost !== undefined) sale.cost = cost;
+    const orderId = mapping.orderId ? String(item[mapping.orderId] ?? '').trim() : '';
+    if (orderId) sale.orderId = orderId;
+    const currency = (mapping.currency ? normalizeCurrency(item[mapping.currency]) : undefined)
+      || (mapping.amount ? detectCurrency(item[mapping.amount]) : undefined)
+      || mapping.defaultCurrency;
+    if (currency) sale.currency = currency;
+
+    const hasMoney = sale.amount !== 0 || BREAKDOWN_FIELDS.some(field => sale[field]);
+    if (!hasMoney && (sale.product === 'Unknown' || sale.product === '')) {
+      rejected.push({ row: idx + 1, reason: 'No product and no amounts', raw: item });
+      return;
+    }
+    if (sale.amount < 0) negativeCount++;
+    accepted.push({ ...sale, fingerprint: fingerprintSale(sale, item) });
+  });
+
+  const warnings: string[] = [];
+  const badDates = rejected.filter(r => r.reason.startsWith('Unreadable date')).length;
+  if (negativeCount > 0) warnings.push(`${negativeCount} rows with negative amounts were read as refunds or discounts.`);
+  if (yearlessCount > 0) warnings.push(`${yearlessCount} dates had no year; the most recent matching year was used.`);
+  if (badDates > 0) warnings.push(`${badDates} rows were skipped because their date could not be read.`);
+  if (rejected.length > badDates) warnings.push(`${rejected.length - badDates} blank or empty rows were skipped.`);
+
+  return { accepted, rejected, warnings, dateFormat: order, decimalSeparator: decimal };
+};
+
+export const needsEnrichment = (sales: SaleRecord[], mapping: ColumnMapping) =>
+  !mapping.category || sales.some(s => s.category === 'General');
+
+export interface EnrichmentResult {
+  sales: SaleRecord[];
+  cleanNames: Record<string, string>;   // Raw product name -> suggested canonical name
+}
+
+// Fills in categories the report did not provide; each unique product name is asked about once.
+export const enrichSales = async (sales: SaleRecord[], ai: AiProvider, categories: string[]): Promise<EnrichmentResult> => {
+  const uniqueProducts = [...new Set(sales.map(s => s.product))];
+  const enrichmentMap = await ai.categorize(uniqueProducts, categories);
+  const cleanNames: Record<string, string> = {};
+  uniqueProducts.forEach(product => {
+    const cleanName = enrichmentMap[product]?.cleanName?.trim();
+    if (cleanName) cleanNames[product] = cleanName;
+  });
+  return {
+    sales: sales.map(sale => {
+      const enriched = enrichmentMap[sale.product];
+      return enriched ? { ...sale, category: enriched.category || sale.category } : sale;
+    }),
+    cleanNames
+  };
+};
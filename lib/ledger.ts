@@ -0,0 +1,100 @@
+import { SaleRecord } from '../types';
+
+/**
+ * How the money fields of a sale add up. `amount` is the row's sale value
+ * as reported; the optional breakdown fields refine it:
+ *
+ *   gross sales - discounts - refunds = net sales
+ *   net sales + tax + shipping - fees = payout
+ *
+ * Rows that carry no sale of their own (refund, discount or fee lines,
+ * usually with a zero or negative amount) are adjustments: they add no
+ * gross sales or units, only their deductions.
+ */
+
+export interface LedgerTotals {
+  gross: number;
+  discounts: number;
+  refunds: number;
+  net: number;
+  tax: number;
+  shipping: number;
+  fees: number;
+  payouts: number;
+}
+
+export const isAdjustment = (sale: SaleRecord) => sale.amount <= 0 && !((sale.gross || 0) > 0);
+
+// A negative amount on its own reads as a refund; next to a discount it is the discount line itself.
+export const refundAmount = (sale: SaleRecord) =>
+  sale.refund ?? (sale.amount < 0 && !sale.discount ? -sale.amount : 0);
+
+export const grossSales = (sale: SaleRecord) =>
+  isAdjustment(sale) ? 0 : sale.gross ?? sale.amount + (sale.discount || 0);
+
+export const netSales = (sale: SaleRecord) => grossSales(sale) - (sale.discount || 0) - refundAmount(sale);
+
+export const unitsSold = (sale: SaleRecord) => (isAdjustment(sale) ? 0 : sale.quantity);
+
+export const payout = (sale: SaleRecord) => netSales(sale) + (sale.tax || 0) + (sale.shipping || 0) - (sale.fee || 0);
+
+export const isRefund = (sale: SaleRecord) => refundAmount(sale) > 0;
+
+export const ledgerTotals = (sales: SaleRecord[]): LedgerTotals => {
+  const totals: LedgerTotals = { gross: 0, discounts: 0, refunds: 0, net: 0, tax: 0, shipping: 0, fees: 0, payouts: 0 };
+  sales.forEach(sale => {
+    totals.gross += grossSales(sale);
+    totals.discounts += sale.discount || 0;
+    totals.refunds += refundAmount(sale);
+    totals.net += netSales(sale);
+    totals.tax += sale.tax || 0;
+    totals.shipping += sale.shipping || 0;
+    totals.fees += sale.fee || 0;
+    totals.payouts += payout(sale);
+  });
+  return totals;
+};
+
+const sameName = (a: string, b: string) => a.trim().toLowerCase() === b.trim().toLowerCase();
+const isUnnamed = (product: string) => !product.trim() || product === 'Unknown';
+
+/**
+ * Points refund lines at the sale they give money back for. A shared order
+ * id wins; otherwise the latest earlier sale of the same product whose value
+ * covers the refund is used. Refunds that already have a link, refunds on
+ * the sale's own row and unmatched ones are left alone. Unnamed refund lines
+ * take the product and category of the sale they are linked to.
+ */
+export const linkRefunds = (existing: SaleRecord[], incoming: SaleRecord[]): { sales: SaleRecord[], linked: number } => {
+  const candidates = [...existing, ...incoming].filter(s => !isAdjustment(s));
+  const refunded = new Map<string, number>();
+  [...existing, ...incoming].forEach(s => {
+    if (s.refundFor) refunded.set(s.refundFor, (refunded.get(s.refundFor) || 0) + refundAmount(s));
+  });
+
+  let linked = 0;
+  const sales = incoming.map(sale => {
+    if (sale.refundFor || !isAdjustment(sale) || !isRefund(sale)) return sale;
+    const amount = refundAmount(sale);
+    const remaining = (s: SaleRecord) => netSales(s) - (refunded.get(s.id) || 0);
+
+    const byOrder = sale.orderId
+      ? candidates.filter(s => s.orderId === sale.orderId && (isUnnamed(sale.product) || sameName(s.product, sale.product)))
+      : [];
+    const byProduct = isUnnamed(sale.product)
+      ? []
+      : candidates.filter(s => sameName(s.product, sale.product) && s.date <= sale.date && remaining(s) >= amount - 0.005);
+    const original = [...byOrder, ...byProduct.sort((a, b) => b.date.localeCompare(a.date))][0];
+    if (!original) return sale;
+
+    linked++;
+    refunded.set(original.id, (refunded.get(original.id) || 0) + amount);
+    return {
+      ...sale,
+      refundFor: original.id,
+      product: isUnnamed(sale.product) ? original.product : sale.product,
+      category: isUnnamed(sale.product) ? original.category : sale.category
+    };
+  });
+  return { sales, linked };
+};
@@ -0,0 +1,221 @@
+import { MasterRecord, SaleRecord } from '../types';
+import { DEFAULT_CURRENCY } from './currency';
+
+const DB_NAME = 'esthetic-dashboard';
+const DB_VERSION = 1;
+const LEGACY_STORAGE_KEY = 'maker_master_record';
+
+type MasterMeta = Omit<MasterRecord, 'data'>;
+
+// What this device last saw on Drive; the base for three-way merges.
+export interface SyncState {
+  fileId: string;
+  version?: string;
+  modifiedTime?: string;
+  snapshot: MasterRecord;
+}
+// What this device last wrote to the Sheets copy, so the next update can append.
+export interface SheetPublishState {
+  spreadsheetId: string;
+  publishedAt: string;
+  salesRows: number;             // Sales rows written, header excluded
+  salesHash: string;
+  summaryHash: string;
+}
+
+type StoredSale = SaleRecord & { masterId: string };
+
+// Enough to list a cached workspace without loading its sales.
+export interface LocalMasterSummary {
+  id: string;
+  name: string;
+  lastUpdated: string;
+  totalSales: number;
+  totalRevenue: number;
+  reportingCurrency: string;
+}
+
+const requestToPromise = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+const transactionDone = (tx: IDBTransaction): Promise<void> =>
+  new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error || new Error('Local save was aborted.'));
+  });
+
+/**
+ * IndexedDB-backed home for master records. Master metadata and each sale
+ * are stored separately, so saving after an import only writes the rows
+ * that changed instead of re-serializing the whole history.
+ */
+export class LocalStore {
+  private dbPromise: Promise<IDBDatabase> | null = null;
+  // Last persisted sale objects per master; updates are immutable, so a
+  // changed row is simply a different object reference.
+  private persisted = new Map<string, Map<string, SaleRecord>>();
+  private writeQueue: Promise<void> = Promise.resolve();
+
+  private open(): Promise<IDBDatabase> {
+    if (!this.dbPromise) {
+      this.dbPromise = new Promise((resolve, reject) => {
+        const request = indexedDB.open(DB_NAME, DB_VERSION);
+        request.onupgradeneeded = () => {
+          const db = request.result;
+          if (!db.objectStoreNames.contains('masters')) db.createObjectStore('masters', { keyPath: 'id' });
+          if (!db.objectStoreNames.contains('sales')) {
+            const sales = db.createObjectStore('sales', { keyPath: ['masterId', 'id'] });
+            sales.createIndex('masterId', 'masterId');
+          }
+          if (!db.objectStoreNames.contains('meta')) db.createObjectStore('meta', { keyPath: 'key' });
+        };
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+      });
+    }
+    return this.dbPromise;
+  }
+
+  private async getMeta<T>(key: string): Promise<T | undefined> {
+    const db = await this.open();
+    const entry = await requestToPromise(db.transaction('meta').objectStore('meta').get(key));
+    return entry?.value;
+  }
+
+  private async setMeta(key: string, value: any): Promise<void> {
+    const db = await this.open();
+    const tx = db.transaction('meta', 'readwrite');
+    tx.objectStore('meta').put({ key, value });
+    await transactionDone(tx);
+  }
+
+  async loadMaster(id: string): Promise<MasterRecord | null> {
+    const db = await this.open();
+    const tx = db.transaction(['masters', 'sales']);
+    const [meta, rows] = await Promise.all([
+      requestToPromise<MasterMeta | undefined>(tx.objectStore('masters').get(id)),
+      requestToPromise<StoredSale[]>(tx.objectStore('sales').index('masterId').getAll(id))
+    ]);
+    if (!meta) return null;
+
+    // Rows come back in key order; restore the order they were added in.
+    const order = new Map<string, number>((meta as any).saleOrder?.map((saleId: string, i: number) => [saleId, i]) || []);
+    const data = rows
+      .map(({ masterId, ...sale }) => sale as SaleRecord)
+      .sort((a, b) => (order.get(a.id) ?? Infinity) - (order.get(b.id) ?? Infinity));
+
+    this.persisted.set(id, new Map(data.map(s => [s.id, s])));
+    const { saleOrder, ...rest } = meta as any;
+    return { ...rest, data };
+  }
+
+  /**
+   * Returns the master the app last had open. On first run this picks up the
+   * record the old build kept in localStorage (as raw JSON, so it can be
+   * migrated and validated); the legacy key is dropped once it has been
+   * saved here.
+   */
+  async loadActiveMaster(): Promise<MasterRecord | string | null> {
+    const activeId = await this.getMeta<string>('activeMasterId');
+    if (activeId) {
+      const master = await this.loadMaster(activeId);
+      if (master) return master;
+    }
+    return localStorage.getItem(LEGACY_STORAGE_KEY);
+  }
+
+  saveMaster(master: MasterRecord): Promise<void> {
+    const write = this.writeQueue.then(() => this.writeMaster(master));
+    this.writeQueue = write.catch(() => undefined);
+    return write;
+  }
+
+  private async writeMaster(master: MasterRecord): Promise<void> {
+    const db = await this.open();
+    const tx = db.transaction(['masters', 'sales', 'meta'], 'readwrite');
+    const salesStore = tx.objectStore('sales');
+    const previous = this.persisted.get(master.id);
+
+    const { data, ...meta } = master;
+    tx.objectStore('masters').put({ ...meta, saleOrder: data.map(s => s.id) });
+    tx.objectStore('meta').put({ key: 'activeMasterId', value: master.id });
+
+    if (!previous) {
+      // Nothing known about what is on disk yet - rewrite this master's rows.
+      const range = IDBKeyRange.bound([master.id], [master.id, []]);
+      salesStore.delete(range);
+      data.forEach(sale => salesStore.put({ ...sale, masterId: master.id }));
+    } else {
+      const current = new Set<string>();
+      data.forEach(sale => {
+        current.add(sale.id);
+        if (previous.get(sale.id) !== sale) salesStore.put({ ...sale, masterId: master.id });
+      });
+      previous.forEach((_, id) => { if (!current.has(id)) salesStore.delete([master.id, id]); });
+    }
+
+    await transactionDone(tx);
+    this.persisted.set(master.id, new Map(data.map(s => [s.id, s])));
+    localStorage.removeItem(LEGACY_STORAGE_KEY);
+  }
+
+  async deleteMaster(id: string): Promise<void> {
+    await this.writeQueue;
+    const activeId = await this.getMeta<string>('activeMasterId');
+    const db = await this.open();
+    const tx = db.transaction(['masters', 'sales', 'meta'], 'readwrite');
+    tx.objectStore('masters').delete(id);
+    tx.objectStore('sales').delete(IDBKeyRange.bound([id], [id, []]));
+    tx.objectStore('meta').delete(`sync:${id}`);
+    tx.objectStore('meta').delete(`sheet:${id}`);
+    if (activeId === id) tx.objectStore('meta').delete('activeMasterId');
+    await transactionDone(tx);
+    this.persisted.delete(id);
+    localStorage.removeItem(LEGACY_STORAGE_KEY);
+  }
+
+  async listMasters(): Promise<LocalMasterSummary[]> {
+    const db = await this.open();
+    const metas = await requestToPromise<MasterMeta[]>(db.transaction('masters').objectStore('masters').getAll());
+    return metas.map(({ id, name, lastUpdated, totalSales, totalRevenue, reportingCurrency }) => ({
+      id, name, lastUpdated, totalSales, totalRevenue, reportingCurrency: reportingCurrency || DEFAULT_CURRENCY
+    }));
+  }
+
+  // Forgets every cached workspace on this device (sign out).
+  async clear(): Promise<void> {
+    await this.writeQueue;
+    const db = await this.open();
+    const tx = db.transaction(['masters', 'sales', 'meta'], 'readwrite');
+    ['masters', 'sales', 'meta'].forEach(store => tx.objectStore(store).clear());
+    await transactionDone(tx);
+    this.persisted.clear();
+    localStorage.removeItem(LEGACY_STORAGE_KEY);
+  }
+
+  // Waits for queued saves, which mark their master active as they land.
+  async setActiveMaster(id: string | null): Promise<void> {
+    await this.writeQueue;
+    await this.setMeta('activeMasterId', id);
+  }
+
+  getSyncState(masterId: string): Promise<SyncState | undefined> {
+    return this.getMeta<SyncState>(`sync:${masterId}`);
+  }
+
+  saveSyncState(masterId: string, state: SyncState): Promise<void> {
+    return this.setMeta(`sync:${masterId}`, state);
+  }
+
+  getSheetState(masterId: string): Promise<SheetPublishState | undefined> {
+    return this.getMeta<SheetPublishState>(`sheet:${masterId}`);
+  }
+
+  saveSheetState(masterId: string, state: SheetPublishState): Promise<void> {
+    return this.setMeta(`sheet:${masterId}`, state);
+  }
+}
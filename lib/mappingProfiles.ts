@@ -0,0 +1,45 @@
+import { ColumnMapping, MappingProfile, MasterRecord } from '../types';
+import { hashString } from './dedup';
+import { MAPPING_FIELDS } from './ingest';
+import { generateId } from './masterRecord';
+
+const normaliseHeader = (header: string) => header.trim().toLowerCase().replace(/\s+/g, ' ');
+
+// Column order doesn't matter; the set of column names identifies the report layout.
+export const headerFingerprint = (headers: string[]): string =>
+  hashString([...new Set(headers.map(normaliseHeader))].sort().join('|'));
+
+const coversHeaders = (mapping: ColumnMapping, headers: string[]) =>
+  MAPPING_FIELDS.every(field => !mapping[field] || headers.includes(mapping[field]));
+
+/**
+ * Finds the profile for a report. An exact header fingerprint wins; failing
+ * that, a column-only profile (migrated from the old single mapping) is used
+ * if every column it maps is present.
+ */
+export const findProfileForHeaders = (profiles: MappingProfile[], headers: string[]): MappingProfile | undefined => {
+  const fingerprint = headerFingerprint(headers);
+  const exact = profiles.find(p => p.headerFingerprint === fingerprint);
+  if (exact) return exact;
+  return profiles
+    .filter(p => !p.headerFingerprint && coversHeaders(p.mapping, headers))
+    .sort((a, b) => b.updatedAt.localeCompare(a.updatedAt))[0];
+};
+
+export const createProfile = (name: string, headers: string[], mapping: ColumnMapping): MappingProfile => ({
+  id: generateId(),
+  name,
+  headerFingerprint: headerFingerprint(headers),
+  headers,
+  mapping,
+  updatedAt: new Date().toISOString()
+});
+
+// "Etsy Orders March.csv" -> "Etsy Orders March"
+export const defaultProfileName = (sourceName: string) =>
+  sourceName.replace(/\.(csv|xlsx?|json|txt)\b/i, '').trim() || 'Untitled report';
+
+export const deleteMappingProfile = (master: MasterRecord, profileId: string): MasterRecord => ({
+  ...master,
+  mappingProfiles: master.mappingProfiles.filter(p => p.id !== profileId)
+});
@@ -0,0 +1,83 @@
+import { ColumnMapping, ImportBatch, MappingProfile, MasterRecord, SaleRecord } from '../types';
+import { convertSales } from './currency';
+import { linkRefunds, netSales } from './ledger';
+
+export const generateId = () => Math.random().toString(36).substr(2, 9);
+
+// Totals are derived from `data`, in the reporting currency; every mutation should end here.
+export const withTotals = (master: MasterRecord, data: SaleRecord[] = master.data): MasterRecord => ({
+  ...master,
+  data,
+  lastUpdated: new Date().toISOString(),
+  totalSales: data.length,
+  totalRevenue: convertSales(data, master.reportingCurrency, master.exchangeRates).sales.reduce((acc, s) => acc + netSales(s), 0)
+});
+
+// Where a set of synced rows came from and how its columns were read.
+export interface ImportSource {
+  fileName: string;
+  sheetName?: string;
+  profile: MappingProfile;
+  cleanNames?: Record<string, string>;  // Product names suggested during enrichment
+}
+
+const sameMapping = (a: ColumnMapping, b: ColumnMapping) =>
+  [...new Set([...Object.keys(a), ...Object.keys(b)])].every(key => ((a as any)[key] || '') === ((b as any)[key] || ''));
+
+const profileChanged = (stored: MappingProfile, profile: MappingProfile) =>
+  stored.name !== profile.name || stored.headerFingerprint !== profile.headerFingerprint || !sameMapping(stored.mapping, profile.mapping);
+
+export const appendImportBatch = (master: MasterRecord, sales: SaleRecord[], source: ImportSource): MasterRecord => {
+  const { fileName, sheetName, profile } = source;
+  const batch: ImportBatch = {
+    id: generateId(),
+    fileName,
+    sheetName,
+    importedAt: new Date().toISOString(),
+    rowCount: sales.length,
+    mapping: profile.mapping,
+    profileId: profile.id,
+    recordIds: sales.map(s => s.id)
+  };
+  const stamped = linkRefunds(master.data, sales).sales.map(s => ({ ...s, batchId: batch.id }));
+
+  const syncedFiles = [...(master.syncedFiles || [])];
+  if (!syncedFiles.includes(fileName)) syncedFiles.push(fileName);
+
+  // A profile used as saved stays untouched, so devices importing with it don't conflict
+  const stored = master.mappingProfiles.find(p => p.id === profile.id);
+  const profileUpdate = { ...profile, updatedAt: batch.importedAt };
+  const mappingProfiles = !stored
+    ? [...master.mappingProfiles, profileUpdate]
+    : profileChanged(stored, profile)
+      ? master.mappingProfiles.map(p => (p.id === profile.id ? profileUpdate : p))
+      : master.mappingProfiles;
+
+  return withTotals({
+    ...master,
+    mappingProfiles,
+    syncedFiles,
+    imports: [...(master.imports || []), batch]
+  }, [...master.data, ...stamped]);
+};
+
+/**
+ * Removes every record a batch added. The file leaves `syncedFiles` once no
+ * other batch came from it, so the same report can be imported again.
+ */
+export const rollbackImportBatch = (master: MasterRecord, batchId: string): MasterRecord => {
+  const batch = master.imports?.find(b => b.id === batchId);
+  if (!batch) return master;
+
+  const removed = new Set(batch.recordIds);
+  const imports = (master.imports || []).filter(b => b.id !== batchId);
+  const fileStillImported = imports.some(b => b.fileName === batch.fileName);
+
+  return withTotals({
+    ...master,
+    imports,
+    syncedFiles: fileStillImported
+      ? master.syncedFiles
+      : (master.syncedFiles || []).filter(f => f !== batch.fileName)
+  }, master.data.filter(s => !removed.has(s.id)));
+};
@@ -0,0 +1,75 @@
+import { DriveApi, DriveFileMeta, DriveRevision } from './googleDrive';
+
+interface MemoryFile {
+  meta: DriveFileMeta;
+  revisions: (DriveRevision & { content: string })[];
+}
+
+/**
+ * A DriveApi that keeps files and their revisions in memory, for exercising
+ * sync without a Google account. `versionStep` sets how far each save moves
+ * a file's version, since Drive only promises that it increases.
+ */
+export class MemoryDrive implements DriveApi {
+  readonly files = new Map<string, MemoryFile>();
+  private nextId = 1;
+
+  constructor(private versionStep = 1) {}
+
+  async findFiles(query: string) {
+    const wanted = [...query.matchAll(/key='([^']*)' and value='([^']*)'/g)];
+    if (!wanted.length) throw new Error(`MemoryDrive cannot search for ${query}`);
+    return [...this.files.values()]
+      .filter(file => wanted.some(([, key, value]) => file.meta.appProperties?.[key] === value))
+      .map(file => ({ ...file.meta }));
+  }
+
+  async findFileByName(name: string) {
+    const file = [...this.files.values()].find(f => f.meta.name === name);
+    return file ? { ...file.meta } : null;
+  }
+
+  async getFileMetadata(fileId: string) {
+    const file = this.files.get(fileId);
+    return file ? { ...file.meta } : null;
+  }
+
+  async saveJsonToCloud(name: string, content: any, fileId?: string, appProperties?: Record<string, string>) {
+    const id = fileId || `file-${this.nextId++}`;
+    const file = this.files.get(id) || { meta: { id, name, version: '0' }, revisions: [] };
+    const revision = { id: `rev-${this.nextId++}`, modifiedTime: new Date(Date.UTC(2025, 0, 1, 0, 0, this.nextId)).toISOString(), content: JSON.stringify(content) };
+    file.revisions.push(revision);
+    file.meta = {
+      ...file.meta,
+      name,
+      version: String(Number(file.meta.version) + this.versionStep),
+      modifiedTime: revision.modifiedTime,
+      headRevisionId: revision.id,
+      webViewLink: `memory://${id}`,
+      ...(appProperties && { appProperties })
+    };
+    this.files.set(id, file);
+    return { ...file.meta };
+  }
+
+  async downloadFile(fileId: string) {
+    const revisions = this.file(fileId).revisions;
+    return JSON.parse(revisions[revisions.length - 1].content);
+  }
+
+  async listRevisions(fileId: string) {
+    return this.file(fileId).revisions.map(({ id, modifiedTime }) => ({ id, modifiedTime }));
+  }
+
+  async downloadRevision(fileId: string, revisionId: string) {
+    const revision = this.file(fileId).revisions.find(r => r.id === revisionId);
+    if (!revision) throw new Error(`No revision ${revisionId} of ${fileId}.`);
+    return JSON.parse(revision.content);
+  }
+
+  private file(id: string): MemoryFile {
+    const file = this.files.get(id);
+    if (!file) throw new Error(`No file ${id}.`);
+    return file;
+  }
+}
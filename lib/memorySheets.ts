@@ -0,0 +1,38 @@
+import { SheetValues, SheetsApi } from './googleDrive';
+
+/**
+ * A SheetsApi that keeps spreadsheets in memory, for exercising the Sheets copy
+ * without a Google account.
+ */
+export class MemorySheets implements SheetsApi {
+  readonly spreadsheets = new Map<string, { title: string; tabs: Map<string, SheetValues> }>();
+  private nextId = 1;
+
+  async createSpreadsheet(title: string, tabs: string[]) {
+    const id = `sheet-${this.nextId++}`;
+    this.spreadsheets.set(id, { title, tabs: new Map(tabs.map(tab => [tab, []])) });
+    return { id, url: `memory://${id}` };
+  }
+
+  async spreadsheetExists(id: string) {
+    return this.spreadsheets.has(id);
+  }
+
+  async countRows(id: string, tab: string) {
+    return this.tab(id, tab).length;
+  }
+
+  async replaceValues(id: string, tab: string, values: SheetValues) {
+    this.tab(id, tab).splice(0, Infinity, ...values);
+  }
+
+  async appendValues(id: string, tab: string, values: SheetValues) {
+    this.tab(id, tab).push(...values);
+  }
+
+  private tab(id: string, tab: string): SheetValues {
+    const values = this.spreadsheets.get(id)?.tabs.get(tab);
+    if (!values) throw new Error(`No tab "${tab}" in spreadsheet ${id}.`);
+    return values;
+  }
+}
@@ -0,0 +1,124 @@
+import { SaleRecord } from '../types';
+
+export type TimeRange = 'all' | '7d' | '30d' | 'custom';
+export type ComparisonMode = 'none' | 'previous' | 'yoy';
+
+// Inclusive YYYY-MM-DD bounds; string comparison keeps time zones out of it.
+export interface DateRange {
+  start: string;
+  end: string;
+}
+
+const pad = (n: number) => String(n).padStart(2, '0');
+
+export const toIsoDay = (date: Date) => `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+
+export const parseIsoDay = (iso: string) => {
+  const [y, m, d] = iso.split('-').map(Number);
+  return new Date(y, m - 1, d);
+};
+
+export const addDays = (iso: string, days: number) => {
+  const date = parseIsoDay(iso);
+  date.setDate(date.getDate() + days);
+  return toIsoDay(date);
+};
+
+// Feb 29 maps to Feb 28 rather than rolling into March.
+export const addYears = (iso: string, years: number) => {
+  const [y, m, d] = iso.split('-').map(Number);
+  const lastDay = new Date(y + years, m, 0).getDate();
+  return `${y + years}-${pad(m)}-${pad(Math.min(d, lastDay))}`;
+};
+
+export const daysInRange = (range: DateRange) =>
+  Math.round((parseIsoDay(range.end).getTime() - parseIsoDay(range.start).getTime()) / 86400000) + 1;
+
+/**
+ * The dates a TimeRange covers. "7 Days" means today and the six before it.
+ * Full History spans the data itself; an unfinished custom range is null.
+ */
+export const resolveRange = (
+  timeRange: TimeRange,
+  data: SaleRecord[],
+  custom: Partial<DateRange> = {},
+  today: Date = new Date()
+): DateRange | null => {
+  const end = toIsoDay(today);
+  if (timeRange === '7d') return { start: addDays(end, -6), end };
+  if (timeRange === '30d') return { start: addDays(end, -29), end };
+  if (timeRange === 'custom') {
+    if (!custom.start || !custom.end) return null;
+    return custom.start <= custom.end ? { start: custom.start, end: custom.end } : { start: custom.end, end: custom.start };
+  }
+  const dates = data.map(s => s.date).filter(Boolean).sort();
+  return dates.length ? { start: dates[0], end: dates[dates.length - 1] } : null;
+};
+
+// The window a range is compared against: the same number of days just before it, or the same dates a year earlier.
+export const comparisonRange = (range: DateRange, mode: ComparisonMode): DateRange | null => {
+  if (mode === 'previous') {
+    const length = daysInRange(range);
+    return { start: addDays(range.start, -length), end: addDays(range.start, -1) };
+  }
+  if (mode === 'yoy') return { start: addYears(range.start, -1), end: addYears(range.end, -1) };
+  return null;
+};
+
+// Maps a date in the current range to the matching date in the comparison range.
+export const comparisonDate = (iso: string, range: DateRange, mode: ComparisonMode) =>
+  mode === 'yoy' ? addYears(iso, -1) : addDays(iso, -daysInRange(range));
+
+export const filterByRange = (data: SaleRecord[], range: DateRange | null) =>
+  range ? data.filter(s => s.date && s.date >= range.start && s.date <= range.end) : data;
+
+// null when there is nothing to compare against (a previous value of zero).
+export const percentChange = (current: number, previous: number): number | null =>
+  previous === 0 ? null : ((current - previous) / Math.abs(previous)) * 100;
+
+export const COMPARISON_LABELS: Record<Exclude<ComparisonMode, 'none'>, string> = {
+  previous: 'previous period',
+  yoy: 'last year'
+};
+
+export type Granularity = 'day' | 'week' | 'month' | 'quarter';
+
+// Keeps a chart to roughly 30–120 points whatever the span.
+export const autoGranularity = (range: DateRange): Granularity => {
+  const days = daysInRange(range);
+  if (days <= 92) return 'day';
+  if (days <= 731) return 'week';
+  if (days <= 366 * 5) return 'month';
+  return 'quarter';
+};
+
+// First day of the bucket a date falls in; weeks start on Monday.
+export const bucketStart = (iso: string, granularity: Granularity) => {
+  const [y, m] = iso.split('-').map(Number);
+  if (granularity === 'week') return addDays(iso, -((parseIsoDay(iso).getDay() + 6) % 7));
+  if (granularity === 'month') return `${y}-${pad(m)}-01`;
+  if (granularity === 'quarter') return `${y}-${pad(m - ((m - 1) % 3))}-01`;
+  return iso;
+};
+
+export const nextBucket = (start: string, granularity: Granularity) => {
+  if (granularity === 'day') return addDays(start, 1);
+  if (granularity === 'week') return addDays(start, 7);
+  const date = parseIsoDay(start);
+  date.setMonth(date.getMonth() + (granularity === 'quarter' ? 3 : 1));
+  return toIsoDay(date);
+};
+
+const MONTHS = ['Jan', 'Feb', 'Mar', 'Apr', 'May', 'Jun', 'Jul', 'Aug', 'Sep', 'Oct', 'Nov', 'Dec'];
+
+// Axis label for a bucket; the year is only left off when every point shares it.
+export const bucketLabel = (start: string, granularity: Granularity, showYear: boolean) => {
+  const [y, m, d] = start.split('-').map(Number);
+  if (granularity === 'quarter') return `Q${Math.floor((m - 1) / 3) + 1} ${y}`;
+  if (granularity === 'month') return showYear ? `${MONTHS[m - 1]} ${y}` : MONTHS[m - 1];
+  return showYear ? `${MONTHS[m - 1]} ${d}, ${y}` : `${MONTHS[m - 1]} ${d}`;
+};
+
+// Inverse of comparisonDate: where a comparison-period date lands on the current timeline.
+export const alignToRange = (iso: string, range: DateRange, mode: ComparisonMode) =>
+  mode === 'yoy' ? addYears(iso, 1) : addDays(iso, daysInRange(range));
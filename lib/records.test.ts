@@ -0,0 +1,129 @@
+import { describe, expect, it } from 'vitest';
+import { ImportBatch, MasterRecord, SaleRecord } from '../types';
+import { ledgerTotals, netSales } from './ledger';
+import { applyRecordMutation, canSplit, normalizeSale, splitSale, validateSale, validateSplit, withAmount } from './records';
+import { migrateMasterRecord } from './schema';
+
+const sale = (n: number, overrides: Partial<SaleRecord> = {}): SaleRecord => ({
+  id: `s${n}`,
+  date: '2025-03-01',
+  product: 'Serum',
+  category: 'General',
+  quantity: 1,
+  amount: 10 * n,
+  batchId: 'b1',
+  ...overrides
+});
+
+const batch: ImportBatch = { id: 'b1', fileName: 'orders.csv', importedAt: '', rowCount: 3, recordIds: ['s1', 's2', 's3'] };
+
+const workspace = (data: SaleRecord[]): MasterRecord => migrateMasterRecord({
+  schemaVersion: 1, id: 'm1', name: 'Shop', lastUpdated: '', totalSales: 0, totalRevenue: 0, data, imports: [batch]
+});
+
+describe('validateSale', () => {
+  it('accepts a complete sale', () => {
+    expect(validateSale(sale(1))).toEqual([]);
+  });
+
+  it('lists every problem', () => {
+    expect(validateSale({ ...sale(1), date: '2025-02-30', product: ' ', category: '', amount: 'abc', quantity: '1.5' })).toEqual([
+      'Date must be a real YYYY-MM-DD date.',
+      'Product is required.',
+      'Category is required.',
+      'Amount must be a number.',
+      'Quantity must be a whole number of at least 1.'
+    ]);
+  });
+});
+
+describe('normalizeSale', () => {
+  it('trims text and rounds the amount to cents', () => {
+    expect(normalizeSale({ ...sale(1), product: ' Serum ', amount: '12.345', quantity: '2' })).toMatchObject({ product: 'Serum', amount: 12.35, quantity: 2 });
+  });
+});
+
+describe('withAmount', () => {
+  it('lets an edited amount set net sales on a sale with a gross breakdown', () => {
+    const original = sale(1, { amount: 90, gross: 100, discount: 10 });
+    expect(netSales(original)).toBe(90);
+    const edited = normalizeSale(withAmount(original, '500'));
+    expect(edited).not.toHaveProperty('gross');
+    expect(netSales(edited)).toBe(500);
+  });
+});
+
+describe('splitSale', () => {
+  it('shares units evenly and leaves the rounding cent on the last part', () => {
+    const parts = splitSale(sale(1, { quantity: 3, amount: 10 }), 3);
+    expect(parts.map(p => [p.quantity, p.amount])).toEqual([[1, 3.33], [1, 3.33], [1, 3.34]]);
+    expect(parts[0].id).toBe('s1');
+    expect(new Set(parts.map(p => p.id)).size).toBe(3);
+  });
+
+  it('shares the cost of goods by units', () => {
+    const parts = splitSale(sale(1, { quantity: 3, amount: 90, cost: 40 }), 2);
+    expect(parts.map(p => p.cost)).toEqual([26.67, 13.33]);
+    expect(splitSale(sale(1, { quantity: 2 }))[0]).not.toHaveProperty('cost');
+  });
+
+  it('keeps the ledger totals of the original', () => {
+    const original = sale(1, { quantity: 3, amount: 90, gross: 100, discount: 10, tax: 7.5, shipping: 4, fee: 5, refund: 0.01 });
+    const parts = splitSale(original, 2);
+    expect(parts.map(p => [p.gross, p.discount, p.fee])).toEqual([[66.67, 6.67, 3.33], [33.33, 3.33, 1.67]]);
+    const before = ledgerTotals([original]);
+    Object.entries(ledgerTotals(parts)).forEach(([key, total]) => expect(total).toBeCloseTo(before[key as keyof typeof before]));
+
+    expect(applyRecordMutation(workspace([original]), { type: 'split', id: 's1', parts }).totalRevenue).toBeCloseTo(before.net);
+  });
+
+  it('refuses to split into more parts than units', () => {
+    expect(canSplit(sale(1))).toBe(false);
+    expect(() => splitSale(sale(1, { quantity: 2 }), 3)).toThrow(/can't be split/);
+  });
+
+  it('checks that edited parts still add up to the original units', () => {
+    const original = sale(1, { quantity: 4 });
+    const parts = splitSale(original);
+    expect(validateSplit(original, parts)).toEqual([]);
+    expect(validateSplit(original, [parts[0], { ...parts[1], quantity: 3 }])).toEqual(['The parts add up to 5 units; the sale had 4.']);
+  });
+});
+
+describe('applyRecordMutation', () => {
+  const master = workspace([sale(1), sale(2), sale(3)]);
+
+  it('adds a sale and updates the totals', () => {
+    const result = applyRecordMutation(master, { type: 'add', sale: sale(4, { batchId: undefined }) });
+    expect(result.data).toHaveLength(4);
+    expect(result).toMatchObject({ totalSales: 4, totalRevenue: 100 });
+    expect(result.lastUpdated).not.toBe(master.lastUpdated);
+  });
+
+  it('updates a sale in place', () => {
+    const result = applyRecordMutation(master, { type: 'update', sale: sale(2, { amount: 5 }) });
+    expect(result.data.map(s => s.amount)).toEqual([10, 5, 30]);
+    expect(result.totalRevenue).toBe(45);
+  });
+
+  it('deletes sales and drops them from their import batch', () => {
+    const result = applyRecordMutation(master, { type: 'delete', ids: ['s1', 's3'] });
+    expect(result.data.map(s => s.id)).toEqual(['s2']);
+    expect(result.imports?.[0].recordIds).toEqual(['s2']);
+    expect(result.totalRevenue).toBe(20);
+  });
+
+  it('replaces a split sale with its parts, in place and in its batch', () => {
+    const data = [sale(1), sale(2, { quantity: 2 }), sale(3)];
+    const parts = splitSale(data[1]);
+    const result = applyRecordMutation(workspace(data), { type: 'split', id: 's2', parts });
+
+    expect(result.data.map(s => s.id)).toEqual(['s1', ...parts.map(p => p.id), 's3']);
+    expect(result.imports?.[0].recordIds).toEqual(['s1', ...parts.map(p => p.id), 's3']);
+    expect(result).toMatchObject({ totalSales: 4, totalRevenue: 60 });
+  });
+
+  it('ignores a split of a sale that is gone', () => {
+    expect(applyRecordMutation(master, { type: 'split', id: 'missing', parts: [] })).toBe(master);
+  });
+});
@@ -0,0 +1,137 @@
+import { MasterRecord, SaleRecord } from '../types';
+import { generateId, withTotals } from './masterRecord';
+
+/**
+ * Every manual change to sales goes through applyRecordMutation, so totals,
+ * import batches and lastUpdated (which triggers the Drive sync) stay in step.
+ */
+export type RecordMutation =
+  | { type: 'add'; sale: SaleRecord }
+  | { type: 'update'; sale: SaleRecord }
+  | { type: 'delete'; ids: string[] }
+  | { type: 'split'; id: string; parts: SaleRecord[] };
+
+export type SaleDraft = Omit<SaleRecord, 'amount' | 'quantity'> & { amount: number | string; quantity: number | string };
+
+const isValidIsoDate = (date: string) => {
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(date)) return false;
+  const [y, m, d] = date.split('-').map(Number);
+  const parsed = new Date(y, m - 1, d);
+  return parsed.getFullYear() === y && parsed.getMonth() === m - 1 && parsed.getDate() === d;
+};
+
+export const validateSale = (sale: SaleDraft): string[] => {
+  const issues: string[] = [];
+  if (!isValidIsoDate(String(sale.date || ''))) issues.push('Date must be a real YYYY-MM-DD date.');
+  if (!String(sale.product || '').trim()) issues.push('Product is required.');
+  if (!String(sale.category || '').trim()) issues.push('Category is required.');
+  if (String(sale.amount).trim() === '' || !isFinite(Number(sale.amount))) issues.push('Amount must be a number.');
+  if (!Number.isInteger(Number(sale.quantity)) || Number(sale.quantity) < 1) issues.push('Quantity must be a whole number of at least 1.');
+  return issues;
+};
+
+// Edited parts must still account for exactly the original's units.
+export const validateSplit = (original: SaleRecord, parts: SaleDraft[]): string[] => {
+  const issues = parts.flatMap((part, i) => validateSale(part).map(issue => `Part ${i + 1}: ${issue}`));
+  const units = parts.reduce((sum, part) => sum + Number(part.quantity), 0);
+  if (issues.length === 0 && units !== original.quantity) {
+    issues.push(`The parts add up to ${units} units; the sale had ${original.quantity}.`);
+  }
+  return issues;
+};
+
+// The ledger takes gross sales from `gross` when it is set, so an edited
+// amount drops it; net sales then follow the new amount.
+export const withAmount = <T extends SaleDraft>(draft: T, amount: number | string): T => {
+  const { gross, ...rest } = draft;
+  return { ...rest, amount } as T;
+};
+
+// Trims text and turns form strings back into numbers; call after validateSale passes.
+export const normalizeSale = (sale: SaleDraft): SaleRecord => ({
+  ...sale,
+  product: String(sale.product).trim(),
+  category: String(sale.category).trim(),
+  amount: Math.round(Number(sale.amount) * 100) / 100,
+  quantity: Number(sale.quantity)
+});
+
+export const newSale = (category: string, now: Date = new Date()): SaleRecord => ({
+  id: `manual-${generateId()}`,
+  date: `${now.getFullYear()}-${String(now.getMonth() + 1).padStart(2, '0')}-${String(now.getDate()).padStart(2, '0')}`,
+  product: '',
+  category,
+  amount: 0,
+  quantity: 1
+});
+
+// Every part needs at least one unit, so a single-unit sale can't be split.
+export const canSplit = (sale: SaleRecord, count: number = 2) => sale.quantity >= Math.max(2, count);
+
+// Money that belongs to the whole row and has to be shared out when it is split.
+const SPLIT_FIELDS = ['amount', 'cost', 'gross', 'discount', 'refund', 'tax', 'shipping', 'fee'] as const;
+
+// Shares `total` by units, leaving any rounding cent on the last share.
+const shareByUnits = (total: number, unitShares: number[], units: number): number[] => {
+  let allocated = 0;
+  return unitShares.map((quantity, i) => {
+    const share = i === unitShares.length - 1
+      ? Math.round((total - allocated) * 100) / 100
+      : Math.round(total * quantity / units * 100) / 100;
+    allocated += share;
+    return share;
+  });
+};
+
+/**
+ * Proposes `count` rows that add up to the original: units are shared out as
+ * evenly as possible and the amount, cost and money breakdown follow the
+ * units, with any rounding cent left on the last row. Ids are new except for the first part.
+ */
+export const splitSale = (sale: SaleRecord, count: number = 2): SaleRecord[] => {
+  const parts = Math.max(2, count);
+  if (!canSplit(sale, parts)) throw new Error(`A sale of ${sale.quantity} units can't be split into ${parts} parts.`);
+  const unitShares = Array.from({ length: parts }, (_, i) => Math.floor(sale.quantity / parts) + (i < sale.quantity % parts ? 1 : 0));
+  const shares = SPLIT_FIELDS
+    .filter(field => sale[field] !== undefined)
+    .map(field => [field, shareByUnits(sale[field]!, unitShares, sale.quantity)] as const);
+
+  return unitShares.map((quantity, i) => ({
+    ...sale,
+    ...Object.fromEntries(shares.map(([field, values]) => [field, values[i]])),
+    id: i === 0 ? sale.id : `${sale.id}-split-${generateId()}`,
+    fingerprint: sale.fingerprint && (i === 0 ? sale.fingerprint : `${sale.fingerprint}#${i + 1}`),
+    quantity
+  }));
+};
+
+export const applyRecordMutation = (master: MasterRecord, mutation: RecordMutation): MasterRecord => {
+  switch (mutation.type) {
+    case 'add':
+      return withTotals(master, [...master.data, mutation.sale]);
+
+    case 'update':
+      return withTotals(master, master.data.map(s => (s.id === mutation.sale.id ? mutation.sale : s)));
+
+    case 'delete': {
+      const removed = new Set(mutation.ids);
+      const imports = master.imports?.map(batch => {
+        const recordIds = batch.recordIds.filter(id => !removed.has(id));
+        return recordIds.length === batch.recordIds.length ? batch : { ...batch, recordIds };
+      });
+      return withTotals({ ...master, imports }, master.data.filter(s => !removed.has(s.id)));
+    }
+
+    case 'split': {
+      const original = master.data.find(s => s.id === mutation.id);
+      if (!original) return master;
+      const data = master.data.flatMap(s => (s.id === mutation.id ? mutation.parts : [s]));
+      // Parts stay in the original's batch so a rollback still removes them
+      const imports = master.imports?.map(batch => batch.id !== original.batchId ? batch : {
+        ...batch,
+        recordIds: batch.recordIds.flatMap(id => (id === mutation.id ? mutation.parts.map(p => p.id) : [id]))
+      });
+      return withTotals({ ...master, imports }, data);
+    }
+  }
+};
@@ -0,0 +1,122 @@
+import { SaleRecord } from '../types';
+import { netSales, unitsSold } from './ledger';
+
+export interface RegionInfo {
+  code: string;                  // State or province, e.g. "CA", "ON"
+  name: string;
+  country: 'US' | 'CA';
+  region: string;                // Census region for the US, "Canada" otherwise
+}
+
+export type RegionLevel = 'state' | 'region';
+
+export const UNKNOWN_REGION = 'Unknown';
+
+const US_STATES: Record<string, [string, string]> = {
+  AL: ['Alabama', 'South'], AK: ['Alaska', 'West'], AZ: ['Arizona', 'West'], AR: ['Arkansas', 'South'],
+  CA: ['California', 'West'], CO: ['Colorado', 'West'], CT: ['Connecticut', 'Northeast'], DE: ['Delaware', 'South'],
+  DC: ['District of Columbia', 'South'], FL: ['Florida', 'South'], GA: ['Georgia', 'South'], HI: ['Hawaii', 'West'],
+  ID: ['Idaho', 'West'], IL: ['Illinois', 'Midwest'], IN: ['Indiana', 'Midwest'], IA: ['Iowa', 'Midwest'],
+  KS: ['Kansas', 'Midwest'], KY: ['Kentucky', 'South'], LA: ['Louisiana', 'South'], ME: ['Maine', 'Northeast'],
+  MD: ['Maryland', 'South'], MA: ['Massachusetts', 'Northeast'], MI: ['Michigan', 'Midwest'], MN: ['Minnesota', 'Midwest'],
+  MS: ['Mississippi', 'South'], MO: ['Missouri', 'Midwest'], MT: ['Montana', 'West'], NE: ['Nebraska', 'Midwest'],
+  NV: ['Nevada', 'West'], NH: ['New Hampshire', 'Northeast'], NJ: ['New Jersey', 'Northeast'], NM: ['New Mexico', 'West'],
+  NY: ['New York', 'Northeast'], NC: ['North Carolina', 'South'], ND: ['North Dakota', 'Midwest'], OH: ['Ohio', 'Midwest'],
+  OK: ['Oklahoma', 'South'], OR: ['Oregon', 'West'], PA: ['Pennsylvania', 'Northeast'], RI: ['Rhode Island', 'Northeast'],
+  SC: ['South Carolina', 'South'], SD: ['South Dakota', 'Midwest'], TN: ['Tennessee', 'South'], TX: ['Texas', 'South'],
+  UT: ['Utah', 'West'], VT: ['Vermont', 'Northeast'], VA: ['Virginia', 'South'], WA: ['Washington', 'West'],
+  WV: ['West Virginia', 'South'], WI: ['Wisconsin', 'Midwest'], WY: ['Wyoming', 'West'],
+  PR: ['Puerto Rico', 'Territories'], VI: ['U.S. Virgin Islands', 'Territories'], GU: ['Guam', 'Territories'],
+  AA: ['Armed Forces Americas', 'Military'], AE: ['Armed Forces Europe', 'Military'], AP: ['Armed Forces Pacific', 'Military']
+};
+
+// First three ZIP digits, as [first prefix, last prefix, state]. Ordered so that
+// the narrow exceptions (IRS, military and border prefixes) win over the broad ranges.
+const ZIP3_RANGES: [number, number, string][] = [
+  [5, 5, 'NY'], [55, 55, 'MA'], [340, 340, 'AA'], [569, 569, 'DC'], [733, 733, 'TX'], [885, 885, 'TX'],
+  [6, 7, 'PR'], [8, 8, 'VI'], [9, 9, 'PR'],
+  [10, 27, 'MA'], [28, 29, 'RI'], [30, 38, 'NH'], [39, 49, 'ME'], [50, 59, 'VT'], [60, 69, 'CT'],
+  [70, 89, 'NJ'], [90, 99, 'AE'], [100, 149, 'NY'], [150, 196, 'PA'], [197, 199, 'DE'], [200, 200, 'DC'],
+  [201, 201, 'VA'], [202, 205, 'DC'], [206, 219, 'MD'], [220, 246, 'VA'], [247, 268, 'WV'], [270, 289, 'NC'],
+  [290, 299, 'SC'], [300, 319, 'GA'], [320, 349, 'FL'], [350, 369, 'AL'], [370, 385, 'TN'], [386, 397, 'MS'],
+  [398, 399, 'GA'], [400, 427, 'KY'], [430, 459, 'OH'], [460, 479, 'IN'], [480, 499, 'MI'], [500, 528, 'IA'],
+  [530, 549, 'WI'], [550, 567, 'MN'], [570, 577, 'SD'], [580, 588, 'ND'], [590, 599, 'MT'], [600, 629, 'IL'],
+  [630, 658, 'MO'], [660, 679, 'KS'], [680, 693, 'NE'], [700, 714, 'LA'], [716, 729, 'AR'], [730, 749, 'OK'],
+  [750, 799, 'TX'], [800, 816, 'CO'], [820, 831, 'WY'], [832, 838, 'ID'], [840, 847, 'UT'], [850, 865, 'AZ'],
+  [870, 884, 'NM'], [889, 898, 'NV'], [900, 961, 'CA'], [962, 966, 'AP'], [967, 968, 'HI'], [969, 969, 'GU'],
+  [970, 979, 'OR'], [980, 994, 'WA'], [995, 999, 'AK']
+];
+
+// Canadian postal codes are keyed by their first letter.
+const CA_PROVINCES: Record<string, [string, string]> = {
+  A: ['NL', 'Newfoundland and Labrador'], B: ['NS', 'Nova Scotia'], C: ['PE', 'Prince Edward Island'],
+  E: ['NB', 'New Brunswick'], G: ['QC', 'Quebec'], H: ['QC', 'Quebec'], J: ['QC', 'Quebec'],
+  K: ['ON', 'Ontario'], L: ['ON', 'Ontario'], M: ['ON', 'Ontario'], N: ['ON', 'Ontario'], P: ['ON', 'Ontario'],
+  R: ['MB', 'Manitoba'], S: ['SK', 'Saskatchewan'], T: ['AB', 'Alberta'], V: ['BC', 'British Columbia'],
+  X: ['NT', 'Northwest Territories and Nunavut'], Y: ['YT', 'Yukon']
+};
+
+const CA_POSTAL = /^([ABCEGHJ-NPRSTVXY]\d[A-Z])\s*(\d[A-Z]\d)$/;
+
+/**
+ * Cleans a postal code as it comes out of a report: ZIP+4 is cut to five
+ * digits, ZIPs that lost leading zeros in a spreadsheet get them back, and
+ * Canadian codes are upper-cased as "A1A 1A1". Anything else is kept trimmed
+ * and upper-cased; blanks become undefined.
+ */
+export const normalizePostalCode = (val: any): string | undefined => {
+  if (val === null || val === undefined) return undefined;
+  const raw = String(val).trim().toUpperCase();
+  if (!raw) return undefined;
+
+  const zip = raw.match(/^(\d{3,5})(?:[-\s]?\d{4})?$/);
+  if (zip) return zip[1].padStart(5, '0');
+
+  const postal = raw.match(CA_POSTAL);
+  if (postal) return `${postal[1]} ${postal[2]}`;
+
+  return raw;
+};
+
+export const lookupRegion = (postalCode: string | undefined): RegionInfo | null => {
+  if (!postalCode) return null;
+
+  if (/^\d{5}$/.test(postalCode)) {
+    const prefix = parseInt(postalCode.slice(0, 3), 10);
+    const range = ZIP3_RANGES.find(([from, to]) => prefix >= from && prefix <= to);
+    if (!range) return null;
+    const [name, region] = US_STATES[range[2]];
+    return { code: range[2], name, country: 'US', region };
+  }
+
+  const province = CA_POSTAL.test(postalCode) ? CA_PROVINCES[postalCode[0]] : undefined;
+  return province ? { code: province[0], name: province[1], country: 'CA', region: 'Canada' } : null;
+};
+
+// The label a sale is grouped under at the given level.
+export const regionOf = (sale: SaleRecord, level: RegionLevel): string => {
+  const info = lookupRegion(sale.customerZip);
+  if (!info) return UNKNOWN_REGION;
+  return level === 'state' ? info.name : info.region;
+};
+
+export interface RegionTotal {
+  name: string;
+  revenue: number;
+  units: number;
+  orders: number;
+}
+
+// Revenue-ranked totals per state or region; sales without a usable code land in "Unknown".
+export const regionTotals = (sales: SaleRecord[], level: RegionLevel): RegionTotal[] => {
+  const totals = new Map<string, RegionTotal>();
+  sales.forEach(sale => {
+    const name = regionOf(sale, level);
+    const total = totals.get(name) || { name, revenue: 0, units: 0, orders: 0 };
+    total.revenue += netSales(sale);
+    total.units += unitsSold(sale);
+    total.orders++;
+    totals.set(name, total);
+  });
+  return [...totals.values()].sort((a, b) => b.revenue - a.revenue);
+};
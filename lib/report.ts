@@ -0,0 +1,415 @@
+import jsPDF from 'jspdf';
+import { LedgerTotals } from './ledger';
+import { ProfitSummary } from './costs';
+import { TrendChartPoint } from './trend';
+import { percentChange } from './periods';
+import { formatMoney } from './currency';
+
+export interface ReportTotals {
+  revenue: number;
+  units: number;
+  sales: number;
+}
+
+export interface ReportData {
+  title: string;                 // Master name
+  period: string;                // e.g. "2025-01-01 to 2025-03-31" or "Full history"
+  filters: string[];             // Anything else narrowing the figures, e.g. a region
+  currency: string;
+  generatedAt: Date;
+  totals: ReportTotals;
+  previous?: { label: string, totals: ReportTotals } | null;
+  ledger: LedgerTotals;
+  profit: ProfitSummary;
+  trend: TrendChartPoint[];
+  categories: { name: string, value: number }[];
+  weekdays: { name: string, revenue: number, quantity: number }[];
+  products: { name: string, count: number, revenue: number }[];   // Best sellers first
+  insights: { drive: string, cards: { title: string, text: string }[] } | null;
+}
+
+type Rgb = [number, number, number];
+
+const PAGE = { width: 210, height: 297, margin: 16 };
+const CONTENT_WIDTH = PAGE.width - PAGE.margin * 2;
+const FOOTER_SPACE = 14;
+
+const INK: Rgb = [15, 23, 42];
+const MUTED: Rgb = [100, 116, 139];
+const FAINT: Rgb = [148, 163, 184];
+const RULE: Rgb = [226, 232, 240];
+const PANEL: Rgb = [248, 250, 252];
+const ORANGE: Rgb = [249, 115, 22];
+const INDIGO: Rgb = [99, 102, 241];
+const EMERALD: Rgb = [5, 150, 105];
+const RED: Rgb = [239, 68, 68];
+// Same palette as the dashboard's category chart
+const SERIES: Rgb[] = [[99, 102, 241], [249, 115, 22], [5, 150, 105], [139, 92, 246], [236, 72, 153], [245, 158, 11]];
+
+// The standard PDF fonts only know Windows-1252; these are its characters outside Latin-1.
+const CP1252: Record<string, number> = {
+  '€': 0x80, '‚': 0x82, 'ƒ': 0x83, '„': 0x84, '…': 0x85, '†': 0x86, '‡': 0x87, 'ˆ': 0x88, '‰': 0x89, 'Š': 0x8a,
+  '‹': 0x8b, 'Œ': 0x8c, 'Ž': 0x8e, '‘': 0x91, '’': 0x92, '“': 0x93, '”': 0x94, '•': 0x95, '–': 0x96, '—': 0x97,
+  '˜': 0x98, '™': 0x99, 'š': 0x9a, '›': 0x9b, 'œ': 0x9c, 'ž': 0x9e, 'Ÿ': 0x9f
+};
+
+const encodable = (ch: string) => ch.charCodeAt(0) <= 0xff || ch in CP1252;
+
+/**
+ * Rewrites text into what the built-in Helvetica can draw. Locale spaces
+ * become plain spaces and anything else it lacks becomes "?"; without this
+ * jsPDF switches the whole string to an encoding the font can't show.
+ */
+export const pdfText = (text: string): string =>
+  [...String(text)]
+    .map(ch => (/\s/.test(ch) ? ' ' : ch in CP1252 ? String.fromCharCode(CP1252[ch]) : encodable(ch) ? ch : '?'))
+    .join('');
+
+// Symbols the font lacks (₹, ₩...) fall back to the ISO code.
+const moneyText = (value: number, currency: string, cents = false) => {
+  const formatted = formatMoney(value, currency, cents);
+  return [...formatted].every(ch => /\s/.test(ch) || encodable(ch))
+    ? formatted
+    : `${currency} ${value.toLocaleString(undefined, { maximumFractionDigits: cents ? 2 : 0 })}`;
+};
+
+const percent = (value: number | null) => (value === null ? '-' : `${(value * 100).toFixed(1)}%`);
+
+// Round axis steps: 1, 2 or 5 times a power of ten.
+const niceStep = (max: number, ticks: number) => {
+  const raw = max / ticks;
+  const power = Math.pow(10, Math.floor(Math.log10(raw)));
+  return [1, 2, 5, 10].map(m => m * power).find(s => s >= raw) || raw;
+};
+
+interface Column {
+  header: string;
+  width: number;                 // Share of the content width
+  align?: 'left' | 'right';
+}
+
+/**
+ * Draws a sales report with jsPDF's own text and vector primitives, so the
+ * text stays selectable and long tables flow onto as many pages as needed.
+ */
+export const buildPdfReport = (data: ReportData): jsPDF => {
+  const doc = new jsPDF('p', 'mm', 'a4');
+  const money = (value: number, cents = false) => moneyText(value, data.currency, cents);
+  let y = PAGE.margin;
+
+  const setColor = (rgb: Rgb) => doc.setTextColor(rgb[0], rgb[1], rgb[2]);
+  const setDraw = (rgb: Rgb) => doc.setDrawColor(rgb[0], rgb[1], rgb[2]);
+  const setFill = (rgb: Rgb) => doc.setFillColor(rgb[0], rgb[1], rgb[2]);
+
+  // Cuts text to a width in the current font, marking the cut with an ellipsis.
+  const fit = (value: string, width: number) => {
+    let out = pdfText(value);
+    if (doc.getTextWidth(out) <= width) return out;
+    while (out.length > 1 && doc.getTextWidth(`${out}...`) > width) out = out.slice(0, -1);
+    return `${out}...`;
+  };
+
+  const text = (
+    value: string, x: number, atY: number,
+    options: { size?: number, bold?: boolean, color?: Rgb, align?: 'left' | 'right' | 'center', maxWidth?: number } = {}
+  ) => {
+    doc.setFont('helvetica', options.bold ? 'bold' : 'normal');
+    doc.setFontSize(options.size || 10);
+    setColor(options.color || INK);
+    doc.text(options.maxWidth ? fit(value, options.maxWidth) : pdfText(value), x, atY, { align: options.align || 'left' });
+  };
+
+  const newPage = () => {
+    doc.addPage();
+    y = PAGE.margin;
+  };
+
+  const ensureSpace = (height: number) => {
+    if (y + height > PAGE.height - PAGE.margin - FOOTER_SPACE) newPage();
+  };
+
+  const sectionTitle = (title: string, subtitle?: string) => {
+    ensureSpace(subtitle ? 22 : 16);
+    text(title, PAGE.margin, y + 6, { size: 14, bold: true });
+    y += 9;
+    if (subtitle) {
+      text(subtitle, PAGE.margin, y + 3, { size: 8, color: MUTED });
+      y += 6;
+    }
+    y += 3;
+  };
+
+  const table = (columns: Column[], rows: string[][], options: { rowColors?: (Rgb | undefined)[] } = {}) => {
+    const rowHeight = 7;
+    const widths = columns.map(c => c.width * CONTENT_WIDTH);
+    const drawRow = (cells: string[], header: boolean, color?: Rgb) => {
+      let x = PAGE.margin;
+      doc.setFont('helvetica', header ? 'bold' : 'normal');
+      doc.setFontSize(header ? 7 : 9);
+      cells.forEach((cell, i) => {
+        const width = widths[i];
+        const right = columns[i].align === 'right';
+        setColor(header ? FAINT : i === 0 ? INK : color || MUTED);
+        const value = fit(header ? cell.toUpperCase() : cell, width - 4);
+        doc.text(value, right ? x + width - 2 : x + 2, y + 4.8, { align: right ? 'right' : 'left' });
+        x += width;
+      });
+      setDraw(RULE);
+      doc.setLineWidth(0.2);
+      doc.line(PAGE.margin, y + rowHeight, PAGE.margin + CONTENT_WIDTH, y + rowHeight);
+      y += rowHeight;
+    };
+
+    const header = () => {
+      setFill(PANEL);
+      doc.rect(PAGE.margin, y, CONTENT_WIDTH, rowHeight, 'F');
+      drawRow(columns.map(c => c.header), true);
+    };
+
+    ensureSpace(rowHeight * 2);
+    header();
+    rows.forEach((row, i) => {
+      if (y + rowHeight > PAGE.height - PAGE.margin - FOOTER_SPACE) {
+        newPage();
+        header();
+      }
+      drawRow(row, false, options.rowColors?.[i]);
+    });
+    y += 6;
+  };
+
+  // --- Cover ---
+  setFill(INK);
+  doc.rect(0, 0, PAGE.width, 120, 'F');
+  text('SALES REPORT', PAGE.margin, 40, { size: 10, bold: true, color: ORANGE });
+  doc.setFont('helvetica', 'bold');
+  doc.setFontSize(28);
+  setColor([255, 255, 255]);
+  doc.text(doc.splitTextToSize(pdfText(data.title), CONTENT_WIDTH).slice(0, 2), PAGE.margin, 55);
+  text(data.period, PAGE.margin, 80, { size: 13, color: [203, 213, 225] });
+  data.filters.forEach((filter, i) => text(filter, PAGE.margin, 88 + i * 6, { size: 10, color: FAINT }));
+
+  const coverFacts: [string, string][] = [
+    ['Revenue', money(data.totals.revenue)],
+    ['Units sold', data.totals.units.toLocaleString()],
+    ['Sales', data.totals.sales.toLocaleString()],
+    ['Best seller', data.products[0]?.name || 'None']
+  ];
+  coverFacts.forEach(([label, value], i) => {
+    const x = PAGE.margin + (i % 2) * (CONTENT_WIDTH / 2);
+    const top = 145 + Math.floor(i / 2) * 28;
+    text(label.toUpperCase(), x, top, { size: 8, bold: true, color: FAINT });
+    text(value, x, top + 10, { size: 18, bold: true, maxWidth: CONTENT_WIDTH / 2 - 6 });
+  });
+  text(`Figures in ${data.currency}. Generated ${data.generatedAt.toLocaleString()}.`, PAGE.margin, 215, { size: 9, color: MUTED });
+
+  // --- Key figures ---
+  newPage();
+  sectionTitle('Key Figures', data.previous ? `Compared with ${data.previous.label}` : undefined);
+  const kpiRows: { label: string, current: number, previous?: number, format: (n: number) => string }[] = [
+    { label: 'Revenue', current: data.totals.revenue, previous: data.previous?.totals.revenue, format: n => money(n, true) },
+    { label: 'Units sold', current: data.totals.units, previous: data.previous?.totals.units, format: n => n.toLocaleString() },
+    { label: 'Sales', current: data.totals.sales, previous: data.previous?.totals.sales, format: n => n.toLocaleString() },
+    {
+      label: 'Average sale',
+      current: data.totals.sales ? data.totals.revenue / data.totals.sales : 0,
+      previous: data.previous ? (data.previous.totals.sales ? data.previous.totals.revenue / data.previous.totals.sales : 0) : undefined,
+      format: n => money(n, true)
+    }
+  ];
+  if (data.previous) {
+    const changes = kpiRows.map(r => percentChange(r.current, r.previous!));
+    table(
+      [{ header: 'Measure', width: 0.34 }, { header: 'This period', width: 0.22, align: 'right' }, { header: 'Before', width: 0.22, align: 'right' }, { header: 'Change', width: 0.22, align: 'right' }],
+      kpiRows.map((r, i) => [r.label, r.format(r.current), r.format(r.previous!), changes[i] === null ? 'new' : `${changes[i]! > 0 ? '+' : ''}${changes[i]!.toFixed(1)}%`]),
+      { rowColors: changes.map(c => (c === null || c === 0 ? undefined : c > 0 ? EMERALD : RED)) }
+    );
+  } else {
+    table([{ header: 'Measure', width: 0.6 }, { header: 'Value', width: 0.4, align: 'right' }], kpiRows.map(r => [r.label, r.format(r.current)]));
+  }
+
+  sectionTitle('Gross to Payout');
+  const { ledger } = data;
+  table([{ header: 'Line', width: 0.6 }, { header: 'Amount', width: 0.4, align: 'right' }], [
+    ['Gross sales', money(ledger.gross, true)],
+    ['- Discounts', money(ledger.discounts, true)],
+    ['- Refunds', money(ledger.refunds, true)],
+    ['Net sales', money(ledger.net, true)],
+    ['+ Tax collected', money(ledger.tax, true)],
+    ['+ Shipping charged', money(ledger.shipping, true)],
+    ['- Platform fees', money(ledger.fees, true)],
+    ['Payouts', money(ledger.payouts, true)]
+  ]);
+
+  if (data.profit.costedSales > 0) {
+    const { profit } = data;
+    sectionTitle('Profitability', profit.costedSales < profit.totalSales
+      ? `Based on the ${profit.costedSales} of ${profit.totalSales} sales with a known cost`
+      : undefined);
+    table([{ header: 'Measure', width: 0.6 }, { header: 'Value', width: 0.4, align: 'right' }], [
+      ['Revenue', money(profit.revenue, true)],
+      ['Cost of goods', money(profit.cost, true)],
+      ['Gross profit', money(profit.profit, true)],
+      ['Margin', percent(profit.margin)]
+    ]);
+  }
+
+  // --- Charts ---
+  const chartFrame = (height: number) => {
+    ensureSpace(height + 4);
+    const top = y;
+    y += height + 8;
+    return top;
+  };
+
+  const valueAxis = (top: number, left: number, width: number, height: number, max: number, format: (n: number) => string) => {
+    const step = niceStep(max || 1, 4);
+    const scaleMax = Math.ceil((max || 1) / step) * step;
+    doc.setLineWidth(0.1);
+    for (let v = 0; v <= scaleMax + step / 2; v += step) {
+      const lineY = top + height - (v / scaleMax) * height;
+      setDraw(RULE);
+      doc.line(left, lineY, left + width, lineY);
+      text(format(v), left - 2, lineY + 1, { size: 6, color: FAINT, align: 'right' });
+    }
+    return scaleMax;
+  };
+
+  const trendChart = () => {
+    const points = data.trend;
+    if (!points.length) return;
+    sectionTitle('Revenue Trend', points.some(p => p.forecast !== undefined) ? 'Dashed orange: forecast. Grey: comparison period.' : data.previous ? 'Grey: comparison period.' : undefined);
+    const height = 70;
+    const top = chartFrame(height);
+    const left = PAGE.margin + 18;
+    const width = CONTENT_WIDTH - 18;
+    const max = Math.max(0, ...points.flatMap(p => [p.revenue || 0, p.previousRevenue || 0, p.forecastBand?.[1] || 0, p.forecast || 0]));
+    const scaleMax = valueAxis(top, left, width, height, max, n => money(n));
+    const xAt = (i: number) => left + (points.length === 1 ? width / 2 : (i / (points.length - 1)) * width);
+    const yAt = (v: number) => top + height - (Math.max(0, v) / scaleMax) * height;
+
+    const series = (value: (p: TrendChartPoint) => number | undefined, color: Rgb, lineWidth: number, dash?: number[]) => {
+      setDraw(color);
+      doc.setLineWidth(lineWidth);
+      doc.setLineDashPattern(dash || [], 0);
+      let last: [number, number] | null = null;
+      points.forEach((p, i) => {
+        const v = value(p);
+        if (v === undefined) {
+          last = null;
+          return;
+        }
+        const point: [number, number] = [xAt(i), yAt(v)];
+        if (last) doc.line(last[0], last[1], point[0], point[1]);
+        last = point;
+      });
+      doc.setLineDashPattern([], 0);
+    };
+
+    if (points.some(p => p.previousRevenue !== undefined)) series(p => p.previousRevenue, FAINT, 0.4, [1, 1]);
+    series(p => p.revenue, ORANGE, 0.7);
+    if (points.some(p => p.forecast !== undefined)) series(p => p.forecast, ORANGE, 0.7, [2, 1.5]);
+
+    // Roughly six evenly spaced labels, always including the last
+    const every = Math.max(1, Math.ceil(points.length / 6));
+    points.forEach((p, i) => {
+      if (i % every === 0 || i === points.length - 1) text(p.label, xAt(i), top + height + 5, { size: 6, color: MUTED, align: 'center' });
+    });
+  };
+
+  const categoryChart = () => {
+    const rows = data.categories.filter(c => c.value > 0).slice(0, 8);
+    if (!rows.length) return;
+    sectionTitle('Revenue by Category');
+    const barHeight = 6;
+    const top = chartFrame(rows.length * (barHeight + 3));
+    const labelWidth = 45;
+    const valueWidth = 28;
+    const max = rows[0].value;
+    rows.forEach((row, i) => {
+      const rowY = top + i * (barHeight + 3);
+      text(row.name, PAGE.margin, rowY + 4.3, { size: 8, maxWidth: labelWidth - 2 });
+      setFill(SERIES[i % SERIES.length]);
+      doc.rect(PAGE.margin + labelWidth, rowY, Math.max(0.5, (row.value / max) * (CONTENT_WIDTH - labelWidth - valueWidth)), barHeight, 'F');
+      text(money(row.value), PAGE.margin + CONTENT_WIDTH, rowY + 4.3, { size: 8, bold: true, align: 'right' });
+    });
+  };
+
+  const weekdayChart = () => {
+    if (!data.weekdays.some(d => d.quantity > 0)) return;
+    sectionTitle('Best Days of the Week', 'Units sold per weekday');
+    const height = 45;
+    const top = chartFrame(height);
+    const left = PAGE.margin + 12;
+    const width = CONTENT_WIDTH - 12;
+    const scaleMax = valueAxis(top, left, width, height, Math.max(...data.weekdays.map(d => d.quantity)), n => n.toLocaleString());
+    const slot = width / data.weekdays.length;
+    data.weekdays.forEach((day, i) => {
+      const barHeight = (day.quantity / scaleMax) * height;
+      setFill(EMERALD);
+      doc.rect(left + i * slot + slot * 0.2, top + height - barHeight, slot * 0.6, barHeight, 'F');
+      text(day.name, left + i * slot + slot / 2, top + height + 5, { size: 7, color: MUTED, align: 'center' });
+    });
+  };
+
+  newPage();
+  trendChart();
+  categoryChart();
+  weekdayChart();
+
+  // --- Best sellers ---
+  if (data.products.length) {
+    newPage();
+    sectionTitle('Best Sellers', `All ${data.products.length} products, by units sold`);
+    table(
+      [{ header: '#', width: 0.07 }, { header: 'Product', width: 0.5 }, { header: 'Units', width: 0.13, align: 'right' }, { header: 'Revenue', width: 0.18, align: 'right' }, { header: 'Share', width: 0.12, align: 'right' }],
+      data.products.map((p, i) => [
+        String(i + 1),
+        p.name,
+        p.count.toLocaleString(),
+        money(p.revenue, true),
+        data.totals.revenue ? percent(p.revenue / data.totals.revenue) : '-'
+      ])
+    );
+  }
+
+  // --- AI insights ---
+  if (data.insights) {
+    sectionTitle('Insights');
+    const paragraph = (title: string, body: string, color: Rgb) => {
+      doc.setFont('helvetica', 'normal');
+      doc.setFontSize(10);
+      const lines: string[] = doc.splitTextToSize(pdfText(body), CONTENT_WIDTH - 8);
+      const height = 10 + lines.length * 5;
+      ensureSpace(height + 4);
+      setFill(PANEL);
+      doc.rect(PAGE.margin, y, CONTENT_WIDTH, height, 'F');
+      setFill(color);
+      doc.rect(PAGE.margin, y, 1.2, height, 'F');
+      text(title, PAGE.margin + 4, y + 6, { size: 7, bold: true, color });
+      doc.setFont('helvetica', 'normal');
+      doc.setFontSize(10);
+      setColor(INK);
+      doc.text(lines, PAGE.margin + 4, y + 12);
+      y += height + 4;
+    };
+    paragraph('DRIVE', data.insights.drive, ORANGE);
+    data.insights.cards.forEach((card, i) => paragraph(card.title, card.text, [EMERALD, RED, INDIGO][i % 3] as Rgb));
+  }
+
+  // --- Page numbers, added last so the total is known ---
+  const pages = doc.getNumberOfPages();
+  for (let page = 1; page <= pages; page++) {
+    doc.setPage(page);
+    const footerY = PAGE.height - PAGE.margin + 4;
+    if (page > 1) {
+      setDraw(RULE);
+      doc.setLineWidth(0.2);
+      doc.line(PAGE.margin, footerY - 5, PAGE.margin + CONTENT_WIDTH, footerY - 5);
+      text(`${data.title} · ${data.period}`, PAGE.margin, footerY, { size: 7, color: FAINT, maxWidth: CONTENT_WIDTH - 30 });
+    }
+    text(`Page ${page} of ${pages}`, PAGE.margin + CONTENT_WIDTH, footerY, { size: 7, color: FAINT, align: 'right' });
+  }
+
+  return doc;
+};
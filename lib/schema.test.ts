@@ -0,0 +1,65 @@
+import { describe, expect, it } from 'vitest';
+import { LEGACY_CATEGORIES } from './categories';
+import { CURRENT_SCHEMA_VERSION, MasterRecordError, migrateMasterRecord } from './schema';
+
+const sale = { id: 's1', date: '2025-03-01', product: 'Ring', category: 'Rings', amount: 40, quantity: 1 };
+
+// A record as each schema version saved it, before the step up from that version.
+const v1 = { id: 'm1', name: 'Shop', lastUpdated: '2024-01-01T00:00:00.000Z', totalSales: 1, totalRevenue: 40, data: [sale] };
+const v2 = { ...v1, schemaVersion: 2, syncedFiles: ['orders.csv'], imports: [] };
+const v3 = { ...v2, schemaVersion: 3, mappingProfiles: [] };
+const v4 = { ...v3, schemaVersion: 4, products: [] };
+const v5 = { ...v4, schemaVersion: 5, categories: [{ id: 'cat-rings', name: 'Rings' }] };
+const v6 = { ...v5, schemaVersion: 6, costs: [] };
+
+describe('migrateMasterRecord', () => {
+  it('v1 -> v2: adds empty synced-file and import lists', () => {
+    const record = migrateMasterRecord(v1);
+    expect(record.schemaVersion).toBe(CURRENT_SCHEMA_VERSION);
+    expect(record.syncedFiles).toEqual([]);
+    expect(record.imports).toEqual([]);
+    expect(record.data).toEqual([sale]);
+  });
+
+  it('v2 -> v3: turns the old mapping schema into a default profile', () => {
+    const mappingSchema = { date: 'Date', product: 'Item', category: '', amount: 'Total', quantity: 'Qty' };
+    const record = migrateMasterRecord({ ...v2, mappingSchema });
+    expect(record).not.toHaveProperty('mappingSchema');
+    expect(record.mappingProfiles).toEqual([{
+      id: 'default', name: 'Default', headerFingerprint: '', headers: [], mapping: mappingSchema, updatedAt: v1.lastUpdated
+    }]);
+    expect(migrateMasterRecord(v2).mappingProfiles).toEqual([]);
+  });
+
+  it('v3 -> v4: starts an empty product catalog', () => {
+    expect(migrateMasterRecord(v3).products).toEqual([]);
+  });
+
+  it('v4 -> v5: seeds categories from the old list plus any in use, with name-based ids', () => {
+    const record = migrateMasterRecord({ ...v4, data: [sale, { ...sale, id: 's2', category: 'Brooches' }, { ...sale, id: 's3', category: 'rings' }] });
+    expect(record.categories.map(c => c.name)).toEqual([...LEGACY_CATEGORIES, 'Brooches']);
+    expect(record.categories.find(c => c.name === 'Brooches')?.id).toBe('cat-brooches');
+  });
+
+  it('v5 -> v6: starts an empty cost table', () => {
+    expect(migrateMasterRecord(v5).costs).toEqual([]);
+  });
+
+  it('v6 -> v7: reports in dollars with no exchange rates', () => {
+    const record = migrateMasterRecord(v6);
+    expect(record.reportingCurrency).toBe('USD');
+    expect(record.exchangeRates).toEqual([]);
+  });
+
+  it('leaves a current record unchanged', () => {
+    const current = migrateMasterRecord(v6);
+    expect(migrateMasterRecord(JSON.stringify(current))).toEqual(current);
+    expect(migrateMasterRecord(current)).toBe(current);
+  });
+
+  it('refuses records from a newer app, malformed JSON and damaged records', () => {
+    expect(() => migrateMasterRecord({ ...v1, schemaVersion: CURRENT_SCHEMA_VERSION + 1 })).toThrow(/newer version/);
+    expect(() => migrateMasterRecord('{')).toThrow(MasterRecordError);
+    expect(() => migrateMasterRecord({ ...v1, data: [{ ...sale, date: 'soon' }] })).toThrow(/invalid date/);
+  });
+});
@@ -0,0 +1,192 @@
+import { MasterRecord } from '../types';
+import { LEGACY_CATEGORIES } from './categories';
+
+/**
+ * Version written into every MasterRecord. Bump it together with a new entry
+ * in MIGRATIONS whenever the stored shape changes.
+ */
+export const CURRENT_SCHEMA_VERSION = 7;
+
+export class MasterRecordError extends Error {
+  issues: string[];
+
+  constructor(message: string, issues: string[] = []) {
+    super(issues.length ? `${message} ${issues.slice(0, 3).join('; ')}${issues.length > 3 ? ` (+${issues.length - 3} more)` : ''}` : message);
+    this.name = 'MasterRecordError';
+    this.issues = issues;
+  }
+}
+
+type Migration = (record: any) => any;
+
+// Keyed by the version a migration upgrades FROM. Records saved before
+// versioning existed have no schemaVersion and are treated as version 1.
+const MIGRATIONS: Record<number, Migration> = {
+  // v1 -> v2: import batches and an always-present syncedFiles list
+  1: record => ({
+    ...record,
+    syncedFiles: Array.isArray(record.syncedFiles) ? record.syncedFiles : [],
+    imports: Array.isArray(record.imports) ? record.imports : []
+  }),
+  // v2 -> v3: the single mappingSchema becomes a column-only mapping profile
+  2: ({ mappingSchema, ...record }) => ({
+    ...record,
+    mappingProfiles: mappingSchema ? [{
+      id: 'default',
+      name: 'Default',
+      headerFingerprint: '',
+      headers: [],
+      mapping: mappingSchema,
+      updatedAt: record.lastUpdated || new Date().toISOString()
+    }] : []
+  }),
+  // v3 -> v4: product catalog; every existing name starts as its own product
+  3: record => ({ ...record, products: [] }),
+  // v4 -> v5: editable categories, seeded with the old fixed list plus any in use.
+  // Ids derive from the name so devices migrating separately still agree.
+  4: record => {
+    const names: string[] = [...LEGACY_CATEGORIES];
+    (record.data || []).forEach((s: any) => {
+      const name = typeof s?.category === 'string' ? s.category.trim() : '';
+      if (name && name !== 'General' && !names.some(n => n.toLowerCase() === name.toLowerCase())) names.push(name);
+    });
+    return { ...record, categories: names.map(name => ({ id: `cat-${name.toLowerCase().replace(/\s+/g, '-')}`, name })) };
+  },
+  // v5 -> v6: product cost table
+  5: record => ({ ...record, costs: [] }),
+  // v6 -> v7: reporting currency; everything so far was shown in dollars
+  6: record => ({ ...record, reportingCurrency: 'USD', exchangeRates: [] })
+};
+
+const isString = (val: any) => typeof val === 'string';
+const isNumber = (val: any) => typeof val === 'number' && isFinite(val);
+
+export const validateMasterRecord = (record: any): string[] => {
+  const issues: string[] = [];
+  if (!record || typeof record !== 'object' || Array.isArray(record)) return ['Record is not an object.'];
+
+  if (!isString(record.id) || !record.id) issues.push('Missing "id".');
+  if (!isString(record.name)) issues.push('Missing "name".');
+  if (!isString(record.lastUpdated)) issues.push('Missing "lastUpdated".');
+  if (!isNumber(record.totalSales)) issues.push('"totalSales" must be a number.');
+  if (!isNumber(record.totalRevenue)) issues.push('"totalRevenue" must be a number.');
+  if (record.schemaVersion !== CURRENT_SCHEMA_VERSION) issues.push(`Unexpected schema version ${record.schemaVersion}.`);
+  if (!Array.isArray(record.syncedFiles) || !record.syncedFiles.every(isString)) issues.push('"syncedFiles" must be a list of names.');
+  if (!Array.isArray(record.imports)) issues.push('"imports" must be a list.');
+  if (record.inboxFolder !== undefined && (!isString(record.inboxFolder?.id) || !isString(record.inboxFolder?.name))) {
+    issues.push('"inboxFolder" is malformed.');
+  }
+  if (record.sheetCopy !== undefined && (!isString(record.sheetCopy?.spreadsheetId) || !isString(record.sheetCopy?.url))) {
+    issues.push('"sheetCopy" is malformed.');
+  }
+  if (!Array.isArray(record.mappingProfiles)) {
+    issues.push('"mappingProfiles" must be a list.');
+  } else {
+    record.mappingProfiles.forEach((profile: any, i: number) => {
+      if (!profile || !isString(profile.id) || !isString(profile.name) || !isString(profile.headerFingerprint) || !profile.mapping) {
+        issues.push(`Mapping profile #${i + 1} is malformed.`);
+      }
+    });
+  }
+
+  if (!Array.isArray(record.products)) {
+    issues.push('"products" must be a list.');
+  } else {
+    record.products.forEach((product: any, i: number) => {
+      if (!product || !isString(product.id) || !isString(product.name) || !Array.isArray(product.aliases)) {
+        issues.push(`Catalog product #${i + 1} is malformed.`);
+      }
+    });
+  }
+
+  if (!Array.isArray(record.categories)) {
+    issues.push('"categories" must be a list.');
+  } else {
+    record.categories.forEach((category: any, i: number) => {
+      if (!category || !isString(category.id) || !isString(category.name)) issues.push(`Category #${i + 1} is malformed.`);
+    });
+  }
+
+  if (!Array.isArray(record.costs)) {
+    issues.push('"costs" must be a list.');
+  } else {
+    record.costs.forEach((cost: any, i: number) => {
+      if (!cost || !isString(cost.id) || !isString(cost.productId) || !isNumber(cost.materialCost) || !isNumber(cost.laborCost)) {
+        issues.push(`Product cost #${i + 1} is malformed.`);
+      }
+    });
+  }
+
+  if (!isString(record.reportingCurrency) || !/^[A-Z]{3}$/.test(record.reportingCurrency)) issues.push('"reportingCurrency" must be a currency code.');
+  if (!Array.isArray(record.exchangeRates)) {
+    issues.push('"exchangeRates" must be a list.');
+  } else {
+    record.exchangeRates.forEach((rate: any, i: number) => {
+      if (!rate || !isString(rate.id) || !isString(rate.currency) || !isNumber(rate.rate) || !isString(rate.effectiveFrom)) {
+        issues.push(`Exchange rate #${i + 1} is malformed.`);
+      }
+    });
+  }
+
+  if (!Array.isArray(record.data)) {
+    issues.push('"data" must be a list of sales.');
+  } else {
+    record.data.forEach((sale: any, i: number) => {
+      if (!sale || typeof sale !== 'object') return issues.push(`Sale #${i + 1} is not an object.`);
+      if (!isString(sale.id)) issues.push(`Sale #${i + 1} is missing an id.`);
+      if (!isString(sale.date) || !/^\d{4}-\d{2}-\d{2}$/.test(sale.date)) issues.push(`Sale #${i + 1} has an invalid date.`);
+      if (!isString(sale.product)) issues.push(`Sale #${i + 1} is missing a product.`);
+      if (!isString(sale.category)) issues.push(`Sale #${i + 1} is missing a category.`);
+      if (!isNumber(sale.amount)) issues.push(`Sale #${i + 1} has an invalid amount.`);
+      if (!isNumber(sale.quantity)) issues.push(`Sale #${i + 1} has an invalid quantity.`);
+    });
+  }
+
+  if (Array.isArray(record.imports)) {
+    record.imports.forEach((batch: any, i: number) => {
+      if (!batch || !isString(batch.id) || !isString(batch.fileName) || !Array.isArray(batch.recordIds)) {
+        issues.push(`Import #${i + 1} is malformed.`);
+      }
+    });
+  }
+
+  return issues;
+};
+
+/**
+ * Upgrades a stored master (raw JSON text or parsed object) to the current
+ * schema and validates it. Throws MasterRecordError with a readable reason
+ * instead of letting a malformed file reach the dashboard.
+ */
+export const migrateMasterRecord = (raw: unknown): MasterRecord => {
+  let record: any = raw;
+  if (typeof raw === 'string') {
+    try {
+      record = JSON.parse(raw);
+    } catch (e) {
+      throw new MasterRecordError('This file is not valid JSON.');
+    }
+  }
+  if (!record || typeof record !== 'object' || !('data' in record) || !('id' in record)) {
+    throw new MasterRecordError('This is not an Esthetic master record.');
+  }
+
+  let version = record.schemaVersion ?? 1;
+  if (!Number.isInteger(version) || version < 1) {
+    throw new MasterRecordError(`Unknown schema version "${record.schemaVersion}".`);
+  }
+  if (version > CURRENT_SCHEMA_VERSION) {
+    throw new MasterRecordError(`This master record was saved by a newer version of the app (schema v${version}). Please update and try again.`);
+  }
+
+  while (version < CURRENT_SCHEMA_VERSION) {
+    const migrate = MIGRATIONS[version];
+    if (!migrate) throw new MasterRecordError(`No migration available from schema v${version}.`);
+    record = { ...migrate(record), schemaVersion: version + 1 };
+    version++;
+  }
+
+  const issues = validateMasterRecord(record);
+  if (issues.length) throw new MasterRecordError('This master record is damaged.', issues);
+  return record as MasterRecord;
+};
@@ -0,0 +1,111 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { MasterRecord, SaleRecord } from '../types';
+import { SheetPublishState } from './localStore';
+import { MemorySheets } from './memorySheets';
+import { migrateMasterRecord } from './schema';
+import { SHEET_TABS, isSheetCopyStale, publishSheetCopy } from './sheetCopy';
+
+const sale = (n: number, overrides: Partial<SaleRecord> = {}): SaleRecord => ({
+  id: `s${n}`,
+  date: `2025-0${(n % 3) + 1}-1${n}`,
+  product: n % 2 ? 'Serum' : 'Cream',
+  category: 'General',
+  quantity: 1,
+  amount: 10 * n,
+  ...overrides
+});
+
+const workspace = (data: SaleRecord[]): MasterRecord => migrateMasterRecord({
+  schemaVersion: 1, id: 'm1', name: 'Shop', lastUpdated: '', totalSales: 0, totalRevenue: 0, data
+});
+
+describe('publishSheetCopy', () => {
+  let sheets: MemorySheets;
+  let master: MasterRecord;
+  let state: SheetPublishState | undefined;
+
+  const publish = async () => {
+    const result = await publishSheetCopy(sheets, master, state);
+    master = { ...master, sheetCopy: result.copy };
+    state = result.state;
+  };
+  const tab = (name: string) => sheets.spreadsheets.get(master.sheetCopy!.spreadsheetId)!.tabs.get(name)!;
+  const ids = () => tab(SHEET_TABS.sales).slice(1).map(row => row[row.length - 1]);
+
+  beforeEach(() => {
+    sheets = new MemorySheets();
+    master = workspace([sale(1), sale(2)]);
+    state = undefined;
+  });
+
+  it('creates the spreadsheet with sales, products and monthly tabs', async () => {
+    await publish();
+    expect(sheets.spreadsheets.get(master.sheetCopy!.spreadsheetId)?.title).toBe('Shop - Sales');
+    expect(tab(SHEET_TABS.sales)[0]).toContain('Net Sales (USD)');
+    expect(ids()).toEqual(['s1', 's2']);
+    expect(tab(SHEET_TABS.products).slice(1)).toEqual([['Cream', 1, 1, 20], ['Serum', 1, 1, 10]]);
+    expect(tab(SHEET_TABS.monthly).map(row => row[0])).toEqual(['Month', '2025-02', '2025-03']);
+    expect(isSheetCopyStale(master, state)).toBe(false);
+  });
+
+  it('appends sales added at the end', async () => {
+    await publish();
+    master = { ...master, data: [...master.data, sale(3)] };
+    expect(isSheetCopyStale(master, state)).toBe(true);
+
+    const append = vi.spyOn(sheets, 'appendValues');
+    const replace = vi.spyOn(sheets, 'replaceValues');
+    await publish();
+
+    expect(append).toHaveBeenCalledOnce();
+    expect(replace.mock.calls.map(call => call[1])).not.toContain(SHEET_TABS.sales);
+    expect(ids()).toEqual(['s1', 's2', 's3']);
+  });
+
+  it('rewrites the sales tab when an earlier sale changed', async () => {
+    await publish();
+    master = { ...master, data: [sale(1, { amount: 99 }), sale(2), sale(3)] };
+
+    const append = vi.spyOn(sheets, 'appendValues');
+    await publish();
+
+    expect(append).not.toHaveBeenCalled();
+    expect(ids()).toEqual(['s1', 's2', 's3']);
+    expect(tab(SHEET_TABS.sales)[1]).toContain(99);
+  });
+
+  it('rewrites instead of appending when another device changed the tab', async () => {
+    await publish();
+    await sheets.appendValues(master.sheetCopy!.spreadsheetId, SHEET_TABS.sales, [['from another device']]);
+    master = { ...master, data: [...master.data, sale(3)] };
+    await publish();
+    expect(ids()).toEqual(['s1', 's2', 's3']);
+  });
+
+  it('ignores bookkeeping written for a different spreadsheet', async () => {
+    await publish();
+    master = { ...master, sheetCopy: { spreadsheetId: 'sheet-elsewhere', url: '' } };
+    expect(isSheetCopyStale(master, state)).toBe(true);
+  });
+
+  it('recreates a deleted spreadsheet', async () => {
+    await publish();
+    const first = master.sheetCopy!.spreadsheetId;
+    sheets.spreadsheets.delete(first);
+    master = { ...master, data: [...master.data, sale(3)] };
+    await publish();
+
+    expect(master.sheetCopy!.spreadsheetId).not.toBe(first);
+    expect(ids()).toEqual(['s1', 's2', 's3']);
+    expect(state?.spreadsheetId).toBe(master.sheetCopy!.spreadsheetId);
+  });
+
+  it('leaves an up-to-date sheet alone', async () => {
+    await publish();
+    const append = vi.spyOn(sheets, 'appendValues');
+    const replace = vi.spyOn(sheets, 'replaceValues');
+    await publish();
+    expect(append).not.toHaveBeenCalled();
+    expect(replace).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,86 @@
+import { MasterRecord, SheetCopy } from '../types';
+import { SheetPublishState } from './localStore';
+import { hashString } from './dedup';
+import { Row, saleRows, summaryRows } from './exporter';
+import { SheetValues, SheetsApi } from './googleDrive';
+
+export const SHEET_TABS = { sales: 'Sales', products: 'Products', monthly: 'Monthly' };
+
+// Header row from the first row's keys; an empty table stays empty.
+const toValues = (rows: Row[]): SheetValues => {
+  if (rows.length === 0) return [];
+  const header = Object.keys(rows[0]);
+  return [header, ...rows.map(row => header.map(key => row[key]))];
+};
+
+const hashValues = (values: SheetValues) => hashString(JSON.stringify(values));
+
+const buildTabs = (master: MasterRecord) => {
+  const summaries: Record<string, SheetValues> = {
+    [SHEET_TABS.products]: toValues(summaryRows('products', master.data, master)),
+    [SHEET_TABS.monthly]: toValues(summaryRows('monthly', master.data, master))
+  };
+  return { sales: toValues(saleRows(master.data, master)), summaries };
+};
+
+// The rows already in the sheet are unchanged, so only new sales need adding.
+const canAppend = (last: SheetPublishState, sales: SheetValues) =>
+  last.salesRows > 0 && last.salesRows + 1 < sales.length && hashValues(sales.slice(0, last.salesRows + 1)) === last.salesHash;
+
+// Bookkeeping only counts for the spreadsheet it was written to.
+const lastPublish = (master: MasterRecord, published?: SheetPublishState) =>
+  master.sheetCopy && published?.spreadsheetId === master.sheetCopy.spreadsheetId ? published : undefined;
+
+export const isSheetCopyStale = (master: MasterRecord, published?: SheetPublishState): boolean => {
+  if (!master.sheetCopy) return false;
+  const last = lastPublish(master, published);
+  if (!last) return true;
+  const { sales, summaries } = buildTabs(master);
+  return last.salesRows !== master.data.length || last.salesHash !== hashValues(sales) || last.summaryHash !== hashValues(Object.values(summaries).flat());
+};
+
+/**
+ * Brings the Sheets copy in line with the master, creating the spreadsheet on
+ * first use or when it has been deleted. Sales added at the end are appended,
+ * provided the tab still holds exactly what this device last wrote (another
+ * device may have published since); any other change rewrites the tab.
+ * Summary tabs are small and always rewritten when they differ.
+ */
+export const publishSheetCopy = async (
+  sheets: SheetsApi,
+  master: MasterRecord,
+  published?: SheetPublishState
+): Promise<{ copy: SheetCopy; state: SheetPublishState }> => {
+  const { sales, summaries } = buildTabs(master);
+  let last = lastPublish(master, published);
+  let copy = master.sheetCopy;
+  if (copy && !(await sheets.spreadsheetExists(copy.spreadsheetId))) copy = last = undefined;
+
+  if (!copy) {
+    const created = await sheets.createSpreadsheet(`${master.name} - Sales`, Object.values(SHEET_TABS));
+    copy = { spreadsheetId: created.id, url: created.url };
+  }
+  const id = copy.spreadsheetId;
+
+  if (last && canAppend(last, sales) && await sheets.countRows(id, SHEET_TABS.sales) === last.salesRows + 1) {
+    await sheets.appendValues(id, SHEET_TABS.sales, sales.slice(last.salesRows + 1));
+  } else if (!last || last.salesHash !== hashValues(sales)) {
+    await sheets.replaceValues(id, SHEET_TABS.sales, sales);
+  }
+
+  const summaryHash = hashValues(Object.values(summaries).flat());
+  if (!last || last.summaryHash !== summaryHash) {
+    for (const [tab, values] of Object.entries(summaries)) await sheets.replaceValues(id, tab, values);
+  }
+
+  return {
+    copy,
+    state: {
+      spreadsheetId: id,
+      publishedAt: new Date().toISOString(),
+      salesRows: master.data.length,
+      salesHash: hashValues(sales),
+      summaryHash
+    }
+  };
+};
@@ -0,0 +1,118 @@
+import { SaleRecord } from '../types';
+import {
+  ComparisonMode, DateRange, Granularity, alignToRange, bucketLabel, bucketStart, comparisonDate, nextBucket
+} from './periods';
+import { ForecastBucket } from './forecast';
+import { netSales, unitsSold } from './ledger';
+
+export interface TrendPoint {
+  date: string;                  // First day of the bucket
+  label: string;
+  revenue: number;
+  units: number;
+  cumulative: number;
+  movingAverage?: number;        // Unset until a full window is available
+  previousDate?: string;
+  previousRevenue?: number;
+}
+
+export interface ForecastFields {
+  forecast?: number;
+  forecastBand?: [number, number];
+  forecastUnits?: number;
+}
+
+// Forecast-only points carry no actuals, so the revenue area stops where history does.
+export type TrendChartPoint = Pick<TrendPoint, 'date' | 'label'> & Partial<TrendPoint> & ForecastFields;
+
+export interface TrendOptions {
+  granularity: Granularity;
+  movingAverage?: number;        // Window in periods; 0 or unset for none
+  previous?: { data: SaleRecord[]; mode: ComparisonMode };
+}
+
+export const MOVING_AVERAGE_WINDOWS = [7, 30];
+
+const round = (n: number) => Math.round(n * 100) / 100;
+
+const sumByBucket = (data: SaleRecord[], bucketOf: (date: string) => string, value: (s: SaleRecord) => number = netSales) =>
+  data.reduce<Record<string, number>>((acc, s) => {
+    if (!s.date) return acc;
+    const bucket = bucketOf(s.date);
+    acc[bucket] = (acc[bucket] || 0) + value(s);
+    return acc;
+  }, {});
+
+/**
+ * Revenue per bucket across the whole range, empty buckets included so the
+ * moving average and the comparison line stay aligned. Comparison sales are
+ * shifted onto the current timeline before bucketing.
+ */
+export const buildRevenueTrend = (data: SaleRecord[], range: DateRange, options: TrendOptions): TrendPoint[] => {
+  const { granularity, movingAverage = 0, previous } = options;
+  const current = sumByBucket(data, date => bucketStart(date, granularity));
+  const units = sumByBucket(data, date => bucketStart(date, granularity), unitsSold);
+  const shifted = previous && sumByBucket(previous.data, date => bucketStart(alignToRange(date, range, previous.mode), granularity));
+  const showYear = range.start.slice(0, 4) !== range.end.slice(0, 4);
+
+  const points: TrendPoint[] = [];
+  let cumulative = 0;
+  for (let date = bucketStart(range.start, granularity); date <= range.end; date = nextBucket(date, granularity)) {
+    const revenue = current[date] || 0;
+    cumulative += revenue;
+    const point: TrendPoint = { date, label: bucketLabel(date, granularity, showYear), revenue: round(revenue), units: units[date] || 0, cumulative: round(cumulative) };
+    if (shifted) {
+      point.previousDate = comparisonDate(date, range, previous!.mode);
+      point.previousRevenue = round(shifted[date] || 0);
+    }
+    points.push(point);
+  }
+
+  if (movingAverage > 1) {
+    let windowSum = 0;
+    points.forEach((point, i) => {
+      windowSum += point.revenue;
+      if (i >= movingAverage) windowSum -= points[i - movingAverage].revenue;
+      if (i >= movingAverage - 1) point.movingAverage = round(windowSum / movingAverage);
+    });
+  }
+
+  return points;
+};
+
+/**
+ * Continues a trend with forecast buckets. The last actual point anchors the
+ * dashed line; if the forecast starts inside that bucket, its remainder is
+ * stacked on the actual so far.
+ */
+export const appendForecast = (
+  points: TrendPoint[],
+  buckets: ForecastBucket[],
+  granularity: Granularity,
+  rangeStart: string
+): TrendChartPoint[] => {
+  if (!points.length || !buckets.length) return points;
+
+  const last = points[points.length - 1];
+  const overlap = buckets[0].date === last.date ? buckets[0] : null;
+  const anchor: TrendChartPoint = overlap
+    ? {
+      ...last,
+      forecast: round(last.revenue + overlap.revenue),
+      forecastBand: [round(last.revenue + overlap.revenueLow), round(last.revenue + overlap.revenueHigh)],
+      forecastUnits: last.units + overlap.units
+    }
+    : { ...last, forecast: last.revenue, forecastBand: [last.revenue, last.revenue] };
+
+  const extension: TrendChartPoint[] = (overlap ? buckets.slice(1) : buckets).map(b => ({
+    date: b.date,
+    label: '',
+    forecast: b.revenue,
+    forecastBand: [b.revenueLow, b.revenueHigh],
+    forecastUnits: b.units
+  }));
+
+  const all: TrendChartPoint[] = [...points.slice(0, -1), anchor, ...extension];
+  const showYear = rangeStart.slice(0, 4) !== all[all.length - 1].date.slice(0, 4);
+  return all.map(p => ({ ...p, label: bucketLabel(p.date, granularity, showYear) }));
+};
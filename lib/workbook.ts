@@ -0,0 +1,123 @@
+import * as XLSX from 'xlsx';
+
+export interface SheetTable {
+  name: string;                  // Sheet name, suffixed when a sheet holds several tables
+  sheetName: string;
+  headerRow: number;             // 1-based row the headers were found on
+  headers: string[];
+  rows: Record<string, any>[];
+  skippedRows: number;           // Totals, subtotals and footer notes left out
+}
+
+const HEADER_SCAN_ROWS = 25;
+const TOTAL_ROW_PATTERN = /^\s*(grand\s+|sub\s*-?\s*|net\s+|gross\s+)?totals?\b|^\s*(summary|balance)\b/i;
+
+const isBlank = (val: any) => val === null || val === undefined || String(val).trim() === '';
+
+const isTextCell = (val: any) =>
+  typeof val === 'string' && val.trim() !== '' && isNaN(Number(val.replace(/[$,%\s]/g, '')));
+
+const filledCount = (row: any[]) => row.filter(c => !isBlank(c)).length;
+
+// The label leads the row and everything after it is a figure. A product such
+// as "Total Body Serum" sits next to a date or other text and is kept.
+const isTotalsRow = (row: any[]) => {
+  const filled = row.filter(c => !isBlank(c));
+  return typeof filled[0] === 'string' && TOTAL_ROW_PATTERN.test(filled[0])
+    && !filled.slice(1).some(c => c instanceof Date || isTextCell(c));
+};
+
+// A header row is mostly text and has at least two labelled columns.
+const headerScore = (row: any[]) => {
+  const filled = filledCount(row);
+  const text = row.filter(isTextCell).length;
+  if (text < 2 || text < filled * 0.6 || isTotalsRow(row)) return 0;
+  return text;
+};
+
+const buildHeaders = (row: any[]): string[] => {
+  const seen: Record<string, number> = {};
+  return row.map((cell, i) => {
+    const base = isBlank(cell) ? `Column ${i + 1}` : String(cell).trim();
+    seen[base] = (seen[base] || 0) + 1;
+    return seen[base] > 1 ? `${base} (${seen[base]})` : base;
+  });
+};
+
+// Splits a sheet into runs of non-blank rows; tables are separated by blank gaps.
+const splitBlocks = (grid: any[][]): { start: number; rows: any[][] }[] => {
+  const blocks: { start: number; rows: any[][] }[] = [];
+  let current: { start: number; rows: any[][] } | null = null;
+  grid.forEach((row, i) => {
+    if (filledCount(row) === 0) {
+      current = null;
+      return;
+    }
+    if (!current) {
+      current = { start: i, rows: [] };
+      blocks.push(current);
+    }
+    current.rows.push(row);
+  });
+  return blocks;
+};
+
+const findHeaderIndex = (rows: any[][]): number => {
+  let best = -1;
+  let bestScore = 0;
+  rows.slice(0, HEADER_SCAN_ROWS).forEach((row, i) => {
+    const score = headerScore(row);
+    if (score > bestScore) {
+      best = i;
+      bestScore = score;
+    }
+  });
+  return best;
+};
+
+/**
+ * Finds every table on a sheet. Title lines above the header are ignored,
+ * totals/subtotals and single-cell footer notes are dropped, and a block
+ * without its own header row (a table broken by a blank line) is folded
+ * into the table above it.
+ */
+export const extractSheetTables = (sheet: XLSX.WorkSheet, sheetName: string): SheetTable[] => {
+  const grid = XLSX.utils.sheet_to_json<any[]>(sheet, { header: 1, defval: '', blankrows: true });
+  const tables: SheetTable[] = [];
+
+  splitBlocks(grid).forEach(block => {
+    const headerIndex = findHeaderIndex(block.rows);
+    const previous = tables[tables.length - 1];
+    const continuesPrevious = headerIndex === -1 && previous;
+    if (headerIndex === -1 && !previous) return;
+
+    const headers = continuesPrevious ? previous.headers : buildHeaders(block.rows[headerIndex]);
+    const body = continuesPrevious ? block.rows : block.rows.slice(headerIndex + 1);
+    const table: SheetTable = continuesPrevious ? previous : {
+      name: sheetName,
+      sheetName,
+      headerRow: block.start + headerIndex + 1,
+      headers,
+      rows: [],
+      skippedRows: 0
+    };
+
+    body.forEach(row => {
+      if (isTotalsRow(row) || (headers.length >= 3 && filledCount(row) === 1)) {
+        table.skippedRows++;
+        return;
+      }
+      const record: Record<string, any> = {};
+      headers.forEach((h, i) => { record[h] = row[i] ?? ''; });
+      table.rows.push(record);
+    });
+
+    if (!continuesPrevious && table.rows.length > 0) tables.push(table);
+  });
+
+  if (tables.length > 1) tables.forEach((t, i) => { t.name = `${sheetName} (table ${i + 1})`; });
+  return tables;
+};
+
+export const readWorkbookTables = (workbook: XLSX.WorkBook): SheetTable[] =>
+  workbook.SheetNames.flatMap(name => extractSheetTables(workbook.Sheets[name], name));
@@ -0,0 +1,74 @@
+import { MasterRecord } from '../types';
+import { DriveApi, DriveFileMeta } from './googleDrive';
+import { LocalMasterSummary } from './localStore';
+
+// The single file every master was saved to before workspaces existed.
+export const LEGACY_MASTER_FILE_NAME = 'Esthetic_Master_Record.json';
+const MASTER_FILE_PREFIX = 'Esthetic_Master_Record';
+
+// One master record, as known to Drive, this device, or both.
+export interface Workspace {
+  key: string;
+  masterId?: string;             // Unknown for legacy Drive files until they are opened
+  name: string;
+  file?: DriveFileMeta;
+  local?: LocalMasterSummary;
+}
+
+export const masterFileName = (name: string) =>
+  `${MASTER_FILE_PREFIX} - ${name.replace(/[\\/:*?"<>|\s]+/g, ' ').trim() || 'Untitled'}.json`;
+
+// Best guess at a name before the file is opened; legacy files carry no tags.
+const nameFromFile = (file: DriveFileMeta) =>
+  file.appProperties?.masterName
+  || (file.name === LEGACY_MASTER_FILE_NAME ? 'Master Record' : file.name.replace(`${MASTER_FILE_PREFIX} - `, '').replace(/\.json$/i, ''));
+
+// Tags on the Drive file so workspaces can be listed without downloading them.
+export const masterFileProperties = (master: MasterRecord): Record<string, string> => ({
+  estheticMaster: '1',
+  masterId: master.id,
+  masterName: master.name
+});
+
+export const listMasterFiles = (drive: DriveApi): Promise<DriveFileMeta[]> =>
+  drive.findFiles(`appProperties has { key='estheticMaster' and value='1' } or name contains '${MASTER_FILE_PREFIX}'`);
+
+/**
+ * Locates the Drive file for a master: by its tag first, then the legacy
+ * file name. The caller must check the id inside a legacy file before
+ * writing to it.
+ */
+export const findMasterFile = async (drive: DriveApi, masterId: string): Promise<DriveFileMeta | null> => {
+  const [tagged] = await drive.findFiles(`appProperties has { key='masterId' and value='${masterId}' }`);
+  return tagged || drive.findFileByName(LEGACY_MASTER_FILE_NAME);
+};
+
+// Joins Drive files and local caches on master id, newest first.
+export const combineWorkspaces = (files: DriveFileMeta[], locals: LocalMasterSummary[]): Workspace[] => {
+  const byId = new Map<string, Workspace>();
+  const workspaces: Workspace[] = [];
+
+  locals.forEach(local => {
+    const workspace: Workspace = { key: `local:${local.id}`, masterId: local.id, name: local.name, local };
+    byId.set(local.id, workspace);
+    workspaces.push(workspace);
+  });
+
+  files.forEach(file => {
+    const masterId = file.appProperties?.masterId;
+    const known = masterId ? byId.get(masterId) : undefined;
+    if (known) {
+      known.file = file;
+      return;
+    }
+    workspaces.push({
+      key: `drive:${file.id}`,
+      masterId,
+      name: nameFromFile(file),
+      file
+    });
+  });
+
+  const updatedAt = (w: Workspace) => [w.local?.lastUpdated || '', w.file?.modifiedTime || ''].sort().pop()!;
+  return workspaces.sort((a, b) => updatedAt(b).localeCompare(updatedAt(a)));
+};
@@ -7,9 +7,115 @@ export interface SaleRecord {
   amount: number;
   quantity: number;
   customerZip?: string;
+  cost?: number;        // Cost of goods for the whole row, when the report has it
+  // Money breakdown when the report has it; see lib/ledger for how it adds up.
+  // Discounts, fees and refunds are stored as positive amounts.
+  gross?: number;
+  discount?: number;
+  tax?: number;
+  shipping?: number;
+  fee?: number;
+  refund?: number;
+  orderId?: string;
+  refundFor?: string;   // Id of the sale this row refunds
+  currency?: string;    // ISO 4217 code; unset means the master's reporting currency
+  fingerprint?: string; // Content hash used to catch the same sale arriving twice
+  batchId?: string;     // The ImportBatch that added this record
+}
+
+// How all-numeric dates like 03/04/2025 are written in a report
+export type DateOrder = 'YMD' | 'MDY' | 'DMY';
+
+// The decimal mark in a report's amounts: "1,234.50" or "1.234,50"
+export type DecimalSeparator = '.' | ',';
+
+export interface ColumnMapping {
+  date: string;
+  product: string;
+  category: string;
+  amount: string;
+  quantity: string;
+  customerZip?: string;          // Optional zip/postal code column
+  cost?: string;                 // Optional cost-of-goods column (row total)
+  gross?: string;
+  discount?: string;
+  tax?: string;
+  shipping?: string;
+  fee?: string;
+  refund?: string;
+  orderId?: string;
+  currency?: string;             // Optional currency code column
+  dateFormat?: DateOrder;
+  decimalSeparator?: DecimalSeparator;  // Unset means detected from the amounts
+  defaultCurrency?: string;      // Currency of the whole report when no column says otherwise
+}
+
+export type MappedField = Exclude<keyof ColumnMapping, 'dateFormat' | 'decimalSeparator' | 'defaultCurrency'>;
+
+// A saved mapping for one report layout (e.g. "Etsy orders", "Square items")
+export interface MappingProfile {
+  id: string;
+  name: string;
+  headerFingerprint: string;     // Hash of the normalised header row; '' matches by columns only
+  headers: string[];
+  mapping: ColumnMapping;
+  updatedAt: string;
+}
+
+// One real-world product; sales keep their raw name and are grouped through aliases
+export interface CatalogProduct {
+  id: string;
+  name: string;                  // Canonical name shown on the dashboard
+  aliases: string[];             // Raw names from reports that mean this product
+}
+
+export interface Category {
+  id: string;
+  name: string;                  // What SaleRecord.category holds
+  parentId?: string;             // Top-level group, e.g. "Rings" under "Jewelry"
+}
+
+// Per-unit cost of making a product, from effectiveFrom until a later entry takes over
+export interface ProductCost {
+  id: string;
+  productId: string;             // CatalogProduct.id
+  materialCost: number;
+  laborCost: number;
+  effectiveFrom?: string;        // YYYY-MM-DD; unset means "since the beginning"
+}
+
+// Value of one unit of `currency` in the reporting currency, from effectiveFrom on
+export interface ExchangeRate {
+  id: string;                    // `${currency}-${effectiveFrom}`, so devices adding the same rate agree
+  currency: string;
+  rate: number;
+  effectiveFrom: string;         // YYYY-MM-DD
+}
+
+export interface ImportBatch {
+  id: string;
+  fileName: string;              // Source key; "file.xlsx [Sheet]" for multi-sheet workbooks
+  sheetName?: string;
+  importedAt: string;
+  rowCount: number;
+  mapping?: ColumnMapping;
+  profileId?: string;
+  recordIds: string[];
+}
+
+export interface DriveFolder {
+  id: string;
+  name: string;
+}
+
+// The shared Google Sheets copy; what each device last wrote to it stays in LocalStore.
+export interface SheetCopy {
+  spreadsheetId: string;
+  url: string;
 }
 
 export interface MasterRecord {
+  schemaVersion: number;         // See CURRENT_SCHEMA_VERSION in lib/schema
   id: string;
   name: string;
   lastUpdated: string;
@@ -20,13 +126,15 @@ export interface MasterRecord {
   googleFileUrl?: string;
   lastStrategicInsight?: string; // Cached AI response
   analysisTimestamp?: string;    // When the analysis was last run
-  mappingSchema?: {
-    date: string;
-    product: string;
-    category: string;
-    amount: string;
-    quantity: string;
-  };
+  mappingProfiles: MappingProfile[];
+  products: CatalogProduct[];
+  categories: Category[];
+  costs: ProductCost[];
+  reportingCurrency: string;     // ISO 4217 code every figure is shown in
+  exchangeRates: ExchangeRate[];
+  imports?: ImportBatch[];       // One entry per synced file, newest last
+  inboxFolder?: DriveFolder;     // Drive folder watched for new reports
+  sheetCopy?: SheetCopy;         // Set while a Google Sheets copy is kept up to date
 }
 
 export interface DashboardStats {
@@ -35,4 +143,4 @@ export interface DashboardStats {
   categoryDistribution: { name: string; value: number }[];
 }
 
-export type ViewState = 'setup' | 'sync' | 'analyze';
+export type ViewState = 'setup' | 'sync' | 'catalog' | 'analyze';